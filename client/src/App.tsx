@@ -6,11 +6,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/lib/auth-context";
 import AuthPage from "@/pages/auth";
 import ChatPage from "@/pages/chat";
+import UnlockPage from "@/pages/unlock";
 import NotFound from "@/pages/not-found";
 import { useEffect } from "react";
 
 function ProtectedRoute({ component: Component }: { component: () => JSX.Element }) {
-  const { user, isLoading } = useAuth();
+  const { user, keyPair, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -24,6 +25,10 @@ function ProtectedRoute({ component: Component }: { component: () => JSX.Element
     return <Redirect to="/auth" />;
   }
 
+  if (!keyPair) {
+    return <UnlockPage />;
+  }
+
   return <Component />;
 }
 
@@ -1,14 +1,17 @@
 import { useState, useRef, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { Trash2 } from "lucide-react";
+import { Trash2, Users } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { type Conversation } from "@shared/schema";
+import { useMessagePreviews } from "@/hooks/use-message-previews";
+import { usePresence } from "@/hooks/use-presence";
+import { type Conversation, type DeleteScope, type GroupConversation } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isSameChat, type ChatTarget } from "@/lib/chats";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,15 +25,21 @@ import {
 
 interface ChatListProps {
   conversations: Conversation[];
-  selectedUserId: number | null;
-  onSelectUser: (userId: number) => void;
+  groups: GroupConversation[];
+  selectedChat: ChatTarget | null;
+  onSelectChat: (chat: ChatTarget) => void;
   isLoading: boolean;
 }
 
+type ChatListItem =
+  | { kind: "direct"; time: Date | null; conversation: Conversation }
+  | { kind: "group"; time: Date | null; group: GroupConversation };
+
 export function ChatList({
   conversations,
-  selectedUserId,
-  onSelectUser,
+  groups,
+  selectedChat,
+  onSelectChat,
   isLoading,
 }: ChatListProps) {
   const { toast } = useToast();
@@ -39,10 +48,12 @@ export function ChatList({
   const [userToDelete, setUserToDelete] = useState<number | null>(null);
   const longPressTimer = useRef<NodeJS.Timeout | null>(null);
   const listRef = useRef<HTMLDivElement>(null);
+  const previews = useMessagePreviews(conversations);
+  const presence = usePresence();
 
   const deleteChatMutation = useMutation({
-    mutationFn: async (userId: number) => {
-      await apiRequest("DELETE", `/api/conversations/${userId}`, undefined);
+    mutationFn: async ({ userId, scope }: { userId: number; scope: DeleteScope }) => {
+      await apiRequest("DELETE", `/api/conversations/${userId}?scope=${scope}`, undefined);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
@@ -51,6 +62,13 @@ export function ChatList({
         description: "Conversation has been removed",
       });
     },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete chat",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   useEffect(() => {
@@ -87,7 +105,7 @@ export function ChatList({
     if (longPressedUserId === userId) {
       setLongPressedUserId(null);
     } else {
-      onSelectUser(userId);
+      onSelectChat({ kind: "direct", id: userId });
     }
   };
 
@@ -131,7 +149,62 @@ export function ChatList({
     );
   }
 
-  if (conversations.length === 0) {
+  // Groups and direct chats share one list, most recently active first.
+  const items: ChatListItem[] = [
+    ...conversations.map((conversation) => ({ kind: "direct" as const, time: conversation.lastMessageTime, conversation })),
+    ...groups.map((group) => ({ kind: "group" as const, time: group.lastMessageTime, group })),
+  ].sort((a, b) => new Date(b.time ?? 0).getTime() - new Date(a.time ?? 0).getTime());
+
+  const renderGroup = (group: GroupConversation) => (
+    <motion.div
+      key={`group-${group.groupId}`}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className={isSameChat(selectedChat, { kind: "group", id: group.groupId }) ? "bg-accent" : ""}
+    >
+      <button
+        data-testid={`group-item-${group.groupId}`}
+        onClick={() => onSelectChat({ kind: "group", id: group.groupId })}
+        className="w-full p-4 flex items-center gap-3 border-b border-border hover-elevate active-elevate-2 text-left"
+      >
+        <Avatar className="h-12 w-12">
+          <AvatarFallback>
+            <Users className="h-5 w-5" />
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-base font-semibold truncate">{group.name}</h3>
+            {group.lastMessageTime && (
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {formatTime(group.lastMessageTime)}
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2 mt-1">
+            <p className="text-sm text-muted-foreground truncate">
+              {group.lastMessage || "Group chat"}
+            </p>
+            {group.unreadCount > 0 && (
+              <Badge
+                variant="default"
+                className="h-5 min-w-5 px-1.5 text-xs rounded-full"
+                data-testid={`unread-count-group-${group.groupId}`}
+              >
+                {group.unreadCount}
+              </Badge>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground mt-0.5">{group.memberCount} members</p>
+        </div>
+      </button>
+    </motion.div>
+  );
+
+  if (items.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center p-4">
         <div className="text-center text-muted-foreground">
@@ -145,90 +218,104 @@ export function ChatList({
   return (
     <>
       <div ref={listRef} className="flex-1 overflow-y-auto">
-        {conversations.map((conversation) => (
-          <motion.div
-            key={conversation.userId}
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className={`relative ${
-              selectedUserId === conversation.userId ? "bg-accent" : ""
-            }`}
-          >
-            <button
-              data-testid={`chat-item-${conversation.userId}`}
-              onClick={() => handleChatClick(conversation.userId)}
-              onMouseDown={() => handleLongPressStart(conversation.userId)}
-              onMouseUp={handleLongPressEnd}
-              onMouseLeave={handleLongPressEnd}
-              onTouchStart={() => handleLongPressStart(conversation.userId)}
-              onTouchEnd={handleLongPressEnd}
-              className="w-full p-4 flex items-center gap-3 border-b border-border hover-elevate active-elevate-2 text-left"
+        {items.map((item) => {
+          if (item.kind === "group") return renderGroup(item.group);
+          const { conversation } = item;
+          return (
+            <motion.div
+              key={conversation.userId}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className={`relative ${
+                isSameChat(selectedChat, { kind: "direct", id: conversation.userId }) ? "bg-accent" : ""
+              }`}
             >
-              <Avatar className="h-12 w-12">
-                <AvatarImage src={conversation.profilePicture || undefined} />
-                <AvatarFallback>{getInitials(conversation.displayName)}</AvatarFallback>
-              </Avatar>
-
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center justify-between gap-2">
-                  <h3 className="text-base font-semibold truncate">
-                    {conversation.displayName}
-                  </h3>
-                  {conversation.lastMessageTime && (
-                    <span className="text-xs text-muted-foreground whitespace-nowrap">
-                      {formatTime(conversation.lastMessageTime)}
-                    </span>
+              <button
+                data-testid={`chat-item-${conversation.userId}`}
+                onClick={() => handleChatClick(conversation.userId)}
+                onMouseDown={() => handleLongPressStart(conversation.userId)}
+                onMouseUp={handleLongPressEnd}
+                onMouseLeave={handleLongPressEnd}
+                onTouchStart={() => handleLongPressStart(conversation.userId)}
+                onTouchEnd={handleLongPressEnd}
+                className="w-full p-4 flex items-center gap-3 border-b border-border hover-elevate active-elevate-2 text-left"
+              >
+                <div className="relative shrink-0">
+                  <Avatar className="h-12 w-12">
+                    <AvatarImage src={conversation.profilePicture || undefined} />
+                    <AvatarFallback>{getInitials(conversation.displayName)}</AvatarFallback>
+                  </Avatar>
+                  {presence.get(conversation.userId)?.online && (
+                    <span
+                      className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background"
+                      data-testid={`presence-online-${conversation.userId}`}
+                    />
                   )}
                 </div>
 
-                <div className="flex items-center justify-between gap-2 mt-1">
-                  <p className="text-sm text-muted-foreground truncate">
-                    {conversation.lastMessage || "No messages yet"}
-                  </p>
-                  {conversation.unreadCount > 0 && (
-                    <Badge
-                      variant="default"
-                      className="h-5 min-w-5 px-1.5 text-xs rounded-full"
-                      data-testid={`unread-count-${conversation.userId}`}
-                    >
-                      {conversation.unreadCount}
-                    </Badge>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-base font-semibold truncate">
+                      {conversation.displayName}
+                    </h3>
+                    {conversation.lastMessageTime && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatTime(conversation.lastMessageTime)}
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-sm text-muted-foreground truncate">
+                      {conversation.lastMessage ? previews.get(conversation.userId) ?? "Encrypted message" : "No messages yet"}
+                    </p>
+                    {conversation.unreadCount > 0 && (
+                      <Badge
+                        variant="default"
+                        className="h-5 min-w-5 px-1.5 text-xs rounded-full"
+                        data-testid={`unread-count-${conversation.userId}`}
+                      >
+                        {conversation.unreadCount}
+                      </Badge>
+                    )}
+                  </div>
+
+                  {!conversation.deletedAt && (
+                    <p className="text-xs text-muted-foreground font-mono mt-0.5">
+                      @{conversation.username}
+                    </p>
                   )}
                 </div>
+              </button>
 
-                <p className="text-xs text-muted-foreground font-mono mt-0.5">
-                  @{conversation.username}
-                </p>
-              </div>
-            </button>
-
-            <AnimatePresence>
-              {longPressedUserId === conversation.userId && (
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.8 }}
-                  transition={{ duration: 0.15 }}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 z-10"
-                >
-                  <Button
-                    variant="destructive"
-                    size="icon"
-                    data-testid={`button-delete-chat-${conversation.userId}`}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setUserToDelete(conversation.userId);
-                      setShowDeleteDialog(true);
-                    }}
-                    className="h-9 w-9 rounded-full"
+              <AnimatePresence>
+                {longPressedUserId === conversation.userId && (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.8 }}
+                    transition={{ duration: 0.15 }}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 z-10"
                   >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </motion.div>
-              )}
-            </AnimatePresence>
-          </motion.div>
-        ))}
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      data-testid={`button-delete-chat-${conversation.userId}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setUserToDelete(conversation.userId);
+                        setShowDeleteDialog(true);
+                      }}
+                      className="h-9 w-9 rounded-full"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </motion.div>
+          );
+        })}
       </div>
 
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
@@ -236,8 +323,9 @@ export function ChatList({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete all messages with{" "}
-              {conversations.find((c) => c.userId === userToDelete)?.displayName}.
+              Delete for me clears your chat with{" "}
+              {conversations.find((c) => c.userId === userToDelete)?.displayName} on your devices only.
+              Delete for everyone also removes the messages you sent in the last hour for them.
               This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -245,18 +333,22 @@ export function ChatList({
             <AlertDialogCancel onClick={() => setLongPressedUserId(null)}>
               Cancel
             </AlertDialogCancel>
-            <AlertDialogAction
-              onClick={() => {
-                if (userToDelete !== null) {
-                  deleteChatMutation.mutate(userToDelete);
-                  setLongPressedUserId(null);
-                  setUserToDelete(null);
-                }
-              }}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Delete
-            </AlertDialogAction>
+            {(["me", "everyone"] as const).map((scope) => (
+              <AlertDialogAction
+                key={scope}
+                onClick={() => {
+                  if (userToDelete !== null) {
+                    deleteChatMutation.mutate({ userId: userToDelete, scope });
+                    setLongPressedUserId(null);
+                    setUserToDelete(null);
+                  }
+                }}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                data-testid={`button-delete-chat-for-${scope}`}
+              >
+                {scope === "me" ? "Delete for me" : "Delete for everyone"}
+              </AlertDialogAction>
+            ))}
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
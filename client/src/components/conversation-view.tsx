@@ -1,96 +1,420 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { ArrowLeft, Info, Lock } from "lucide-react";
+import { ArrowLeft, Info, Loader2, Lock, ShieldAlert, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { useVerification } from "@/hooks/use-verification";
+import { describePresence, usePresence, useTyping } from "@/hooks/use-presence";
 import { useAuth } from "@/lib/auth-context";
-import { decryptMessage } from "@/lib/crypto";
+import { decryptMessage, encryptMessage } from "@/lib/crypto";
+import { editedMessagePayload, signPayload, verifyMessageSignature } from "@/lib/signatures";
+import { encryptDirectMessage, openDirectMessage, rememberPlaintext } from "@/lib/sessions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type Message, type SafeUser, type DecryptedMessage } from "@shared/schema";
-import { MessageBubble } from "@/components/message-bubble";
-import { MessageInput } from "@/components/message-input";
+import { contentKey, messagesQueryKey, messagesUrl, type ChatTarget } from "@/lib/chats";
+import {
+  withRevision,
+  type Conversation,
+  type GroupConversation,
+  type GroupMessageWithKey,
+  type GroupWithMembers,
+  type MessageWithReactions,
+  type Reaction,
+  type RevisionWithEnvelope,
+  type SafeUser,
+  type DecryptedGroupMessage,
+  type DecryptedMessage,
+  type DeleteScope,
+  type SignatureStatus,
+} from "@shared/schema";
+import { MessageBubble, type QuotedMessage } from "@/components/message-bubble";
+import { MessageInput, type ReplyTarget } from "@/components/message-input";
+import { GroupInfoDialog } from "@/components/group-info-dialog";
+
+type ChatMessage = MessageWithReactions | GroupMessageWithKey;
+type DisplayMessage = DecryptedMessage | DecryptedGroupMessage;
+
+const PAGE_SIZE = 50;
+const LOAD_OLDER_THRESHOLD = 200;
+const NO_MESSAGES: ChatMessage[] = [];
+const HIGHLIGHT_DURATION = 2000;
+
+// One line of a message for reply quotes and the reply preview.
+function quotePreview(message: DisplayMessage) {
+  if (message.deleted) return "[Message deleted]";
+  if (message.type === "image" && message.signatureStatus !== "invalid") return "Photo";
+  return message.content.replace(/\s+/g, " ").trim();
+}
+
+// Refreshes the newest page while keeping any older pages already loaded. If more
+// than a page arrived since the last fetch the cache can't be stitched together,
+// so it starts over from the latest page.
+function mergeLatestPage(cached: ChatMessage[] | undefined, latest: ChatMessage[]) {
+  if (!cached || cached.length === 0 || latest.length === 0) return { messages: latest, reset: true };
+  const oldestLatestId = latest[0].id;
+  if (latest.length === PAGE_SIZE && cached[cached.length - 1].id < oldestLatestId) {
+    return { messages: latest, reset: true };
+  }
+  return { messages: [...cached.filter((m) => m.id < oldestLatestId), ...latest], reset: false };
+}
 
 interface ConversationViewProps {
-  userId: number;
+  chat: ChatTarget;
   onViewProfile: (userId: number) => void;
   onBack: () => void;
 }
 
-export function ConversationView({ userId, onViewProfile, onBack }: ConversationViewProps) {
+export function ConversationView({ chat, onViewProfile, onBack }: ConversationViewProps) {
   const { user: currentUser, keyPair } = useAuth();
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const [decryptedMessages, setDecryptedMessages] = useState<DecryptedMessage[]>([]);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<number | null>(null);
+  const newestMessageIdRef = useRef(0);
+  const lastMarkedReadRef = useRef(0);
+  const decryptedContentRef = useRef(new Map<string, Pick<DisplayMessage, "content" | "signatureStatus">>());
+  const [decryptedMessages, setDecryptedMessages] = useState<DisplayMessage[]>([]);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [replyTo, setReplyTo] = useState<ReplyTarget | null>(null);
+  // A quoted message to scroll to once it is loaded and decrypted.
+  const [jumpTarget, setJumpTarget] = useState<number | null>(null);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
+  const isGroup = chat.kind === "group";
+  const queryKey = messagesQueryKey(chat);
 
   useEffect(() => {
     setDecryptedMessages([]);
-  }, [userId]);
+    setHasOlder(false);
+    scrollAnchorRef.current = null;
+    newestMessageIdRef.current = 0;
+    lastMarkedReadRef.current = 0;
+    decryptedContentRef.current = new Map();
+    setShowGroupInfo(false);
+    setReplyTo(null);
+    setJumpTarget(null);
+    setHighlightedId(null);
+  }, [chat.kind, chat.id]);
 
   const { data: otherUser, isLoading: userLoading } = useQuery<SafeUser>({
-    queryKey: ["/api/users", userId],
+    queryKey: ["/api/users", chat.id],
+    enabled: !isGroup,
+  });
+
+  const { data: group, isLoading: groupLoading } = useQuery<GroupWithMembers>({
+    queryKey: ["/api/groups", chat.id],
+    enabled: isGroup,
+  });
+
+  // Only direct chats have a single contact to verify.
+  const verification = useVerification(chat.id, isGroup || otherUser?.deletedAt ? undefined : otherUser);
+  const presence = usePresence();
+  const isTyping = useTyping(isGroup ? null : chat.id);
+  const status = isGroup ? null : describePresence(presence.get(chat.id), isTyping);
+
+  const { data: messages = NO_MESSAGES, isLoading: messagesLoading } = useQuery<ChatMessage[]>({
+    queryKey,
+    queryFn: async () => {
+      const latest = await apiRequest<ChatMessage[]>("GET", `${messagesUrl(chat)}?limit=${PAGE_SIZE}`, undefined);
+      const { messages, reset } = mergeLatestPage(queryClient.getQueryData<ChatMessage[]>(queryKey), latest);
+      if (reset) setHasOlder(latest.length === PAGE_SIZE);
+      return messages;
+    },
   });
 
-  const { data: messages = [], isLoading: messagesLoading } = useQuery<Message[]>({
-    queryKey: ["/api/messages", userId],
+  const loadOlderMutation = useMutation({
+    mutationFn: async ({ target, before }: { target: ChatTarget; before: number }) => {
+      const older = await apiRequest<ChatMessage[]>(
+        "GET",
+        `${messagesUrl(target)}?before=${before}&limit=${PAGE_SIZE}`,
+        undefined
+      );
+      return { target, older };
+    },
+    onSuccess: ({ target, older }) => {
+      if (target.kind !== chat.kind || target.id !== chat.id) return;
+      setHasOlder(older.length === PAGE_SIZE);
+      const container = scrollContainerRef.current;
+      if (container) scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      queryClient.setQueryData<ChatMessage[]>(messagesQueryKey(target), (old) =>
+        old ? [...older.filter((m) => m.id < (old[0]?.id ?? Infinity)), ...old] : old
+      );
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to load earlier messages",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container || container.scrollTop > LOAD_OLDER_THRESHOLD) return;
+    if (!hasOlder || loadOlderMutation.isPending || messages.length === 0) return;
+    loadOlderMutation.mutate({ target: chat, before: messages[0].id });
+  };
+
   const deleteMessageMutation = useMutation({
-    mutationFn: async (messageId: number) => {
-      await apiRequest("DELETE", `/api/messages/${messageId}`, undefined);
+    mutationFn: async ({ messageId, scope }: { messageId: number; scope: DeleteScope }) => {
+      const url = isGroup ? `/api/groups/${chat.id}/messages/${messageId}` : `/api/messages/${messageId}?scope=${scope}`;
+      await apiRequest("DELETE", url, undefined);
+      return { messageId, scope };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages", userId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    onSuccess: ({ messageId, scope }) => {
+      if (scope === "me") {
+        queryClient.setQueryData<ChatMessage[]>(queryKey, (old) => old?.filter((m) => m.id !== messageId));
+      }
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: [isGroup ? "/api/groups" : "/api/conversations"], exact: true });
       toast({ title: "Message deleted" });
     },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const deleteMessagesMutation = useMutation({
-    mutationFn: async (messageIds: number[]) => {
-      await apiRequest("POST", "/api/messages/delete-bulk", { messageIds });
+    mutationFn: async ({ messageIds, scope }: { messageIds: number[]; scope: DeleteScope }) => {
+      await apiRequest("POST", "/api/messages/delete-bulk", { messageIds, scope });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages", userId] });
+      queryClient.invalidateQueries({ queryKey });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       toast({ title: "Messages deleted" });
     },
   });
 
+  // Edits are encrypted the same way as the original: a ratchet message gets a
+  // ratchet edit, so editing it doesn't hand its content to the long-term keys.
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: number; content: string }) => {
+      if (!keyPair || !currentUser || !otherUser) throw new Error("No encryption keys available");
+      if (currentUser.signingPublicKey && !keyPair.signingPrivateKey) {
+        throw new Error("Still setting up message signing on this device, try again in a moment");
+      }
+      const original = messages.find((m) => m.id === messageId);
+      const ratchet = !!original && "encryption" in original && original.encryption === "ratchet";
+
+      const sendEdit = async () => {
+        const encrypted = ratchet
+          ? await encryptDirectMessage(content, currentUser, keyPair, {
+              id: otherUser.id,
+              signingPublicKey: otherUser.signingPublicKey,
+            })
+          : { encryption: "rsa" as const, ...(await encryptMessage(content, currentUser.publicKey, otherUser.publicKey)) };
+        if (!encrypted) throw new Error("Forward secrecy isn't set up on this device");
+        const payload = editedMessagePayload({
+          id: messageId,
+          senderId: currentUser.id,
+          recipientId: otherUser.id,
+          type: "text",
+          ...encrypted,
+          replyToId: original && "replyToId" in original ? original.replyToId : null,
+        });
+        const signature = keyPair.signingPrivateKey ? await signPayload(payload, keyPair.signingPrivateKey) : undefined;
+        const revision = await apiRequest<RevisionWithEnvelope>("PATCH", `/api/messages/${messageId}`, { ...encrypted, signature });
+        // This device has no envelope of its own edit.
+        if (ratchet) await rememberPlaintext(currentUser.username, keyPair, { id: messageId, editedAt: revision.editedAt }, content);
+        return revision;
+      };
+
+      try {
+        return await sendEdit();
+      } catch (error: any) {
+        // A device was added or removed between fetching the list and sending; retry once.
+        if (!String(error.message).startsWith("409")) throw error;
+        return sendEdit();
+      }
+    },
+    onSuccess: (revision) => {
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", chat.id], (old) =>
+        old?.map((m) => (m.id === revision.messageId ? withRevision(m, revision) : m))
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", revision.messageId, "revisions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to edit message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleReactionMutation = useMutation({
+    mutationFn: async ({ messageId, emoji, reacted }: { messageId: number; emoji: string; reacted: boolean }) => {
+      const reactions = reacted
+        ? await apiRequest<Reaction[]>("DELETE", `/api/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`, undefined)
+        : await apiRequest<Reaction[]>("POST", `/api/messages/${messageId}/reactions`, { emoji });
+      return { messageId, reactions };
+    },
+    onSuccess: ({ messageId, reactions }) => {
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", chat.id], (old) =>
+        old?.map((m) => (m.id === messageId ? { ...m, reactions } : m))
+      );
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to react",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   useEffect(() => {
-    if (messages.length > 0 && keyPair && currentUser) {
-      const decrypt = async () => {
-        const decrypted: DecryptedMessage[] = [];
+    // Signatures are checked against the sender's key, so wait for whoever might have sent them.
+    if (!keyPair || !currentUser || (isGroup ? !group : !otherUser)) return;
+    let cancelled = false;
+
+    const signingKeyOf = (senderId: number) => {
+      if (senderId === currentUser.id) return keyPair.signingPublicKey ?? currentUser.signingPublicKey;
+      if (group) return group.members.find((m) => m.id === senderId)?.signingPublicKey;
+      return otherUser?.signingPublicKey;
+    };
+
+    // Plaintext is cached by message id and revision, so only new or edited messages are verified and decrypted.
+    const decrypt = async () => {
+      const contents = decryptedContentRef.current;
+      // Ratchet messages this device has no envelope for yet; not cached, since our own
+      // sends only get their plaintext stored once the server has assigned an id.
+      const unavailable = new Map<number, SignatureStatus>();
+
+      for (const message of messages) {
+        const key = contentKey(message);
+        if (message.deleted || contents.has(key)) continue;
 
-        for (const message of messages) {
-          if (message.deleted) {
-            decrypted.push({ ...message, content: "[Message deleted]" });
+        const signatureStatus = await verifyMessageSignature(message, signingKeyOf(message.senderId));
+        if (signatureStatus === "invalid") {
+          contents.set(key, { content: "[Message could not be verified]", signatureStatus });
+          continue;
+        }
+
+        try {
+          if ("encryption" in message && message.encryption === "ratchet") {
+            const content = await openDirectMessage(message, currentUser, keyPair, signingKeyOf(message.senderId));
+            if (content === null) unavailable.set(message.id, signatureStatus);
+            else contents.set(key, { content, signatureStatus });
             continue;
           }
 
-          try {
-            const isSender = message.senderId === currentUser.id;
-            const encryptedKey = isSender ? message.senderEncryptedKey : message.recipientEncryptedKey;
-            const content = await decryptMessage(message.encryptedContent, encryptedKey, message.iv, keyPair.privateKey);
-            decrypted.push({ ...message, content });
-          } catch (error) {
-            decrypted.push({ ...message, content: "[Failed to decrypt]" });
-          }
+          const isSender = message.senderId === currentUser.id;
+          const encryptedKey =
+            "encryptedKey" in message
+              ? message.encryptedKey
+              : isSender
+              ? message.senderEncryptedKey
+              : message.recipientEncryptedKey;
+          const content = await decryptMessage(message.encryptedContent, encryptedKey, message.iv, keyPair.privateKey);
+          contents.set(key, { content, signatureStatus });
+        } catch (error) {
+          contents.set(key, { content: "[Failed to decrypt]", signatureStatus });
         }
+      }
 
-        setDecryptedMessages(decrypted);
-      };
+      if (cancelled) return;
+      setDecryptedMessages(
+        messages.map((message) => ({
+          ...message,
+          ...(message.deleted
+            ? { content: "[Message deleted]", signatureStatus: "unsigned" as const }
+            : contents.get(contentKey(message)) ??
+              (unavailable.has(message.id)
+                ? { content: "[Not available on this device]", signatureStatus: unavailable.get(message.id)! }
+                : { content: "[Failed to decrypt]", signatureStatus: "unsigned" as const })),
+        }))
+      );
+    };
+
+    decrypt();
+    return () => {
+      cancelled = true;
+    };
+  }, [messages, keyPair, currentUser, isGroup, group, otherUser]);
 
-      decrypt();
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (container && scrollAnchorRef.current !== null) {
+      // Older messages were prepended: keep the same messages under the viewport.
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+      return;
     }
-  }, [messages, keyPair, currentUser]);
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    const newestId = decryptedMessages[decryptedMessages.length - 1]?.id ?? 0;
+    if (newestId === newestMessageIdRef.current) return;
+    const firstRender = newestMessageIdRef.current === 0;
+    newestMessageIdRef.current = newestId;
+    messagesEndRef.current?.scrollIntoView({ behavior: firstRender ? "auto" : "smooth" });
   }, [decryptedMessages]);
 
+  useEffect(() => {
+    if (jumpTarget === null) return;
+    const element = scrollContainerRef.current?.querySelector(`[data-message-id="${jumpTarget}"]`);
+    if (element) {
+      element.scrollIntoView({ behavior: "smooth", block: "center" });
+      setHighlightedId(jumpTarget);
+      setJumpTarget(null);
+      return;
+    }
+    // Loaded but not decrypted yet: wait for the next render.
+    if (messages.some((m) => m.id === jumpTarget)) return;
+    if (messages.length === 0 || messages[0].id < jumpTarget || !hasOlder) {
+      setJumpTarget(null);
+      return;
+    }
+    // Older than anything loaded: page back until it turns up.
+    if (!loadOlderMutation.isPending) loadOlderMutation.mutate({ target: chat, before: messages[0].id });
+  }, [jumpTarget, messages, decryptedMessages, hasOlder, loadOlderMutation.isPending]);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timer = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  useEffect(() => {
+    const markRead = () => {
+      if (document.visibilityState !== "visible") return;
+      // Group messages have no per-message read state; the server keeps a read cursor instead.
+      const lastUnread = [...messages]
+        .reverse()
+        .find((m) => m.senderId !== currentUser?.id && !("readAt" in m && m.readAt));
+      if (!lastUnread || lastUnread.id <= lastMarkedReadRef.current) return;
+
+      lastMarkedReadRef.current = lastUnread.id;
+      const url = isGroup ? `/api/groups/${chat.id}/read` : `/api/conversations/${chat.id}/read`;
+      apiRequest("POST", url, { upToMessageId: lastUnread.id })
+        .then(() => {
+          if (isGroup) {
+            queryClient.setQueryData<GroupConversation[]>(["/api/groups"], (old) =>
+              old?.map((g) => (g.groupId === chat.id ? { ...g, unreadCount: 0 } : g))
+            );
+          } else {
+            queryClient.setQueryData<Conversation[]>(["/api/conversations"], (old) =>
+              old?.map((c) => (c.userId === chat.id ? { ...c, unreadCount: 0 } : c))
+            );
+          }
+        })
+        .catch(() => {
+          lastMarkedReadRef.current = 0;
+        });
+    };
+
+    markRead();
+    document.addEventListener("visibilitychange", markRead);
+    return () => document.removeEventListener("visibilitychange", markRead);
+  }, [messages, chat.kind, chat.id, currentUser?.id]);
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -100,9 +424,9 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
       .slice(0, 2);
   };
 
-  const groupMessages = (messages: DecryptedMessage[]) => {
-    const groups: DecryptedMessage[][] = [];
-    let currentGroup: DecryptedMessage[] = [];
+  const groupMessages = (messages: DisplayMessage[]) => {
+    const groups: DisplayMessage[][] = [];
+    let currentGroup: DisplayMessage[] = [];
 
     messages.forEach((message, index) => {
       if (index === 0) {
@@ -132,7 +456,20 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
     return groups;
   };
 
-  if (userLoading) {
+  const getSenderName = (senderId: number) =>
+    group?.members.find((m) => m.id === senderId)?.displayName ?? "Former member";
+
+  const getDirectSenderName = (senderId: number) =>
+    senderId === currentUser?.id ? "You" : otherUser?.displayName ?? "";
+
+  const getQuote = (message: DisplayMessage): QuotedMessage | null => {
+    if (!("replyToId" in message) || !message.replyToId) return null;
+    const original = decryptedMessages.find((m) => m.id === message.replyToId);
+    if (!original) return { senderName: "Earlier message", content: "Tap to show" };
+    return { senderName: getDirectSenderName(original.senderId), content: quotePreview(original) };
+  };
+
+  if (isGroup ? groupLoading : userLoading) {
     return (
       <div className="flex-1 flex flex-col">
         <div className="h-14 px-4 flex items-center gap-3 border-b border-border bg-card">
@@ -146,14 +483,19 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
     );
   }
 
-  if (!otherUser) {
+  const title = isGroup ? group?.name : otherUser?.displayName;
+  if (!title) {
     return (
       <div className="flex-1 flex items-center justify-center">
-        <p className="text-muted-foreground">User not found</p>
+        <p className="text-muted-foreground">{isGroup ? "Group not found" : "User not found"}</p>
       </div>
     );
   }
 
+  const recipients = isGroup
+    ? group!.members.map((m) => ({ userId: m.id, publicKey: m.publicKey }))
+    : [{ userId: otherUser!.id, publicKey: otherUser!.publicKey, signingPublicKey: otherUser!.signingPublicKey }];
+
   const messageGroups = groupMessages(decryptedMessages);
 
   return (
@@ -171,34 +513,75 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
             <ArrowLeft className="h-5 w-5" />
           </Button>
 
-          <Avatar className="h-10 w-10" data-testid={`avatar-user-${userId}`}>
-            <AvatarImage src={otherUser.profilePicture || undefined} />
-            <AvatarFallback>{getInitials(otherUser.displayName)}</AvatarFallback>
+          <Avatar className="h-10 w-10" data-testid={`avatar-${chat.kind}-${chat.id}`}>
+            <AvatarImage src={otherUser?.profilePicture || undefined} />
+            <AvatarFallback>{isGroup ? <Users className="h-5 w-5" /> : getInitials(title)}</AvatarFallback>
           </Avatar>
 
           <div className="flex-1 min-w-0">
             <h2 className="font-semibold truncate" data-testid="text-chat-name">
-              {otherUser.displayName}
+              {title}
             </h2>
-            <p className="text-xs text-muted-foreground flex items-center gap-1">
-              <Lock className="h-3 w-3" />
-              End-to-end encrypted
-            </p>
+            {status ? (
+              <p
+                className={`text-xs truncate ${isTyping ? "text-primary" : "text-muted-foreground"}`}
+                data-testid="text-presence"
+              >
+                {status}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Lock className="h-3 w-3" />
+                End-to-end encrypted
+                {group && ` · ${group.members.length} members`}
+              </p>
+            )}
           </div>
         </div>
 
         <Button
           variant="ghost"
           size="icon"
-          data-testid="button-view-profile"
-          onClick={() => onViewProfile(userId)}
+          data-testid={isGroup ? "button-group-info" : "button-view-profile"}
+          onClick={() => (isGroup ? setShowGroupInfo(true) : onViewProfile(chat.id))}
         >
           <Info className="h-5 w-5" />
         </Button>
       </div>
 
+      {verification.status === "changed" && (
+        <div
+          className="px-4 py-3 flex items-center gap-3 border-b border-destructive bg-destructive/10 text-destructive"
+          data-testid="banner-key-changed"
+        >
+          <ShieldAlert className="h-5 w-5 shrink-0" />
+          <p className="flex-1 text-sm">
+            {title}'s encryption keys have changed since you verified them. Someone may be intercepting this chat.
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-destructive text-destructive"
+            onClick={() => onViewProfile(chat.id)}
+            data-testid="button-review-safety-number"
+          >
+            Review
+          </Button>
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+        data-testid="container-messages"
+      >
+        {loadOlderMutation.isPending && (
+          <div className="flex justify-center" data-testid="status-loading-older">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
         {messagesLoading ? (
           <div className="space-y-3">
             {[1, 2, 3].map((i) => (
@@ -217,8 +600,8 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
           </div>
         ) : (
           <AnimatePresence initial={false}>
-            {messageGroups.map((group, groupIndex) => (
-              <div key={groupIndex} className="space-y-1">
+            {messageGroups.map((group) => (
+              <div key={group[0].id} className="space-y-1">
                 {group.map((message, messageIndex) => (
                   <MessageBubble
                     key={message.id}
@@ -226,8 +609,33 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
                     isOwn={message.senderId === currentUser?.id}
                     isFirst={messageIndex === 0}
                     isLast={messageIndex === group.length - 1}
-                    onDelete={() => deleteMessageMutation.mutate(message.id)}
+                    onDelete={(scope) => deleteMessageMutation.mutate({ messageId: message.id, scope })}
+                    canDeleteForMe={!isGroup}
+                    onEdit={
+                      isGroup ? undefined : (content) => editMessageMutation.mutate({ messageId: message.id, content })
+                    }
+                    onReply={
+                      isGroup
+                        ? undefined
+                        : () =>
+                            setReplyTo({
+                              messageId: message.id,
+                              senderName: message.senderId === currentUser?.id ? "yourself" : otherUser!.displayName,
+                              preview: quotePreview(message),
+                            })
+                    }
+                    quote={getQuote(message)}
+                    onQuoteClick={() => {
+                      if ("replyToId" in message && message.replyToId) setJumpTarget(message.replyToId);
+                    }}
+                    highlighted={highlightedId === message.id}
+                    onToggleReaction={
+                      isGroup
+                        ? undefined
+                        : (emoji, reacted) => toggleReactionMutation.mutate({ messageId: message.id, emoji, reacted })
+                    }
                     currentUserId={currentUser?.id || 0}
+                    senderName={isGroup ? getSenderName(message.senderId) : undefined}
                   />
                 ))}
               </div>
@@ -238,7 +646,17 @@ export function ConversationView({ userId, onViewProfile, onBack }: Conversation
       </div>
 
       {/* Input */}
-      <MessageInput recipientId={userId} recipientPublicKey={otherUser.publicKey} />
+      {otherUser?.deletedAt ? (
+        <div className="border-t border-border bg-card p-4 text-center text-sm text-muted-foreground" data-testid="text-account-deleted">
+          This account has been deleted. You can still read your messages, but can't send new ones.
+        </div>
+      ) : (
+        <MessageInput chat={chat} recipients={recipients} replyTo={replyTo} onCancelReply={() => setReplyTo(null)} />
+      )}
+
+      {group && (
+        <GroupInfoDialog group={group} open={showGroupInfo} onOpenChange={setShowGroupInfo} onLeave={onBack} />
+      )}
     </div>
   );
 }
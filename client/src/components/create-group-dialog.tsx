@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type GroupWithMembers, type SafeUser } from "@shared/schema";
+import { MemberSearch } from "@/components/member-search";
+
+interface CreateGroupDialogProps {
+  onCreated: (groupId: number) => void;
+}
+
+export function CreateGroupDialog({ onCreated }: CreateGroupDialogProps) {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [members, setMembers] = useState<SafeUser[]>([]);
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<GroupWithMembers>("POST", "/api/groups", {
+        name: name.trim(),
+        memberIds: members.map((m) => m.id),
+      });
+    },
+    onSuccess: (group) => {
+      queryClient.setQueryData(["/api/groups", group.id], group);
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"], exact: true });
+      setOpen(false);
+      setName("");
+      setMembers([]);
+      onCreated(group.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to create group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" data-testid="button-create-group">
+          <Users className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Group</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="input-group-name">Group name</Label>
+            <Input
+              id="input-group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              data-testid="input-group-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {members.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {members.map((member) => (
+                  <Badge key={member.id} variant="secondary" className="gap-1" data-testid={`badge-member-${member.id}`}>
+                    {member.displayName}
+                    <button
+                      onClick={() => setMembers(members.filter((m) => m.id !== member.id))}
+                      data-testid={`button-remove-member-${member.id}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <MemberSearch
+              excludeIds={[currentUser?.id || 0, ...members.map((m) => m.id)]}
+              onSelect={(user) => setMembers([...members, user])}
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createGroupMutation.mutate()}
+            disabled={!name.trim() || members.length === 0 || createGroupMutation.isPending}
+            data-testid="button-submit-group"
+          >
+            {createGroupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
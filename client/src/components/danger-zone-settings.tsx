@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+
+// Deleting needs the username typed out and the password re-entered.
+export function DangerZoneSettings() {
+  const { toast } = useToast();
+  const { user, deleteAccount } = useAuth();
+  const [confirmation, setConfirmation] = useState("");
+  const [password, setPassword] = useState("");
+
+  const deleteMutation = useMutation({
+    mutationFn: (password: string) => deleteAccount(password),
+    onSuccess: () => {
+      toast({ title: "Account deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmed = !!user && confirmation === user.username && !!password;
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (confirmed) deleteMutation.mutate(password);
+      }}
+    >
+      <div className="p-4 bg-destructive/10 border-2 border-destructive rounded-md">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-destructive flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-destructive space-y-1">
+            <p className="font-semibold">Delete your account</p>
+            <p>
+              This signs out every device and deletes your messages, reactions, group memberships and keys. People
+              you talked to will see you as "Deleted account". This can't be undone.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="input-delete-confirmation">
+          Type <span className="font-mono">{user?.username}</span> to confirm
+        </Label>
+        <Input
+          id="input-delete-confirmation"
+          autoComplete="off"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          data-testid="input-delete-confirmation"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="input-delete-password">Password</Label>
+        <Input
+          id="input-delete-password"
+          type="password"
+          placeholder="Enter your password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid="input-delete-password"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        variant="destructive"
+        className="w-full"
+        disabled={!confirmed || deleteMutation.isPending}
+        data-testid="button-delete-account"
+      >
+        <Trash2 className="h-4 w-4 mr-2" />
+        {deleteMutation.isPending ? "Deleting..." : "Delete account"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link2, Loader2, Monitor, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { encryptKeysForDevice } from "@/lib/device-link";
+import { exportKeys } from "@/lib/key-store";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { normalizeLinkCode } from "@shared/device-link";
+import { type DeviceInfo } from "@shared/schema";
+
+interface PendingApproval {
+  code: string;
+  deviceName: string;
+  publicKey: string;
+}
+
+export function DeviceSettings() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
+
+  const { data: devices = [], isLoading } = useQuery<DeviceInfo[]>({
+    queryKey: ["/api/devices"],
+    staleTime: 0,
+  });
+
+  const findRequestMutation = useMutation({
+    mutationFn: async (input: string) => {
+      const normalized = normalizeLinkCode(input);
+      const request = await apiRequest<{ deviceName: string; publicKey: string }>(
+        "GET",
+        `/api/devices/link-requests/${encodeURIComponent(normalized)}`,
+        undefined
+      );
+      return { ...request, code: normalized };
+    },
+    onSuccess: (request) => setPendingApproval(request),
+    onError: (error: any) => {
+      toast({
+        title: "Pairing code not found",
+        description: error.message || "Check the code shown on your new device",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (request: PendingApproval) => {
+      if (!user) throw new Error("No encryption keys available");
+      // Only the password-wrapped copy of the keys can be exported.
+      const keyPair = await exportKeys(user.username, password);
+      const approval = await encryptKeysForDevice(keyPair, request.publicKey, request.code);
+      await apiRequest("POST", `/api/devices/link-requests/${encodeURIComponent(request.code)}/approve`, approval);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Device linked",
+        description: "Your new device can now read your messages",
+      });
+      setPendingApproval(null);
+      setCode("");
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to link device",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (deviceId: number) => {
+      await apiRequest("DELETE", `/api/devices/${deviceId}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({ title: "Device removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove device",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatLastSeen = (date: Date) => {
+    return new Date(date).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="input-link-code">Link a new device</Label>
+        {pendingApproval ? (
+          <div className="p-3 bg-muted rounded-md space-y-3">
+            <p className="text-sm">
+              Send your encryption keys to <span className="font-semibold">{pendingApproval.deviceName}</span>? Only
+              approve devices you own.
+            </p>
+            <Input
+              type="password"
+              placeholder="Your password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-link-password"
+            />
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                onClick={() => approveMutation.mutate(pendingApproval)}
+                disabled={!password || approveMutation.isPending}
+                data-testid="button-approve-link"
+              >
+                {approveMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+                Approve
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={() => {
+                  setPendingApproval(null);
+                  setPassword("");
+                }}
+                data-testid="button-reject-link"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input
+              id="input-link-code"
+              placeholder="XXXXX-XXXXX"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="font-mono uppercase"
+              data-testid="input-link-code"
+            />
+            <Button
+              onClick={() => findRequestMutation.mutate(code)}
+              disabled={!code.trim() || findRequestMutation.isPending}
+              data-testid="button-find-link"
+            >
+              Continue
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Sign in on the new device to get a pairing code.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Linked devices</Label>
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {isLoading ? (
+            <Skeleton className="h-14 w-full" />
+          ) : (
+            devices.map((device) => (
+              <div
+                key={device.id}
+                className="flex items-center gap-3 p-3 rounded-md border border-border"
+                data-testid={`device-${device.id}`}
+              >
+                <Monitor className="h-5 w-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate flex items-center gap-2">
+                    {device.name}
+                    {device.current && <Badge variant="secondary">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">Last active {formatLastSeen(device.lastSeenAt)}</p>
+                </div>
+                {!device.current && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => revokeMutation.mutate(device.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-device-${device.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import { ImageOff } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { loadAttachment, type AttachmentRef } from "@/lib/attachments";
+
+interface EncryptedImageProps {
+  attachment: AttachmentRef;
+  messageId: number;
+}
+
+export function EncryptedImage({ attachment, messageId }: EncryptedImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Only fetch once the bubble scrolls into view.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let cancelled = false;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some((entry) => entry.isIntersecting)) return;
+      observer.disconnect();
+      loadAttachment(attachment)
+        .then((url) => !cancelled && setSrc(url))
+        .catch(() => !cancelled && setFailed(true));
+    });
+    observer.observe(container);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [attachment.id]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-sm opacity-70" data-testid={`image-failed-${messageId}`}>
+        <ImageOff className="h-4 w-4" />
+        Image unavailable
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef}>
+      {src ? (
+        <img
+          src={src}
+          alt="Attachment"
+          className="max-h-80 rounded-xl object-cover"
+          data-testid={`image-message-${messageId}`}
+        />
+      ) : (
+        <Skeleton className="h-48 w-64 rounded-xl" />
+      )}
+    </div>
+  );
+}
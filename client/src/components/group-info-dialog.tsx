@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { LogOut, UserMinus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MAX_GROUP_MEMBERS, type GroupConversation, type GroupWithMembers } from "@shared/schema";
+import { MemberSearch } from "@/components/member-search";
+
+interface GroupInfoDialogProps {
+  group: GroupWithMembers;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLeave: () => void;
+}
+
+export function GroupInfoDialog({ group, open, onOpenChange, onLeave }: GroupInfoDialogProps) {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState(group.name);
+  const isCreator = group.createdBy === currentUser?.id;
+
+  useEffect(() => {
+    if (open) setName(group.name);
+  }, [open, group.name]);
+
+  const updateGroup = (updated: GroupWithMembers) => {
+    queryClient.setQueryData(["/api/groups", group.id], updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/groups"], exact: true });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<GroupWithMembers>("PATCH", `/api/groups/${group.id}`, { name: name.trim() });
+    },
+    onSuccess: (updated) => {
+      updateGroup(updated);
+      toast({ title: "Group renamed" });
+    },
+    onError: showError("Failed to rename group"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      return apiRequest<GroupWithMembers>("POST", `/api/groups/${group.id}/members`, { userIds: [userId] });
+    },
+    onSuccess: updateGroup,
+    onError: showError("Failed to add member"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/groups/${group.id}/members/${userId}`, undefined);
+      return userId;
+    },
+    onSuccess: (userId) => {
+      if (userId !== currentUser?.id) {
+        updateGroup({ ...group, members: group.members.filter((m) => m.id !== userId) });
+        return;
+      }
+      queryClient.setQueryData<GroupConversation[]>(["/api/groups"], (old) => old?.filter((g) => g.groupId !== group.id));
+      onOpenChange(false);
+      onLeave();
+      queryClient.removeQueries({ queryKey: ["/api/groups", group.id] });
+      toast({ title: "Left group" });
+    },
+    onError: showError("Failed to update members"),
+  });
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Group Info</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="input-rename-group">Group name</Label>
+            <div className="flex gap-2">
+              <Input
+                id="input-rename-group"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={50}
+                data-testid="input-rename-group"
+              />
+              <Button
+                onClick={() => renameMutation.mutate()}
+                disabled={!name.trim() || name.trim() === group.name || renameMutation.isPending}
+                data-testid="button-rename-group"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Members ({group.members.length}/{MAX_GROUP_MEMBERS})
+            </Label>
+            <div className="max-h-56 overflow-y-auto space-y-1">
+              {group.members.map((member) => (
+                <div key={member.id} className="flex items-center gap-3 p-2" data-testid={`group-member-${member.id}`}>
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.profilePicture || undefined} />
+                    <AvatarFallback>{getInitials(member.displayName)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold truncate flex items-center gap-2">
+                      {member.displayName}
+                      {member.id === group.createdBy && <Badge variant="secondary">Creator</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono">@{member.username}</p>
+                  </div>
+                  {isCreator && member.id !== currentUser?.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMemberMutation.mutate(member.id)}
+                      disabled={removeMemberMutation.isPending}
+                      data-testid={`button-remove-group-member-${member.id}`}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {group.members.length < MAX_GROUP_MEMBERS && (
+            <div className="space-y-2">
+              <Label>Add members</Label>
+              <MemberSearch
+                excludeIds={group.members.map((m) => m.id)}
+                onSelect={(user) => addMemberMutation.mutate(user.id)}
+                disabled={addMemberMutation.isPending}
+              />
+            </div>
+          )}
+
+          <Button
+            variant="destructive"
+            className="w-full"
+            onClick={() => currentUser && removeMemberMutation.mutate(currentUser.id)}
+            disabled={removeMemberMutation.isPending}
+            data-testid="button-leave-group"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, UserPlus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { type SafeUser } from "@shared/schema";
+
+interface MemberSearchProps {
+  excludeIds: number[];
+  onSelect: (user: SafeUser) => void;
+  disabled?: boolean;
+}
+
+export function MemberSearch({ excludeIds, onSelect, disabled }: MemberSearchProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const { data: users = [] } = useQuery<SafeUser[]>({
+    queryKey: ["/api/users/search", searchQuery],
+    enabled: searchQuery.length >= 2,
+  });
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  const results = users.filter((u) => !excludeIds.includes(u.id));
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by username..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          data-testid="input-member-search"
+          className="pl-9"
+        />
+      </div>
+
+      {searchQuery.length >= 2 && (
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-2">No users found</p>
+          ) : (
+            results.map((user) => (
+              <button
+                key={user.id}
+                data-testid={`member-search-result-${user.id}`}
+                onClick={() => {
+                  onSelect(user);
+                  setSearchQuery("");
+                }}
+                disabled={disabled}
+                className="w-full p-2 flex items-center gap-3 rounded-md hover-elevate active-elevate-2"
+              >
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={user.profilePicture || undefined} />
+                  <AvatarFallback>{getInitials(user.displayName)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 text-left min-w-0">
+                  <p className="text-sm font-semibold truncate">{user.displayName}</p>
+                  <p className="text-xs text-muted-foreground font-mono">@{user.username}</p>
+                </div>
+                <UserPlus className="h-4 w-4 text-muted-foreground" />
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
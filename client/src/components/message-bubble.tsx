@@ -1,8 +1,19 @@
 import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { CheckCheck, Trash2 } from "lucide-react";
-import { type DecryptedMessage } from "@shared/schema";
+import { Check, CheckCheck, Pencil, Reply, ShieldAlert, ShieldQuestion, Trash2 } from "lucide-react";
+import {
+  DELETE_FOR_EVERYONE_WINDOW,
+  MESSAGE_EDIT_WINDOW,
+  type DecryptedGroupMessage,
+  type DecryptedMessage,
+  type DeleteScope,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { EncryptedImage } from "@/components/encrypted-image";
+import { MessageHistoryDialog } from "@/components/message-history-dialog";
+import { parseAttachmentRef } from "@/lib/attachments";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -14,17 +25,55 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+// What a reply shows of the message it quotes; `content` is already a one-line preview.
+export interface QuotedMessage {
+  senderName: string;
+  content: string;
+}
+
 interface MessageBubbleProps {
-  message: DecryptedMessage;
+  message: DecryptedMessage | DecryptedGroupMessage;
   isOwn: boolean;
   isFirst: boolean;
   isLast: boolean;
-  onDelete: () => void;
+  onDelete: (scope: DeleteScope) => void;
+  // Only direct chats let either side hide a message from their own view.
+  canDeleteForMe?: boolean;
+  // Only direct text messages can be edited, so the action is hidden when this is omitted.
+  onEdit?: (content: string) => void;
+  // Replies are direct-chat only too, like reactions.
+  onReply?: () => void;
+  quote?: QuotedMessage | null;
+  onQuoteClick?: () => void;
+  highlighted?: boolean;
+  // Group messages have no reactions, so the picker is hidden when this is omitted.
+  onToggleReaction?: (emoji: string, reacted: boolean) => void;
   currentUserId: number;
+  senderName?: string;
 }
 
-export function MessageBubble({ message, isOwn, isFirst, isLast, onDelete }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  isOwn,
+  isFirst,
+  isLast,
+  onDelete,
+  canDeleteForMe,
+  onEdit,
+  onReply,
+  quote,
+  onQuoteClick,
+  highlighted,
+  onToggleReaction,
+  currentUserId,
+  senderName,
+}: MessageBubbleProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [draft, setDraft] = useState("");
   const [isSelected, setIsSelected] = useState(false);
   const messageRef = useRef<HTMLDivElement>(null);
 
@@ -36,10 +85,78 @@ export function MessageBubble({ message, isOwn, isFirst, isLast, onDelete }: Mes
   };
 
   const isDeleted = message.deleted;
-  const isImage = message.type === "image" && !isDeleted;
+  // A forged or tampered message is never decrypted, only flagged.
+  const isForged = message.signatureStatus === "invalid" && !isDeleted;
+  const isImage = message.type === "image" && !isDeleted && !isForged;
+  const attachment = isImage ? parseAttachmentRef(message.content) : null;
+  const isEdited = "editedAt" in message && !!message.editedAt && !isDeleted;
+  const sentAgo = Date.now() - new Date(message.timestamp).getTime();
+  // The server enforces both windows too; this only hides actions once they have passed.
+  const canDeleteForEveryone = isOwn && !isDeleted && sentAgo < DELETE_FOR_EVERYONE_WINDOW;
+  const canDelete = canDeleteForEveryone || (!!canDeleteForMe && !isDeleted);
+  const canEdit =
+    !!onEdit &&
+    isOwn &&
+    message.type === "text" &&
+    !isDeleted &&
+    !isForged &&
+    sentAgo < MESSAGE_EDIT_WINDOW;
+
+  const receipt = "readAt" in message ? message : null;
+  const reactions = "reactions" in message ? message.reactions : [];
+
+  const reactionGroups = reactions.reduce<{ emoji: string; count: number; reacted: boolean }[]>((groups, reaction) => {
+    const group = groups.find((g) => g.emoji === reaction.emoji);
+    const reacted = reaction.userId === currentUserId;
+    if (group) {
+      group.count++;
+      group.reacted ||= reacted;
+    } else {
+      groups.push({ emoji: reaction.emoji, count: 1, reacted });
+    }
+    return groups;
+  }, []);
+
+  const renderStatus = () => {
+    if (!receipt) return null;
+    if (receipt.readAt) {
+      return <CheckCheck className="h-3 w-3 text-sky-500" data-testid={`status-read-${message.id}`} />;
+    }
+    if (receipt.deliveredAt) {
+      return <CheckCheck className="h-3 w-3" data-testid={`status-delivered-${message.id}`} />;
+    }
+    return <Check className="h-3 w-3" data-testid={`status-sent-${message.id}`} />;
+  };
+
+  const renderUnsigned = () => {
+    if (isDeleted || message.signatureStatus !== "unsigned") return null;
+    return (
+      <span title="Sender could not be verified" data-testid={`status-unsigned-${message.id}`}>
+        <ShieldQuestion className="h-3 w-3" />
+      </span>
+    );
+  };
+
+  const renderEdited = () => {
+    if (!isEdited) return null;
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setShowHistory(true);
+        }}
+        className="underline-offset-2 hover:underline"
+        data-testid={`button-edit-history-${message.id}`}
+      >
+        edited
+      </button>
+    );
+  };
+
+  const hasReacted = (emoji: string) => reactionGroups.some((g) => g.emoji === emoji && g.reacted);
 
   const handleMessageClick = () => {
-    if (!isDeleted && isOwn) {
+    if (!isDeleted) {
       setIsSelected(!isSelected);
     }
   };
@@ -66,90 +183,262 @@ export function MessageBubble({ message, isOwn, isFirst, isLast, onDelete }: Mes
         className={`flex ${isOwn ? "justify-end" : "justify-start"} ${isFirst ? "mt-3" : "mt-0.5"}`}
       >
         <div ref={messageRef} className="relative max-w-[75%]">
+          {senderName && isFirst && !isOwn && (
+            <p className="text-xs font-medium text-muted-foreground mb-1 ml-3" data-testid={`text-sender-${message.id}`}>
+              {senderName}
+            </p>
+          )}
           <div
             onClick={handleMessageClick}
             data-testid={`message-${message.id}`}
-            className={`rounded-2xl px-4 py-2 ${
-              isOwn
+            data-message-id={message.id}
+            className={`rounded-2xl px-4 py-2 transition-shadow ${
+              highlighted ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""
+            } ${
+              isForged
+                ? "border border-destructive bg-destructive/10 text-destructive"
+                : isOwn
                 ? "bg-primary text-primary-foreground"
                 : "bg-card border border-card-border text-card-foreground"
-            } ${isDeleted ? "opacity-60 italic" : ""} ${!isDeleted && isOwn ? "cursor-pointer" : ""}`}
+            } ${isDeleted ? "opacity-60 italic" : ""} ${!isDeleted ? "cursor-pointer" : ""}`}
           >
+            {quote && !isDeleted && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onQuoteClick?.();
+                }}
+                className={`mb-1 block w-full rounded-lg border-l-2 px-2 py-1 text-left text-xs ${
+                  isOwn ? "border-primary-foreground/60 bg-primary-foreground/10" : "border-primary bg-muted"
+                }`}
+                data-testid={`quote-${message.id}`}
+              >
+                <span className="block font-medium">{quote.senderName}</span>
+                <span className="block truncate opacity-80">{quote.content}</span>
+              </button>
+            )}
             {isImage ? (
               <div className="space-y-2">
-                <img
-                  src={message.content}
-                  alt="Attachment"
-                  className="max-h-80 rounded-xl object-cover"
-                  data-testid={`image-message-${message.id}`}
-                />
+                {attachment ? (
+                  <EncryptedImage attachment={attachment} messageId={message.id} />
+                ) : (
+                  <img
+                    src={message.content}
+                    alt="Attachment"
+                    className="max-h-80 rounded-xl object-cover"
+                    data-testid={`image-message-${message.id}`}
+                  />
+                )}
                 {isLast && (
                   <div className="flex items-center justify-end gap-1 text-xs opacity-70">
+                    {renderUnsigned()}
                     <span>{formatTime(message.timestamp)}</span>
-                    {isOwn && <CheckCheck className="h-3 w-3" />}
+                    {isOwn && renderStatus()}
                   </div>
                 )}
               </div>
             ) : (
               <div className="space-y-1">
-                <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
-                {isLast && (
+                {isForged ? (
+                  <p className="text-sm flex items-center gap-2" data-testid={`text-unverified-${message.id}`}>
+                    <ShieldAlert className="h-4 w-4 shrink-0" />
+                    {message.content}
+                  </p>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                )}
+                {(isLast || isEdited) && (
                   <div className="flex items-center justify-end gap-1 text-xs opacity-70">
-                    <span>{formatTime(message.timestamp)}</span>
-                    {isOwn && !isDeleted && <CheckCheck className="h-3 w-3" />}
+                    {renderEdited()}
+                    {isLast && (
+                      <>
+                        {renderUnsigned()}
+                        <span>{formatTime(message.timestamp)}</span>
+                        {isOwn && !isDeleted && renderStatus()}
+                      </>
+                    )}
                   </div>
                 )}
               </div>
             )}
           </div>
 
+          {reactionGroups.length > 0 && !isDeleted && (
+            <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? "justify-end" : "justify-start"}`}>
+              {reactionGroups.map((group) => (
+                <button
+                  key={group.emoji}
+                  onClick={() => onToggleReaction?.(group.emoji, group.reacted)}
+                  className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs hover-elevate ${
+                    group.reacted ? "border-primary bg-primary/10" : "border-border bg-card"
+                  }`}
+                  data-testid={`reaction-${message.id}-${group.emoji}`}
+                >
+                  <span>{group.emoji}</span>
+                  <span className="text-muted-foreground">{group.count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <AnimatePresence>
-            {isSelected && isOwn && !isDeleted && (
+            {isSelected && !isDeleted && onToggleReaction && (
+              <motion.div
+                initial={{ opacity: 0, y: 4 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 4 }}
+                transition={{ duration: 0.15 }}
+                className={`absolute bottom-full mb-3 z-10 flex gap-0.5 rounded-full border border-border bg-card p-1 shadow-lg ${
+                  isOwn ? "right-0" : "left-0"
+                }`}
+                data-testid={`reaction-picker-${message.id}`}
+              >
+                {QUICK_REACTIONS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onToggleReaction(emoji, hasReacted(emoji));
+                      setIsSelected(false);
+                    }}
+                    className={`h-8 w-8 rounded-full text-lg hover-elevate ${hasReacted(emoji) ? "bg-primary/20" : ""}`}
+                    data-testid={`button-react-${message.id}-${emoji}`}
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <AnimatePresence>
+            {isSelected && !isDeleted && (canDelete || canEdit || onReply) && (
               <motion.div
                 initial={{ opacity: 0, scale: 0.8 }}
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.8 }}
                 transition={{ duration: 0.15 }}
-                className="absolute -top-2 -right-2 z-10"
+                className={`absolute -top-2 z-10 flex gap-1 ${isOwn ? "-right-2" : "-left-2"}`}
               >
-                <Button
-                  variant="destructive"
-                  size="icon"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setShowDeleteDialog(true);
-                  }}
-                  className="h-7 w-7 rounded-full"
-                  data-testid={`button-delete-message-${message.id}`}
-                >
-                  <Trash2 className="h-3.5 w-3.5" />
-                </Button>
+                {onReply && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onReply();
+                      setIsSelected(false);
+                    }}
+                    className="h-7 w-7 rounded-full"
+                    data-testid={`button-reply-message-${message.id}`}
+                  >
+                    <Reply className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                {canEdit && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDraft(message.content);
+                      setShowEditDialog(true);
+                    }}
+                    className="h-7 w-7 rounded-full"
+                    data-testid={`button-edit-message-${message.id}`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                {canDelete && (
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowDeleteDialog(true);
+                    }}
+                    className="h-7 w-7 rounded-full"
+                    data-testid={`button-delete-message-${message.id}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
         </div>
       </motion.div>
 
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit message</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-24"
+            autoFocus
+            data-testid={`input-edit-message-${message.id}`}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEditDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => {
+                onEdit?.(draft.trim());
+                setShowEditDialog(false);
+                setIsSelected(false);
+              }}
+              disabled={!draft.trim() || draft.trim() === message.content}
+              data-testid={`button-save-edit-${message.id}`}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {isEdited && (
+        <MessageHistoryDialog
+          messageId={message.id}
+          senderId={message.senderId}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+        />
+      )}
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete message?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will delete the message for everyone. This action cannot be undone.
+              {canDeleteForMe && "Delete for me removes it from your devices only. "}
+              {canDeleteForEveryone
+                ? "Delete for everyone removes it from the chat for everyone. This action cannot be undone."
+                : isOwn && "It's too late to delete it for everyone."}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => setIsSelected(false)}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={() => {
-                onDelete();
-                setShowDeleteDialog(false);
-                setIsSelected(false);
-              }}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Delete
-            </AlertDialogAction>
+            {(["me", "everyone"] as const)
+              .filter((scope) => (scope === "me" ? canDeleteForMe : canDeleteForEveryone))
+              .map((scope) => (
+                <AlertDialogAction
+                  key={scope}
+                  onClick={() => {
+                    onDelete(scope);
+                    setShowDeleteDialog(false);
+                    setIsSelected(false);
+                  }}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  data-testid={`button-delete-for-${scope}-${message.id}`}
+                >
+                  {scope === "me" ? "Delete for me" : "Delete for everyone"}
+                </AlertDialogAction>
+              ))}
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ShieldAlert } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth-context";
+import { decryptMessage } from "@/lib/crypto";
+import { openDirectMessage } from "@/lib/sessions";
+import { verifyMessageSignature } from "@/lib/signatures";
+import { withRevision, type MessageHistory, type MessageWithEnvelope, type SafeUser } from "@shared/schema";
+
+interface Version {
+  key: string;
+  label: string;
+  content: string;
+  forged: boolean;
+}
+
+interface MessageHistoryDialogProps {
+  messageId: number;
+  senderId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatTime(date: Date) {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Every version of an edited message, newest first, decrypted on this device.
+export function MessageHistoryDialog({ messageId, senderId, open, onOpenChange }: MessageHistoryDialogProps) {
+  const { user, keyPair } = useAuth();
+  const [versions, setVersions] = useState<Version[] | null>(null);
+  const isOwn = senderId === user?.id;
+
+  const { data: history } = useQuery<MessageHistory>({
+    queryKey: ["/api/messages", messageId, "revisions"],
+    enabled: open,
+  });
+
+  const { data: sender } = useQuery<SafeUser>({
+    queryKey: ["/api/users", senderId],
+    enabled: open && !isOwn,
+  });
+
+  useEffect(() => {
+    if (!history || !user || !keyPair || (!isOwn && !sender)) return;
+    let cancelled = false;
+    const signingKey = isOwn ? keyPair.signingPublicKey ?? user.signingPublicKey : sender?.signingPublicKey;
+
+    const decrypt = async (message: MessageWithEnvelope) => {
+      if ((await verifyMessageSignature(message, signingKey)) === "invalid") {
+        return { content: "[Message could not be verified]", forged: true };
+      }
+      try {
+        const content =
+          message.encryption === "ratchet"
+            ? await openDirectMessage(message, user, keyPair, signingKey)
+            : await decryptMessage(
+                message.encryptedContent,
+                isOwn ? message.senderEncryptedKey : message.recipientEncryptedKey,
+                message.iv,
+                keyPair.privateKey
+              );
+        return { content: content ?? "[Not available on this device]", forged: false };
+      } catch {
+        return { content: "[Failed to decrypt]", forged: false };
+      }
+    };
+
+    (async () => {
+      const next: Version[] = [
+        { key: "original", label: `Sent ${formatTime(history.original.timestamp)}`, ...(await decrypt(history.original)) },
+      ];
+      for (const revision of history.revisions) {
+        next.push({
+          key: `${revision.id}`,
+          label: `Edited ${formatTime(revision.editedAt)}`,
+          ...(await decrypt(withRevision(history.original, revision))),
+        });
+      }
+      if (!cancelled) setVersions(next.reverse());
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [history, user, keyPair, isOwn, sender]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Every version stays end-to-end encrypted.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-96 space-y-3 overflow-y-auto" data-testid={`list-message-history-${messageId}`}>
+          {versions === null
+            ? [1, 2].map((i) => <Skeleton key={i} className="h-14 w-full rounded-xl" />)
+            : versions.map((version) => (
+                <div key={version.key} className="rounded-xl border border-border p-3">
+                  <p className="mb-1 text-xs text-muted-foreground">{version.label}</p>
+                  <p
+                    className={`text-sm whitespace-pre-wrap break-words ${
+                      version.forged ? "flex items-center gap-2 text-destructive" : ""
+                    }`}
+                  >
+                    {version.forged && <ShieldAlert className="h-4 w-4 shrink-0" />}
+                    {version.content}
+                  </p>
+                </div>
+              ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
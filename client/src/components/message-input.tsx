@@ -1,59 +1,118 @@
 import { useState, useRef } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { Send, X, Loader2 } from "lucide-react";
+import { Send, X, Loader2, Reply } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useTypingNotifier } from "@/hooks/use-presence";
 import { useAuth } from "@/lib/auth-context";
-import { encryptMessage } from "@/lib/crypto";
+import { encryptGroupMessage, encryptMessage, type GroupRecipient } from "@/lib/crypto";
+import { uploadAttachment } from "@/lib/attachments";
+import { directMessagePayload, groupMessagePayload, signPayload } from "@/lib/signatures";
+import { encryptDirectMessage, rememberPlaintext } from "@/lib/sessions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { messagesQueryKey, type ChatTarget } from "@/lib/chats";
+import { type Message, type SafeUser } from "@shared/schema";
+
+export interface ReplyTarget {
+  messageId: number;
+  senderName: string;
+  preview: string;
+}
 
 interface MessageInputProps {
-  recipientId: number;
-  recipientPublicKey: string;
+  chat: ChatTarget;
+  // For a direct chat, the other user; for a group, every member including ourselves.
+  recipients: GroupRecipient[];
+  replyTo?: ReplyTarget | null;
+  onCancelReply?: () => void;
 }
 
-export function MessageInput({ recipientId, recipientPublicKey }: MessageInputProps) {
+export function MessageInput({ chat, recipients, replyTo, onCancelReply }: MessageInputProps) {
   const { keyPair } = useAuth();
   const { toast } = useToast();
   const [message, setMessage] = useState("");
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const typing = useTypingNotifier(chat.kind === "direct" ? chat.id : null);
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (data: { text?: string; imageFile?: File }) => {
+    mutationFn: async (data: { text?: string; imageFile?: File; replyToId?: number }) => {
       if (!keyPair) throw new Error("No encryption keys available");
       
       const currentUser = localStorage.getItem("archer_user");
       if (!currentUser) throw new Error("User not found");
-      const senderPublicKey = JSON.parse(currentUser).publicKey;
+      const sender: SafeUser = JSON.parse(currentUser);
+      const { id: senderId, publicKey: senderPublicKey } = sender;
+      // Only accounts without a signing key send unsigned; the server refuses
+      // unsigned messages from the rest, so wait until this device restores it.
+      if (sender.signingPublicKey && !keyPair.signingPrivateKey) {
+        throw new Error("Still setting up message signing on this device, try again in a moment");
+      }
+      const sign = (payload: string) =>
+        keyPair.signingPrivateKey ? signPayload(payload, keyPair.signingPrivateKey) : Promise.resolve(undefined);
 
       let content = data.text || "";
       let type: "text" | "image" = "text";
 
       if (data.imageFile) {
-        const base64 = await fileToBase64(data.imageFile);
-        content = base64;
+        content = JSON.stringify(await uploadAttachment(data.imageFile));
         type = "image";
       }
 
-      const encrypted = await encryptMessage(content, senderPublicKey, recipientPublicKey);
+      if (chat.kind === "group") {
+        const encrypted = await encryptGroupMessage(content, recipients);
+        const signature = await sign(groupMessagePayload({ senderId, groupId: chat.id, type, ...encrypted }));
+        await apiRequest("POST", `/api/groups/${chat.id}/messages`, { type, ...encrypted, signature });
+        return;
+      }
 
-      await apiRequest("POST", "/api/messages", {
-        recipientId,
-        type,
-        ...encrypted,
-      });
+      const [recipient] = recipients;
+      const sendDirect = async () => {
+        // Falls back to RSA while either side has no prekeys published.
+        const ratchet = await encryptDirectMessage(content, sender, keyPair, {
+          id: recipient.userId,
+          signingPublicKey: recipient.signingPublicKey ?? null,
+        });
+        const encrypted = ratchet ?? {
+          encryption: "rsa" as const,
+          ...(await encryptMessage(content, senderPublicKey, recipient.publicKey)),
+        };
+        const { replyToId } = data;
+        const signature = await sign(directMessagePayload({ senderId, recipientId: chat.id, type, ...encrypted, replyToId }));
+
+        const sent = await apiRequest<Message>("POST", "/api/messages", {
+          recipientId: chat.id,
+          type,
+          ...encrypted,
+          signature,
+          replyToId,
+        });
+        if (ratchet) await rememberPlaintext(sender.username, keyPair, sent, content);
+      };
+
+      try {
+        await sendDirect();
+      } catch (error: any) {
+        // A device was added or removed between fetching the list and sending; retry once.
+        if (!String(error.message).startsWith("409")) throw error;
+        await sendDirect();
+      }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages", recipientId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: messagesQueryKey(chat) });
+      queryClient.invalidateQueries({ queryKey: [chat.kind === "group" ? "/api/groups" : "/api/conversations"], exact: true });
       setMessage("");
       setImageFile(null);
       setImagePreview(null);
+      onCancelReply?.();
     },
     onError: (error: any) => {
+      // Membership changed under us: refetch it so the next send wraps for the right keys.
+      if (chat.kind === "group") {
+        queryClient.invalidateQueries({ queryKey: ["/api/groups", chat.id], exact: true });
+      }
       toast({
         title: "Failed to send message",
         description: error.message,
@@ -62,15 +121,6 @@ export function MessageInput({ recipientId, recipientPublicKey }: MessageInputPr
     },
   });
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -91,10 +141,12 @@ export function MessageInput({ recipientId, recipientPublicKey }: MessageInputPr
   };
 
   const handleSend = () => {
+    typing.stop();
+    const replyToId = replyTo?.messageId;
     if (imageFile) {
-      sendMessageMutation.mutate({ imageFile });
+      sendMessageMutation.mutate({ imageFile, replyToId });
     } else if (message.trim()) {
-      sendMessageMutation.mutate({ text: message.trim() });
+      sendMessageMutation.mutate({ text: message.trim(), replyToId });
     }
   };
 
@@ -107,6 +159,25 @@ export function MessageInput({ recipientId, recipientPublicKey }: MessageInputPr
 
   return (
     <div className="border-t border-border bg-card p-4">
+      {replyTo && (
+        <div className="mb-3 flex items-center gap-2 rounded-lg border-l-2 border-primary bg-muted px-3 py-2" data-testid="reply-preview">
+          <Reply className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1 text-xs">
+            <p className="font-medium">Replying to {replyTo.senderName}</p>
+            <p className="truncate text-muted-foreground">{replyTo.preview}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={onCancelReply}
+            data-testid="button-cancel-reply"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
       {imagePreview && (
         <div className="mb-3 relative inline-block">
           <img
@@ -156,7 +227,10 @@ export function MessageInput({ recipientId, recipientPublicKey }: MessageInputPr
 
         <Textarea
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
+          onChange={(e) => {
+            setMessage(e.target.value);
+            typing.onInput(e.target.value);
+          }}
           onKeyDown={handleKeyPress}
           placeholder="Type a message..."
           data-testid="input-message"
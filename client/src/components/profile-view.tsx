@@ -1,13 +1,16 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { X, Shield, UserX, Copy, Check } from "lucide-react";
-import { useState } from "react";
+import QRCode from "react-qr-code";
+import { X, Shield, ShieldAlert, ShieldCheck, UserX, Copy, Check } from "lucide-react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useVerification } from "@/hooks/use-verification";
 import { useAuth } from "@/lib/auth-context";
-import { generateFingerprint } from "@/lib/crypto";
+import { formatSafetyNumber, generateSafetyNumber } from "@/lib/crypto";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { type SafeUser } from "@shared/schema";
 import {
@@ -31,11 +34,28 @@ export function ProfileView({ userId, onClose }: ProfileViewProps) {
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
   const [copied, setCopied] = useState(false);
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
 
   const { data: user, isLoading } = useQuery<SafeUser>({
     queryKey: ["/api/users", userId],
   });
 
+  const verification = useVerification(userId, user);
+
+  useEffect(() => {
+    setSafetyNumber(null);
+    if (!user || !currentUser || user.id === currentUser.id) return;
+    let cancelled = false;
+
+    generateSafetyNumber(currentUser, user).then((number) => {
+      if (!cancelled) setSafetyNumber(number);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, user?.publicKey, user?.signingPublicKey, currentUser?.id, currentUser?.publicKey, currentUser?.signingPublicKey]);
+
   const { data: isBlocked = false } = useQuery<boolean>({
     queryKey: ["/api/blocks", userId],
   });
@@ -69,15 +89,14 @@ export function ProfileView({ userId, onClose }: ProfileViewProps) {
       .slice(0, 2);
   };
 
-  const copyFingerprint = () => {
-    if (user) {
-      const fingerprint = generateFingerprint(user.publicKey);
-      navigator.clipboard.writeText(fingerprint);
+  const copySafetyNumber = () => {
+    if (safetyNumber) {
+      navigator.clipboard.writeText(formatSafetyNumber(safetyNumber).join(" "));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
       toast({
         title: "Copied to clipboard",
-        description: "Encryption fingerprint copied",
+        description: "Safety number copied",
       });
     }
   };
@@ -136,25 +155,38 @@ export function ProfileView({ userId, onClose }: ProfileViewProps) {
               <h2 className="text-2xl font-bold" data-testid="text-profile-name">
                 {user?.displayName}
               </h2>
-              <p className="text-sm text-muted-foreground font-mono mt-1">
-                @{user?.username}
-              </p>
+              {user?.deletedAt ? (
+                <p className="text-sm text-muted-foreground mt-1" data-testid="text-profile-deleted">
+                  This account has been deleted
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground font-mono mt-1">
+                  @{user?.username}
+                </p>
+              )}
             </div>
           )}
 
-          {/* Encryption Fingerprint */}
-          {user && (
-            <div className="mb-6 p-4 bg-muted rounded-lg">
-              <div className="flex items-center justify-between mb-2">
+          {/* Safety Number */}
+          {user && !user.deletedAt && currentUser && currentUser.id !== userId && (
+            <div className="mb-6 p-4 bg-muted rounded-lg space-y-3" data-testid="safety-number">
+              <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2 text-sm font-medium">
                   <Shield className="h-4 w-4" />
-                  <span>Encryption Fingerprint</span>
+                  <span>Safety Number</span>
+                  {verification.status === "verified" && (
+                    <Badge variant="secondary" className="gap-1" data-testid="badge-verified">
+                      <ShieldCheck className="h-3 w-3" />
+                      Verified
+                    </Badge>
+                  )}
                 </div>
                 <Button
                   variant="ghost"
                   size="icon"
-                  data-testid="button-copy-fingerprint"
-                  onClick={copyFingerprint}
+                  data-testid="button-copy-safety-number"
+                  onClick={copySafetyNumber}
+                  disabled={!safetyNumber}
                   className="h-8 w-8"
                 >
                   {copied ? (
@@ -164,9 +196,51 @@ export function ProfileView({ userId, onClose }: ProfileViewProps) {
                   )}
                 </Button>
               </div>
-              <p className="text-xs font-mono text-muted-foreground break-all">
-                {generateFingerprint(user.publicKey)}
-              </p>
+
+              {verification.status === "changed" && (
+                <div className="flex gap-2 rounded-md border border-destructive bg-destructive/10 p-3 text-xs text-destructive" data-testid="text-key-changed">
+                  <ShieldAlert className="h-4 w-4 shrink-0" />
+                  <span>
+                    {user.displayName}'s encryption keys changed after you verified them. Compare the new safety number before trusting this chat.
+                  </span>
+                </div>
+              )}
+
+              {safetyNumber ? (
+                <>
+                  <div className="mx-auto w-fit rounded-md bg-white p-2">
+                    <QRCode value={safetyNumber} size={128} data-testid="qr-safety-number" />
+                  </div>
+                  <div className="grid grid-cols-4 gap-x-3 gap-y-1 text-center text-sm font-mono" data-testid="text-safety-number">
+                    {formatSafetyNumber(safetyNumber).map((group, i) => (
+                      <span key={i}>{group}</span>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <Skeleton className="h-48 w-full" />
+              )}
+
+              {verification.status === "verified" ? (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  data-testid="button-clear-verified"
+                  onClick={verification.clearVerified}
+                >
+                  Clear verification
+                </Button>
+              ) : (
+                <Button
+                  className="w-full"
+                  data-testid="button-mark-verified"
+                  onClick={verification.markVerified}
+                  disabled={!safetyNumber}
+                >
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Mark as verified
+                </Button>
+              )}
             </div>
           )}
 
@@ -213,11 +287,13 @@ export function ProfileView({ userId, onClose }: ProfileViewProps) {
             </div>
           )}
 
-          <div className="mt-6 pt-6 border-t border-border">
-            <p className="text-xs text-center text-muted-foreground">
-              Verify the encryption fingerprint to ensure secure communication
-            </p>
-          </div>
+          {currentUser?.id !== userId && (
+            <div className="mt-6 pt-6 border-t border-border">
+              <p className="text-xs text-center text-muted-foreground">
+                Compare the safety number in person or scan each other's code to verify the chat is end-to-end encrypted
+              </p>
+            </div>
+          )}
         </div>
       </motion.div>
     </motion.div>
@@ -0,0 +1,89 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { LogOut, Monitor } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type SessionInfo } from "@shared/schema";
+
+function formatTime(date: Date) {
+  return new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function SessionSettings() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/sessions"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      await apiRequest("DELETE", `/api/sessions/${sessionId}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({ title: "Session ended" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label>Active sessions</Label>
+      <div className="max-h-72 overflow-y-auto space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-14 w-full" />
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center gap-3 p-3 rounded-md border border-border"
+              data-testid={`session-${session.id}`}
+            >
+              <Monitor className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate flex items-center gap-2">
+                  {session.deviceName}
+                  {session.current && <Badge variant="secondary">This session</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Signed in {formatTime(session.createdAt)} · Last refreshed {formatTime(session.lastUsedAt)}
+                </p>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Ending a session signs that device out. Changing your password ends every other session.
+      </p>
+    </div>
+  );
+}
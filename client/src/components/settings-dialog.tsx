@@ -1,10 +1,12 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Settings, Lock, User, Upload, X as XIcon } from "lucide-react";
+import { Settings, Lock, User, Upload, X as XIcon, Eye, Monitor, KeyRound, LogIn, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Dialog,
   DialogContent,
@@ -24,16 +26,29 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { changePasswordSchema, type ChangePassword } from "@shared/schema";
+import { apiRequest, authFetch } from "@/lib/queryClient";
+import { changePasswordSchema, type ChangePassword, type PrivacySettings } from "@shared/schema";
 import { useAuth } from "@/lib/auth-context";
+import { isPasswordRequired, rewrapKeys, setPasswordRequired } from "@/lib/key-store";
+import { DeviceSettings } from "@/components/device-settings";
+import { SessionSettings } from "@/components/session-settings";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { DangerZoneSettings } from "@/components/danger-zone-settings";
 
 export function SettingsDialog() {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
-  const { user, login, token, keyPair } = useAuth();
+  const { user, updateUser, keyPair, lock } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadingImage, setUploadingImage] = useState(false);
+  const [requirePassword, setRequirePassword] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    isPasswordRequired(user.username)
+      .then(setRequirePassword)
+      .catch((error) => console.error("Failed to read key settings:", error));
+  }, [open, user?.username]);
 
   const form = useForm<ChangePassword>({
     resolver: zodResolver(changePasswordSchema),
@@ -46,7 +61,12 @@ export function SettingsDialog() {
 
   const changePasswordMutation = useMutation({
     mutationFn: async (data: ChangePassword) => {
-      return apiRequest("POST", "/api/auth/change-password", data);
+      await apiRequest("POST", "/api/auth/change-password", data);
+      if (!user) return;
+      // The keys on this device are wrapped with the login password, so they follow it.
+      await rewrapKeys(user.username, data.currentPassword, data.newPassword).catch((error) =>
+        console.error("Failed to rewrap keys:", error)
+      );
     },
     onSuccess: () => {
       toast({
@@ -69,9 +89,7 @@ export function SettingsDialog() {
       return apiRequest("POST", "/api/auth/update-profile-picture", { profilePicture });
     },
     onSuccess: (updatedUser: any) => {
-      if (token && keyPair) {
-        login(updatedUser, token, keyPair);
-      }
+      updateUser(updatedUser);
       toast({
         title: "Profile picture updated",
         description: "Your profile picture has been updated successfully",
@@ -86,6 +104,41 @@ export function SettingsDialog() {
     },
   });
 
+  const updatePrivacyMutation = useMutation({
+    mutationFn: async (settings: Partial<PrivacySettings>) => {
+      return apiRequest("POST", "/api/auth/update-privacy", settings);
+    },
+    onSuccess: (updatedUser: any) => {
+      updateUser(updatedUser);
+      toast({
+        title: "Privacy settings updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update privacy settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requirePasswordMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (!user || !keyPair) throw new Error("No encryption keys available");
+      await setPasswordRequired(user.username, enabled, keyPair);
+      return enabled;
+    },
+    onSuccess: (enabled) => setRequirePassword(enabled),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update key protection",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -113,11 +166,8 @@ export function SettingsDialog() {
       const formData = new FormData();
       formData.append("file", file);
 
-      const response = await fetch("/api/upload", {
+      const response = await authFetch("/api/upload", {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
         body: formData,
       });
 
@@ -163,7 +213,7 @@ export function SettingsDialog() {
           <Settings className="h-5 w-5" />
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md" data-testid="dialog-settings">
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto" data-testid="dialog-settings">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="h-5 w-5" />
@@ -175,7 +225,7 @@ export function SettingsDialog() {
         </DialogHeader>
 
         <Tabs defaultValue="profile" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="profile" data-testid="tab-profile">
               <User className="h-4 w-4 mr-2" />
               Profile
@@ -184,6 +234,22 @@ export function SettingsDialog() {
               <Lock className="h-4 w-4 mr-2" />
               Password
             </TabsTrigger>
+            <TabsTrigger value="privacy" data-testid="tab-privacy">
+              <Eye className="h-4 w-4 mr-2" />
+              Privacy
+            </TabsTrigger>
+            <TabsTrigger value="devices" data-testid="tab-devices">
+              <Monitor className="h-4 w-4 mr-2" />
+              Devices
+            </TabsTrigger>
+            <TabsTrigger value="sessions" data-testid="tab-sessions">
+              <LogIn className="h-4 w-4 mr-2" />
+              Sessions
+            </TabsTrigger>
+            <TabsTrigger value="danger" data-testid="tab-danger">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Danger
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile" className="space-y-4">
@@ -322,6 +388,86 @@ export function SettingsDialog() {
                 </div>
               </form>
             </Form>
+
+            <div className="mt-6 pt-4 border-t space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="switch-require-password">Ask for password on this device</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Your encryption keys stay locked until you enter your password, even after a reload.
+                  </p>
+                </div>
+                <Switch
+                  id="switch-require-password"
+                  checked={requirePassword}
+                  onCheckedChange={(enabled) => requirePasswordMutation.mutate(enabled)}
+                  disabled={requirePasswordMutation.isPending}
+                  data-testid="switch-require-password"
+                />
+              </div>
+              <Button
+                variant="secondary"
+                className="w-full"
+                onClick={() => {
+                  setOpen(false);
+                  lock().catch((error) => console.error("Failed to lock keys:", error));
+                }}
+                data-testid="button-lock-keys"
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                Lock now
+              </Button>
+            </div>
+
+            <div className="mt-6 pt-4 border-t">
+              <TwoFactorSettings />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="privacy" className="space-y-4">
+            <div className="flex items-start justify-between gap-4 py-2">
+              <div className="space-y-1">
+                <Label htmlFor="switch-read-receipts">Read receipts</Label>
+                <p className="text-xs text-muted-foreground">
+                  Let people know when you have read their messages. Unread counts keep working either way.
+                </p>
+              </div>
+              <Switch
+                id="switch-read-receipts"
+                checked={user?.readReceipts ?? true}
+                onCheckedChange={(readReceipts) => updatePrivacyMutation.mutate({ readReceipts })}
+                disabled={updatePrivacyMutation.isPending}
+                data-testid="switch-read-receipts"
+              />
+            </div>
+
+            <div className="flex items-start justify-between gap-4 py-2">
+              <div className="space-y-1">
+                <Label htmlFor="switch-hide-last-seen">Hide last seen</Label>
+                <p className="text-xs text-muted-foreground">
+                  Your contacts still see when you are online, but not when you were last active.
+                </p>
+              </div>
+              <Switch
+                id="switch-hide-last-seen"
+                checked={user?.hideLastSeen ?? false}
+                onCheckedChange={(hideLastSeen) => updatePrivacyMutation.mutate({ hideLastSeen })}
+                disabled={updatePrivacyMutation.isPending}
+                data-testid="switch-hide-last-seen"
+              />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="devices">
+            <DeviceSettings />
+          </TabsContent>
+
+          <TabsContent value="sessions">
+            <SessionSettings />
+          </TabsContent>
+
+          <TabsContent value="danger">
+            <DangerZoneSettings />
           </TabsContent>
         </Tabs>
       </DialogContent>
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import QRCode from "react-qr-code";
+import { ShieldCheck, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type TotpSetup, type TwoFactorStatus } from "@shared/schema";
+
+// Enrollment shows the secret until a first code checks out, then the backup
+// codes once; they can't be fetched again afterwards.
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [disablePassword, setDisablePassword] = useState("");
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+    staleTime: 0,
+  });
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => apiRequest<TotpSetup>("POST", "/api/auth/2fa/setup", undefined),
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: showError("Failed to start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (code: string) => apiRequest<{ backupCodes: string[] }>("POST", "/api/auth/2fa/enable", { code }),
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setBackupCodes(data.backupCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: (error: any) => {
+      setCode("");
+      showError("Failed to verify code")(error);
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (password: string) => apiRequest("POST", "/api/auth/2fa/disable", { password }),
+    onSuccess: () => {
+      setDisablePassword("");
+      setBackupCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: showError("Failed to disable two-factor authentication"),
+  });
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  if (backupCodes) {
+    return (
+      <div className="space-y-3">
+        <Label>Backup codes</Label>
+        <p className="text-xs text-muted-foreground">
+          Each code signs you in once if you lose your authenticator. Store them somewhere safe; they won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-3 bg-muted rounded-md font-mono text-sm" data-testid="list-backup-codes">
+          {backupCodes.map((backupCode) => (
+            <span key={backupCode}>{backupCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => copy(backupCodes.join("\n"))} data-testid="button-copy-backup-codes">
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button className="flex-1" onClick={() => setBackupCodes(null)} data-testid="button-backup-codes-done">
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (status?.enabled) {
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          <Label>Two-factor authentication</Label>
+          <Badge variant="secondary">On</Badge>
+        </div>
+        <p className="text-xs text-muted-foreground" data-testid="text-backup-codes-remaining">
+          {status.backupCodesRemaining} backup {status.backupCodesRemaining === 1 ? "code" : "codes"} left.
+          Enter your password to turn two-factor authentication off.
+        </p>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (disablePassword) disableMutation.mutate(disablePassword);
+          }}
+        >
+          <Input
+            type="password"
+            placeholder="Current password"
+            value={disablePassword}
+            onChange={(e) => setDisablePassword(e.target.value)}
+            data-testid="input-disable-2fa-password"
+          />
+          <Button
+            type="submit"
+            variant="destructive"
+            disabled={!disablePassword || disableMutation.isPending}
+            data-testid="button-disable-2fa"
+          >
+            Turn off
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-3">
+        <Label>Set up two-factor authentication</Label>
+        <p className="text-xs text-muted-foreground">
+          Scan this code with your authenticator app, or enter the key by hand, then type the 6-digit code it shows.
+        </p>
+        <div className="flex justify-center p-3 bg-white rounded-md">
+          <QRCode value={setup.otpauthUrl} size={160} data-testid="qr-totp" />
+        </div>
+        <button
+          type="button"
+          className="w-full p-2 bg-muted rounded-md font-mono text-xs break-all"
+          onClick={() => copy(setup.secret)}
+          data-testid="text-totp-secret"
+        >
+          {setup.secret}
+        </button>
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={setCode}
+            onComplete={(value: string) => enableMutation.mutate(value)}
+            disabled={enableMutation.isPending}
+            data-testid="input-enable-2fa-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <Button variant="ghost" className="w-full" onClick={() => setSetup(null)} data-testid="button-cancel-2fa-setup">
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div className="space-y-1">
+        <Label>Two-factor authentication</Label>
+        <p className="text-xs text-muted-foreground">
+          Ask for a code from an authenticator app when signing in, on top of your password.
+        </p>
+      </div>
+      <Button
+        variant="secondary"
+        onClick={() => setupMutation.mutate()}
+        disabled={setupMutation.isPending || !status}
+        data-testid="button-setup-2fa"
+      >
+        Set up
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/lib/auth-context";
+import { decryptMessage, type AccountKeys } from "@/lib/crypto";
+import { openDirectMessage } from "@/lib/sessions";
+import { verifyMessageSignature } from "@/lib/signatures";
+import { contentKey } from "@/lib/chats";
+import { type Conversation, type MessageWithEnvelope, type SafeUser } from "@shared/schema";
+
+const PREVIEW_LENGTH = 80;
+
+function truncate(content: string) {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+}
+
+// Null when this device can't read the message (yet), so it is tried again later.
+async function decryptPreview(
+  message: MessageWithEnvelope,
+  user: SafeUser,
+  keyPair: AccountKeys,
+  senderSigningKey: string | null | undefined
+): Promise<string | null> {
+  if ((await verifyMessageSignature(message, senderSigningKey)) === "invalid") {
+    return "[Message could not be verified]";
+  }
+
+  try {
+    const content =
+      message.encryption === "ratchet"
+        ? await openDirectMessage(message, user, keyPair, senderSigningKey)
+        : await decryptMessage(
+            message.encryptedContent,
+            message.senderId === user.id ? message.senderEncryptedKey : message.recipientEncryptedKey,
+            message.iv,
+            keyPair.privateKey
+          );
+    if (content === null) return null;
+    return message.type === "image" ? "Photo" : truncate(content);
+  } catch {
+    return "[Failed to decrypt]";
+  }
+}
+
+// Decrypts the last message of each conversation for the chat list, keyed by
+// contact. Previews are cached by message id and revision, so polling only decrypts what's new.
+export function useMessagePreviews(conversations: Conversation[]) {
+  const { user, keyPair } = useAuth();
+  const cacheRef = useRef(new Map<string, string>());
+  const [previews, setPreviews] = useState(new Map<number, string>());
+
+  useEffect(() => {
+    if (!user || !keyPair) return;
+    let cancelled = false;
+
+    (async () => {
+      const cache = cacheRef.current;
+      for (const { lastMessage, signingPublicKey } of conversations) {
+        if (!lastMessage || lastMessage.deleted || cache.has(contentKey(lastMessage))) continue;
+        const senderSigningKey =
+          lastMessage.senderId === user.id ? keyPair.signingPublicKey ?? user.signingPublicKey : signingPublicKey;
+        const preview = await decryptPreview(lastMessage, user, keyPair, senderSigningKey);
+        if (preview !== null) cache.set(contentKey(lastMessage), preview);
+      }
+
+      if (cancelled) return;
+      const next = new Map<number, string>();
+      for (const { userId, lastMessage } of conversations) {
+        if (!lastMessage) continue;
+        const preview = lastMessage.deleted ? "[Message deleted]" : cache.get(contentKey(lastMessage)) ?? "Encrypted message";
+        next.set(userId, lastMessage.senderId === user.id ? `You: ${preview}` : preview);
+      }
+      setPreviews(next);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversations, user, keyPair]);
+
+  return previews;
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type Presence } from "@shared/schema";
+
+// Sent at most this often while the text keeps changing; the indicator on the
+// other side clears itself if nothing arrives for longer than TYPING_TIMEOUT.
+const TYPING_REFRESH = 3 * 1000;
+const TYPING_TIMEOUT = 6 * 1000;
+
+const typingTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+function typingQueryKey(userId: number) {
+  return ["typing", userId];
+}
+
+export function setTyping(userId: number, typing: boolean) {
+  clearTimeout(typingTimers.get(userId));
+  typingTimers.delete(userId);
+  queryClient.setQueryData(typingQueryKey(userId), typing);
+  if (typing) typingTimers.set(userId, setTimeout(() => setTyping(userId, false), TYPING_TIMEOUT));
+}
+
+// Presence of everyone we have a conversation with, by user id.
+export function usePresence() {
+  const { data } = useQuery<Presence[]>({ queryKey: ["/api/presence"] });
+  return useMemo(() => new Map((data ?? []).map((p) => [p.userId, p])), [data]);
+}
+
+export function useTyping(userId: number | null) {
+  const { data } = useQuery({
+    queryKey: typingQueryKey(userId ?? 0),
+    queryFn: () => false,
+    initialData: false,
+    enabled: userId !== null,
+  });
+  return userId !== null && data;
+}
+
+export function describePresence(presence: Presence | undefined, typing: boolean) {
+  if (typing) return "typing…";
+  if (presence?.online) return "online";
+  if (presence?.lastSeenAt) return `last seen ${formatDistanceToNow(new Date(presence.lastSeenAt), { addSuffix: true })}`;
+  return null;
+}
+
+// Lets the other side of a direct chat know we're typing; null for groups.
+export function useTypingNotifier(userId: number | null) {
+  const sentAt = useRef(0);
+
+  const send = useCallback(
+    (typing: boolean) => {
+      apiRequest("POST", `/api/conversations/${userId}/typing`, { typing }).catch(() => {});
+    },
+    [userId]
+  );
+
+  const stop = useCallback(() => {
+    if (userId === null || sentAt.current === 0) return;
+    sentAt.current = 0;
+    send(false);
+  }, [userId, send]);
+
+  const onInput = useCallback(
+    (text: string) => {
+      if (userId === null) return;
+      if (!text.trim()) return stop();
+      if (Date.now() - sentAt.current < TYPING_REFRESH) return;
+      sentAt.current = Date.now();
+      send(true);
+    },
+    [userId, send, stop]
+  );
+
+  // Leaving the chat counts as stopping.
+  useEffect(() => stop, [stop]);
+
+  return { onInput, stop };
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient, refreshSession } from "@/lib/queryClient";
+import { setTyping } from "@/hooks/use-presence";
+import {
+  withRevision,
+  type Conversation,
+  type GroupConversation,
+  type GroupMessageWithKey,
+  type MessageWithReactions,
+  type Presence,
+  type RealtimeEvent,
+} from "@shared/schema";
+
+const MAX_RECONNECT_DELAY = 30 * 1000;
+const REVOKED_CLOSE_CODE = 4001;
+
+function applyEvent(event: RealtimeEvent, currentUserId: number) {
+  switch (event.type) {
+    case "message:new": {
+      const { message } = event;
+      const peerId = message.senderId === currentUserId ? message.recipientId : message.senderId;
+      if (message.senderId === peerId) setTyping(peerId, false);
+
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", peerId], (old) =>
+        old && !old.some((m) => m.id === message.id) ? [...old, message] : old
+      );
+
+      const conversations = queryClient.getQueryData<Conversation[]>(["/api/conversations"]);
+      const existing = conversations?.find((c) => c.userId === peerId);
+      if (!conversations || !existing) {
+        // A new conversation also makes a new contact to follow the presence of.
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+        return;
+      }
+      const unreadCount = existing.unreadCount + (message.recipientId === currentUserId ? 1 : 0);
+      queryClient.setQueryData<Conversation[]>(["/api/conversations"], [
+        { ...existing, lastMessage: message, lastMessageTime: message.timestamp, unreadCount },
+        ...conversations.filter((c) => c.userId !== peerId),
+      ]);
+      return;
+    }
+
+    case "message:edited": {
+      const { revision } = event;
+      const peerId = event.senderId === currentUserId ? event.recipientId : event.senderId;
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", peerId], (old) =>
+        old?.map((m) => (m.id === revision.messageId ? withRevision(m, revision) : m))
+      );
+      queryClient.setQueryData<Conversation[]>(["/api/conversations"], (old) =>
+        old?.map((c) =>
+          c.lastMessage?.id === revision.messageId ? { ...c, lastMessage: withRevision(c.lastMessage, revision) } : c
+        )
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", revision.messageId, "revisions"] });
+      return;
+    }
+
+    case "message:deleted": {
+      const peerId = event.senderId === currentUserId ? event.recipientId : event.senderId;
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", peerId], (old) =>
+        old?.map((m) => (event.messageIds.includes(m.id) ? { ...m, deleted: true } : m))
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      return;
+    }
+
+    case "message:hidden": {
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", event.peerId], (old) =>
+        old?.filter((m) => !event.messageIds.includes(m.id))
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      return;
+    }
+
+    case "receipt:updated": {
+      const peerId = event.senderId === currentUserId ? event.recipientId : event.senderId;
+      const field = event.status === "read" ? "readAt" : "deliveredAt";
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", peerId], (old) =>
+        old?.map((m) =>
+          event.messageIds.includes(m.id)
+            ? { ...m, [field]: event.at, deliveredAt: m.deliveredAt ?? event.at }
+            : m
+        )
+      );
+      if (event.status === "read" && event.recipientId === currentUserId) {
+        queryClient.setQueryData<Conversation[]>(["/api/conversations"], (old) =>
+          old?.map((c) => (c.userId === peerId ? { ...c, unreadCount: 0 } : c))
+        );
+      }
+      return;
+    }
+
+    case "reaction:changed": {
+      const peerId = event.senderId === currentUserId ? event.recipientId : event.senderId;
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", peerId], (old) =>
+        old?.map((m) => (m.id === event.messageId ? { ...m, reactions: event.reactions } : m))
+      );
+      return;
+    }
+
+    case "conversation:deleted": {
+      const peerId = event.userIds[0] === currentUserId ? event.userIds[1] : event.userIds[0];
+      queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", peerId], (old) => (old ? [] : old));
+      queryClient.setQueryData<Conversation[]>(["/api/conversations"], (old) =>
+        old?.filter((c) => c.userId !== peerId)
+      );
+      return;
+    }
+
+    case "device:revoked": {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      return;
+    }
+
+    case "account:deleted": {
+      queryClient.invalidateQueries({ queryKey: ["/api/users", event.userId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", event.userId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+      return;
+    }
+
+    case "block:changed": {
+      queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+      if (event.blockerId === currentUserId) {
+        queryClient.setQueryData<boolean>(["/api/blocks", event.blockedId], event.blocked);
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+        return;
+      }
+      if (event.blocked) {
+        queryClient.setQueryData<MessageWithReactions[]>(["/api/messages", event.blockerId], (old) => (old ? [] : old));
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/messages", event.blockerId] });
+      }
+      return;
+    }
+
+    case "group:message:new": {
+      const { message } = event;
+      queryClient.setQueryData<GroupMessageWithKey[]>(["/api/groups", message.groupId, "messages"], (old) =>
+        old && !old.some((m) => m.id === message.id) ? [...old, message] : old
+      );
+
+      const groups = queryClient.getQueryData<GroupConversation[]>(["/api/groups"]);
+      const existing = groups?.find((g) => g.groupId === message.groupId);
+      if (!groups || !existing) {
+        queryClient.invalidateQueries({ queryKey: ["/api/groups"], exact: true });
+        return;
+      }
+      const unreadCount = existing.unreadCount + (message.senderId === currentUserId ? 0 : 1);
+      queryClient.setQueryData<GroupConversation[]>(["/api/groups"], [
+        { ...existing, lastMessage: null, lastMessageTime: message.timestamp, unreadCount },
+        ...groups.filter((g) => g.groupId !== message.groupId),
+      ]);
+      return;
+    }
+
+    case "group:message:deleted": {
+      queryClient.setQueryData<GroupMessageWithKey[]>(["/api/groups", event.groupId, "messages"], (old) =>
+        old?.map((m) => (event.messageIds.includes(m.id) ? { ...m, deleted: true } : m))
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"], exact: true });
+      return;
+    }
+
+    case "group:updated": {
+      queryClient.setQueryData(["/api/groups", event.group.id], event.group);
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"], exact: true });
+      return;
+    }
+
+    case "group:removed": {
+      queryClient.setQueryData<GroupConversation[]>(["/api/groups"], (old) =>
+        old?.filter((g) => g.groupId !== event.groupId)
+      );
+      queryClient.removeQueries({ queryKey: ["/api/groups", event.groupId] });
+      return;
+    }
+
+    case "presence:changed": {
+      const { presence } = event;
+      queryClient.setQueryData<Presence[]>(["/api/presence"], (old) =>
+        old && [...old.filter((p) => p.userId !== presence.userId), presence]
+      );
+      if (!presence.online) setTyping(presence.userId, false);
+      return;
+    }
+
+    case "typing": {
+      setTyping(event.userId, event.typing);
+      return;
+    }
+  }
+}
+
+export function useRealtime() {
+  const { user, logout } = useAuth();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      // The session cookie goes along with the handshake.
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      let opened = false;
+
+      socket.onopen = () => {
+        // Anything sent while we were disconnected was missed, so resync once.
+        if (attempts > 0) {
+          queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/groups"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/presence"] });
+        }
+        attempts = 0;
+        opened = true;
+        setConnected(true);
+      };
+
+      socket.onmessage = (e) => {
+        try {
+          applyEvent(JSON.parse(e.data) as RealtimeEvent, user.id);
+        } catch (error) {
+          console.error("Invalid realtime event", error);
+        }
+      };
+
+      socket.onclose = (e) => {
+        setConnected(false);
+        if (closed) return;
+        if (e.code === REVOKED_CLOSE_CODE) {
+          logout();
+          return;
+        }
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts++;
+        // A refused handshake is most likely an expired access token.
+        const ready = opened ? Promise.resolve() : refreshSession().catch(() => false);
+        ready.then(() => {
+          if (!closed) reconnectTimer = setTimeout(connect, delay);
+        });
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [user?.id]);
+
+  return connected;
+}
@@ -0,0 +1,74 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { useAuth } from "@/lib/auth-context";
+
+export type VerificationStatus = "unverified" | "verified" | "changed";
+
+// Everything a safety number covers for one person: a swapped signing key has to
+// show up just like a swapped encryption key.
+export interface ContactKeys {
+  publicKey: string;
+  signingPublicKey: string | null;
+}
+
+// Contacts whose safety number was checked, mapped to the keys it was checked
+// against. Kept only on this device. Entries from before signing keys were
+// covered are bare public keys; they no longer count as verified.
+type VerifiedKeys = Record<number, ContactKeys | string>;
+
+const listeners = new Set<() => void>();
+
+function storageKey(username: string) {
+  return `archer_verified_${username}`;
+}
+
+function readVerifiedKeys(username: string): VerifiedKeys {
+  const stored = localStorage.getItem(storageKey(username));
+  return stored ? JSON.parse(stored) : {};
+}
+
+function writeVerifiedKeys(username: string, keys: VerifiedKeys) {
+  localStorage.setItem(storageKey(username), JSON.stringify(keys));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// A string, so useSyncExternalStore sees the same snapshot until something changes.
+function fingerprint(keys: ContactKeys) {
+  return JSON.stringify([keys.publicKey, keys.signingPublicKey]);
+}
+
+export function useVerification(contactId: number, keys: ContactKeys | undefined) {
+  const { user } = useAuth();
+  const username = user?.username;
+
+  const verified = useSyncExternalStore(subscribe, () => {
+    const entry = username ? readVerifiedKeys(username)[contactId] : undefined;
+    return entry && typeof entry === "object" ? fingerprint(entry) : null;
+  });
+
+  const status: VerificationStatus = !verified || !keys
+    ? "unverified"
+    : verified === fingerprint(keys)
+    ? "verified"
+    : "changed";
+
+  const markVerified = useCallback(() => {
+    if (!username || !keys) return;
+    const { publicKey, signingPublicKey } = keys;
+    writeVerifiedKeys(username, { ...readVerifiedKeys(username), [contactId]: { publicKey, signingPublicKey } });
+  }, [username, contactId, keys]);
+
+  const clearVerified = useCallback(() => {
+    if (!username) return;
+    const { [contactId]: _, ...rest } = readVerifiedKeys(username);
+    writeVerifiedKeys(username, rest);
+  }, [username, contactId]);
+
+  return { status, markVerified, clearVerified };
+}
@@ -0,0 +1,121 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./crypto";
+import { authFetch } from "./queryClient";
+
+// Everything needed to fetch and decrypt an attachment. This travels only inside
+// the end-to-end encrypted message content, never to the server on its own.
+export interface AttachmentRef {
+  id: string;
+  key: string;
+  iv: string;
+  digest: string;
+  mimeType: string;
+  size: number;
+}
+
+const downloads = new Map<string, Promise<string>>();
+
+async function sha256(data: ArrayBuffer): Promise<string> {
+  return arrayBufferToBase64(await window.crypto.subtle.digest("SHA-256", data));
+}
+
+export async function uploadAttachment(file: File): Promise<AttachmentRef> {
+  const key = await window.crypto.subtle.generateKey(
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const ciphertext = await window.crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv,
+    },
+    key,
+    await file.arrayBuffer()
+  );
+
+  const formData = new FormData();
+  formData.append("file", new Blob([ciphertext], { type: "application/octet-stream" }), "attachment");
+
+  const response = await authFetch("/api/attachments", {
+    method: "POST",
+    body: formData,
+  });
+  if (!response.ok) throw new Error("Failed to upload attachment");
+  const { id } = await response.json();
+
+  return {
+    id,
+    key: arrayBufferToBase64(await window.crypto.subtle.exportKey("raw", key)),
+    iv: arrayBufferToBase64(iv),
+    digest: await sha256(ciphertext),
+    mimeType: file.type,
+    size: file.size,
+  };
+}
+
+// Image messages used to carry the whole image as a data URL; those still render inline.
+export function parseAttachmentRef(content: string): AttachmentRef | null {
+  if (content.startsWith("data:")) return null;
+  try {
+    const ref = JSON.parse(content);
+    const valid =
+      typeof ref?.id === "string" &&
+      typeof ref.key === "string" &&
+      typeof ref.iv === "string" &&
+      typeof ref.digest === "string" &&
+      typeof ref.mimeType === "string" &&
+      ref.mimeType.startsWith("image/");
+    return valid ? ref : null;
+  } catch {
+    return null;
+  }
+}
+
+async function downloadAttachment(ref: AttachmentRef): Promise<string> {
+  const response = await authFetch(`/api/attachments/${encodeURIComponent(ref.id)}`);
+  if (!response.ok) throw new Error("Failed to download attachment");
+  const ciphertext = await response.arrayBuffer();
+
+  if ((await sha256(ciphertext)) !== ref.digest) {
+    throw new Error("Attachment digest does not match");
+  }
+
+  const key = await window.crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(ref.key),
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    false,
+    ["decrypt"]
+  );
+
+  const plaintext = await window.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: base64ToArrayBuffer(ref.iv),
+    },
+    key,
+    ciphertext
+  );
+
+  return URL.createObjectURL(new Blob([plaintext], { type: ref.mimeType }));
+}
+
+// Resolves to an object URL for the decrypted attachment, downloading each one at most once.
+export function loadAttachment(ref: AttachmentRef): Promise<string> {
+  let download = downloads.get(ref.id);
+  if (!download) {
+    download = downloadAttachment(ref);
+    downloads.set(ref.id, download);
+    download.catch(() => downloads.delete(ref.id));
+  }
+  return download;
+}
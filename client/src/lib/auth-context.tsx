@@ -1,13 +1,24 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
 import { type SafeUser } from "@shared/schema";
-import { type KeyPair, getKeysFromStorage } from "./crypto";
+import { type AccountKeys, type KeyPair } from "./crypto";
+import { hasLegacyKeys, hasStoredKeys, loadKeys, lockKeys, saveUnlockedKeys, storeKeys, unlockKeys } from "./key-store";
+import { apiRequest, setSessionExpiredHandler } from "./queryClient";
+import { idbDeleteDatabase } from "./idb";
+import { ensureSigningKeys } from "./signatures";
+import { ensurePrekeys } from "./sessions";
 
 interface AuthContextType {
   user: SafeUser | null;
-  token: string | null;
-  keyPair: KeyPair | null;
-  login: (user: SafeUser, token: string, keyPair: KeyPair) => void;
+  // Null while the user is signed in but the keys on this device are locked.
+  keyPair: AccountKeys | null;
+  // Resolves to false when this device holds no keys for the account and none were given.
+  login: (user: SafeUser, password: string, keyPair?: KeyPair) => Promise<boolean>;
+  updateUser: (user: SafeUser) => void;
+  unlock: (password: string) => Promise<void>;
+  lock: () => Promise<void>;
   logout: () => void;
+  // Deletes the account on the server, then everything this device kept for it.
+  deleteAccount: (password: string) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -15,46 +26,134 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<SafeUser | null>(null);
-  const [token, setToken] = useState<string | null>(null);
-  const [keyPair, setKeyPair] = useState<KeyPair | null>(null);
+  const [keyPair, setKeyPair] = useState<AccountKeys | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const storedToken = localStorage.getItem("archer_token");
+    // Tokens used to be kept here; the session cookies replace them.
+    localStorage.removeItem("archer_token");
+    localStorage.removeItem("archer_refresh_token");
     const storedUser = localStorage.getItem("archer_user");
 
-    if (storedToken && storedUser) {
-      const parsedUser = JSON.parse(storedUser);
-      const keys = getKeysFromStorage(parsedUser.username);
-
-      if (keys) {
-        setToken(storedToken);
-        setUser(parsedUser);
-        setKeyPair(keys);
-      }
+    if (!storedUser) {
+      setIsLoading(false);
+      return;
     }
 
-    setIsLoading(false);
+    const parsedUser: SafeUser = JSON.parse(storedUser);
+    (async () => {
+      if (!(await hasStoredKeys(parsedUser.username))) return;
+      setUser(parsedUser);
+      setKeyPair(await loadKeys(parsedUser.username));
+    })()
+      .catch((error) => console.error("Failed to load encryption keys:", error))
+      .finally(() => setIsLoading(false));
   }, []);
 
-  const login = (newUser: SafeUser, newToken: string, newKeyPair: KeyPair) => {
+  // Devices signed in before message signing existed, or through recovery,
+  // linking or a password unlock, pick up the account's signing key here.
+  useEffect(() => {
+    if (!user || !keyPair) return;
+    if (keyPair.signingPrivateKey && keyPair.signingPublicKey === user.signingPublicKey) return;
+    let cancelled = false;
+
+    ensureSigningKeys(user, keyPair)
+      .then(async (result) => {
+        if (cancelled) return;
+        await saveUnlockedKeys(result.user.username, result.keyPair);
+        localStorage.setItem("archer_user", JSON.stringify(result.user));
+        setKeyPair(result.keyPair);
+        setUser(result.user);
+      })
+      .catch((error) => console.error("Failed to set up signing key:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, keyPair]);
+
+  // Prekeys are signed with the account's signing key, so they wait for it.
+  useEffect(() => {
+    if (!user || !keyPair?.signingPrivateKey) return;
+    ensurePrekeys(user, keyPair).catch((error) => console.error("Failed to publish prekeys:", error));
+  }, [user?.id, keyPair?.signingPrivateKey]);
+
+  const login = async (newUser: SafeUser, password: string, newKeyPair?: KeyPair) => {
+    let keys: AccountKeys | null;
+    if (newKeyPair) {
+      keys = await storeKeys(newUser.username, newKeyPair, password);
+    } else {
+      // The server just checked the password, so a failure here means the keys
+      // were wrapped with an older one; linking the device again replaces them.
+      keys = await unlockKeys(newUser.username, password).catch(() => null);
+    }
+    if (!keys) return false;
+
     setUser(newUser);
-    setToken(newToken);
-    setKeyPair(newKeyPair);
-    localStorage.setItem("archer_token", newToken);
+    setKeyPair(keys);
     localStorage.setItem("archer_user", JSON.stringify(newUser));
+    return true;
   };
 
-  const logout = () => {
+  const updateUser = (updatedUser: SafeUser) => {
+    setUser(updatedUser);
+    localStorage.setItem("archer_user", JSON.stringify(updatedUser));
+  };
+
+  const unlock = async (password: string) => {
+    if (!user) return;
+    // Old keys get wrapped with this password, so it has to be the right one.
+    if (hasLegacyKeys(user.username)) {
+      await apiRequest("POST", "/api/auth/verify-password", { password }).catch((error) => {
+        throw String(error.message).startsWith("401") ? new Error("Incorrect password") : error;
+      });
+    }
+    const keys = await unlockKeys(user.username, password);
+    if (!keys) throw new Error("No encryption keys on this device");
+    setKeyPair(keys);
+  };
+
+  const lock = async () => {
+    if (user) await lockKeys(user.username);
+    setKeyPair(null);
+  };
+
+  const forgetUser = () => {
     setUser(null);
-    setToken(null);
     setKeyPair(null);
-    localStorage.removeItem("archer_token");
     localStorage.removeItem("archer_user");
   };
 
+  const signOut = () => {
+    if (user) {
+      lockKeys(user.username).catch((error) => console.error("Failed to lock keys:", error));
+    }
+    forgetUser();
+  };
+
+  const logout = () => {
+    apiRequest("POST", "/api/auth/logout", undefined).catch(() => {});
+    signOut();
+  };
+
+  const deleteAccount = async (password: string) => {
+    const username = user?.username;
+    await apiRequest("DELETE", "/api/account", { password });
+    forgetUser();
+    if (username) {
+      await idbDeleteDatabase(username).catch((error) => console.error("Failed to delete local data:", error));
+    }
+  };
+
+  // The session was revoked elsewhere or ran out, so there is nothing to log out of.
+  useEffect(() => {
+    if (!user) return;
+    setSessionExpiredHandler(signOut);
+    return () => setSessionExpiredHandler(null);
+  }, [user]);
+
   return (
-    <AuthContext.Provider value={{ user, token, keyPair, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, keyPair, login, updateUser, unlock, lock, logout, deleteAccount, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,19 @@
+// A chat is either a 1:1 conversation (id is the other user's id) or a group.
+export type ChatTarget = { kind: "direct"; id: number } | { kind: "group"; id: number };
+
+export function messagesQueryKey(chat: ChatTarget) {
+  return chat.kind === "direct" ? ["/api/messages", chat.id] : ["/api/groups", chat.id, "messages"];
+}
+
+export function messagesUrl(chat: ChatTarget) {
+  return chat.kind === "direct" ? `/api/messages/${chat.id}` : `/api/groups/${chat.id}/messages`;
+}
+
+export function isSameChat(a: ChatTarget | null, b: ChatTarget | null) {
+  return !!a && !!b && a.kind === b.kind && a.id === b.id;
+}
+
+// Decrypted content is cached under this key, which changes whenever a message is edited.
+export function contentKey(message: { id: number; editedAt?: Date | null }) {
+  return message.editedAt ? `${message.id}@${message.editedAt}` : `${message.id}`;
+}
@@ -1,6 +1,20 @@
 export interface KeyPair {
   publicKey: string;
   privateKey: string;
+  // Missing from keys stored before message signing; restored on sign-in.
+  signingPublicKey?: string;
+  signingPrivateKey?: string;
+}
+
+// The account keys as this device uses them: private halves are non-extractable,
+// so they can decrypt and sign but never be read back out.
+export interface AccountKeys {
+  publicKey: string;
+  privateKey: CryptoKey;
+  signingPublicKey?: string;
+  signingPrivateKey?: CryptoKey;
+  // Seals this device's ratchet state and plaintext cache in IndexedDB.
+  storageKey: CryptoKey;
 }
 
 export interface EncryptedMessage {
@@ -10,6 +24,24 @@ export interface EncryptedMessage {
   iv: string;
 }
 
+export interface GroupRecipient {
+  userId: number;
+  publicKey: string;
+  signingPublicKey?: string | null;
+}
+
+export interface EncryptedContent {
+  key: string;
+  encryptedContent: string;
+  iv: string;
+}
+
+export interface EncryptedGroupMessage {
+  encryptedContent: string;
+  iv: string;
+  encryptedKeys: { userId: number; encryptedKey: string }[];
+}
+
 export async function generateKeyPair(): Promise<KeyPair> {
   const keyPair = await window.crypto.subtle.generateKey(
     {
@@ -31,6 +63,19 @@ export async function generateKeyPair(): Promise<KeyPair> {
   };
 }
 
+export async function importPrivateKey(privateKey: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey(
+    "pkcs8",
+    base64ToArrayBuffer(privateKey),
+    {
+      name: "RSA-OAEP",
+      hash: "SHA-256",
+    },
+    false,
+    ["decrypt"]
+  );
+}
+
 export async function encryptMessage(
   message: string,
   senderPublicKey: string,
@@ -106,28 +151,131 @@ export async function encryptMessage(
   };
 }
 
-export async function decryptMessage(
-  encryptedContent: string,
-  encryptedKey: string,
-  iv: string,
-  privateKey: string
-): Promise<string> {
-  const privateKeyObj = await window.crypto.subtle.importKey(
-    "pkcs8",
-    base64ToArrayBuffer(privateKey),
+export async function encryptGroupMessage(
+  message: string,
+  recipients: GroupRecipient[]
+): Promise<EncryptedGroupMessage> {
+  const aesKey = await window.crypto.subtle.generateKey(
     {
-      name: "RSA-OAEP",
-      hash: "SHA-256",
+      name: "AES-GCM",
+      length: 256,
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const encoder = new TextEncoder();
+
+  const encryptedContent = await window.crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv,
+    },
+    aesKey,
+    encoder.encode(message)
+  );
+
+  const exportedAesKey = await window.crypto.subtle.exportKey("raw", aesKey);
+
+  // The content is encrypted once; only the AES key is wrapped per member.
+  const encryptedKeys = await Promise.all(
+    recipients.map(async ({ userId, publicKey }) => {
+      const memberPubKey = await window.crypto.subtle.importKey(
+        "spki",
+        base64ToArrayBuffer(publicKey),
+        {
+          name: "RSA-OAEP",
+          hash: "SHA-256",
+        },
+        true,
+        ["encrypt"]
+      );
+
+      const encryptedKey = await window.crypto.subtle.encrypt(
+        {
+          name: "RSA-OAEP",
+        },
+        memberPubKey,
+        exportedAesKey
+      );
+
+      return { userId, encryptedKey: arrayBufferToBase64(encryptedKey) };
+    })
+  );
+
+  return {
+    encryptedContent: arrayBufferToBase64(encryptedContent),
+    iv: arrayBufferToBase64(iv),
+    encryptedKeys,
+  };
+}
+
+// Encrypts content under a fresh AES key and hands back the raw key, for callers
+// that deliver the key themselves.
+export async function encryptContent(message: string): Promise<EncryptedContent> {
+  const aesKey = await window.crypto.subtle.generateKey(
+    {
+      name: "AES-GCM",
+      length: 256,
     },
     true,
+    ["encrypt", "decrypt"]
+  );
+
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const encryptedContent = await window.crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv,
+    },
+    aesKey,
+    new TextEncoder().encode(message)
+  );
+
+  return {
+    key: arrayBufferToBase64(await window.crypto.subtle.exportKey("raw", aesKey)),
+    encryptedContent: arrayBufferToBase64(encryptedContent),
+    iv: arrayBufferToBase64(iv),
+  };
+}
+
+export async function decryptContent(encryptedContent: string, key: string, iv: string): Promise<string> {
+  const aesKey = await window.crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(key),
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    false,
     ["decrypt"]
   );
 
+  const decryptedContent = await window.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: base64ToArrayBuffer(iv),
+    },
+    aesKey,
+    base64ToArrayBuffer(encryptedContent)
+  );
+
+  return new TextDecoder().decode(decryptedContent);
+}
+
+export async function decryptMessage(
+  encryptedContent: string,
+  encryptedKey: string,
+  iv: string,
+  privateKey: CryptoKey
+): Promise<string> {
   const decryptedAesKey = await window.crypto.subtle.decrypt(
     {
       name: "RSA-OAEP",
     },
-    privateKeyObj,
+    privateKey,
     base64ToArrayBuffer(encryptedKey)
   );
 
@@ -173,20 +321,37 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
-export function generateFingerprint(publicKey: string): string {
-  const hash = publicKey.slice(0, 40);
-  return hash.match(/.{1,4}/g)?.join(" ") || hash;
+export interface SafetyNumberParty {
+  id: number;
+  publicKey: string;
+  signingPublicKey: string | null;
 }
 
-export function saveKeysToStorage(username: string, keyPair: KeyPair): void {
-  localStorage.setItem(`archer_keys_${username}`, JSON.stringify(keyPair));
+// 30 digits per party, derived from a hash of their user id, encryption key and
+// signing key. Device identity keys are left out: every sign-in makes a new one,
+// and each is signed with the signing key, which the number already covers.
+async function safetyNumberHalf(party: SafetyNumberParty): Promise<string> {
+  const input = new TextEncoder().encode(
+    `archer-safety-number/v2:${party.id}:${party.publicKey}:${party.signingPublicKey ?? ""}`
+  );
+  const hash = new Uint8Array(await window.crypto.subtle.digest("SHA-512", input));
+
+  let digits = "";
+  for (let i = 0; i < 30; i += 5) {
+    // Five bytes per chunk keeps the modulo bias negligible.
+    const chunk = hash.slice(i, i + 5).reduce((n, byte) => n * 256 + byte, 0);
+    digits += String(chunk % 100000).padStart(5, "0");
+  }
+  return digits;
 }
 
-export function getKeysFromStorage(username: string): KeyPair | null {
-  const keys = localStorage.getItem(`archer_keys_${username}`);
-  return keys ? JSON.parse(keys) : null;
+// Both sides of a conversation compute the same 60 digits: the halves are ordered
+// by user id rather than by who is looking. Any change to either side's keys changes it.
+export async function generateSafetyNumber(a: SafetyNumberParty, b: SafetyNumberParty): Promise<string> {
+  const [first, second] = a.id < b.id ? [a, b] : [b, a];
+  return (await safetyNumberHalf(first)) + (await safetyNumberHalf(second));
 }
 
-export function clearKeysFromStorage(username: string): void {
-  localStorage.removeItem(`archer_keys_${username}`);
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{1,5}/g) || [];
 }
@@ -0,0 +1,135 @@
+import { arrayBufferToBase64, base64ToArrayBuffer, type KeyPair } from "./crypto";
+import { linkCodeFromDigest, normalizeLinkCode } from "@shared/device-link";
+import { type DeviceLinkApproval } from "@shared/schema";
+
+export interface LinkRequestKeys {
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+const ECDH_PARAMS: EcKeyGenParams = {
+  name: "ECDH",
+  namedCurve: "P-256",
+};
+
+async function generateEcdhKeyPair() {
+  return window.crypto.subtle.generateKey(ECDH_PARAMS, false, ["deriveKey"]);
+}
+
+async function deriveTransferKey(privateKey: CryptoKey, publicKey: string): Promise<CryptoKey> {
+  const peerKey = await window.crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(publicKey),
+    ECDH_PARAMS,
+    false,
+    []
+  );
+
+  return window.crypto.subtle.deriveKey(
+    {
+      name: "ECDH",
+      public: peerKey,
+    },
+    privateKey,
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function generateLinkRequestKeys(): Promise<LinkRequestKeys> {
+  const keyPair = await generateEcdhKeyPair();
+  const publicKey = await window.crypto.subtle.exportKey("raw", keyPair.publicKey);
+
+  return {
+    publicKey: arrayBufferToBase64(publicKey),
+    privateKey: keyPair.privateKey,
+  };
+}
+
+export async function getLinkCode(publicKey: string): Promise<string> {
+  const digest = await window.crypto.subtle.digest("SHA-256", base64ToArrayBuffer(publicKey));
+  return linkCodeFromDigest(new Uint8Array(digest));
+}
+
+export async function encryptKeysForDevice(
+  keyPair: KeyPair,
+  devicePublicKey: string,
+  code: string
+): Promise<DeviceLinkApproval> {
+  if ((await getLinkCode(devicePublicKey)) !== normalizeLinkCode(code)) {
+    throw new Error("Pairing code does not match the requesting device");
+  }
+
+  const ephemeral = await generateEcdhKeyPair();
+  const transferKey = await deriveTransferKey(ephemeral.privateKey, devicePublicKey);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const encryptedKeys = await window.crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv,
+    },
+    transferKey,
+    new TextEncoder().encode(JSON.stringify(keyPair))
+  );
+
+  const senderPublicKey = await window.crypto.subtle.exportKey("raw", ephemeral.publicKey);
+
+  return {
+    senderPublicKey: arrayBufferToBase64(senderPublicKey),
+    encryptedKeys: arrayBufferToBase64(encryptedKeys),
+    iv: arrayBufferToBase64(iv),
+  };
+}
+
+export async function decryptLinkedKeys(
+  approval: DeviceLinkApproval,
+  privateKey: CryptoKey
+): Promise<KeyPair> {
+  const transferKey = await deriveTransferKey(privateKey, approval.senderPublicKey);
+
+  const decrypted = await window.crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: base64ToArrayBuffer(approval.iv),
+    },
+    transferKey,
+    base64ToArrayBuffer(approval.encryptedKeys)
+  );
+
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
+
+export function getDeviceName(): string {
+  const ua = navigator.userAgent;
+
+  const browser = /Edg\//.test(ua)
+    ? "Edge"
+    : /OPR\//.test(ua)
+    ? "Opera"
+    : /Firefox\//.test(ua)
+    ? "Firefox"
+    : /Chrome\//.test(ua)
+    ? "Chrome"
+    : /Safari\//.test(ua)
+    ? "Safari"
+    : "Browser";
+
+  const os = /Android/.test(ua)
+    ? "Android"
+    : /iPhone|iPad|iPod/.test(ua)
+    ? "iOS"
+    : /Windows/.test(ua)
+    ? "Windows"
+    : /Mac OS X/.test(ua)
+    ? "macOS"
+    : /Linux/.test(ua)
+    ? "Linux"
+    : "unknown OS";
+
+  return `${browser} on ${os}`;
+}
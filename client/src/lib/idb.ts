@@ -0,0 +1,141 @@
+// A small promise wrapper around IndexedDB. Each account gets its own database,
+// so several accounts signed in on one browser never share state.
+const DB_VERSION = 2;
+const STORES = ["device", "sessions", "plaintext", "keys"] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+function openDatabase(username: string): Promise<IDBDatabase> {
+  let database = databases.get(username);
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(`archer_${username}`, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORES) {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+        }
+      };
+      request.onsuccess = () => {
+        // Let a newer version of the app in another tab upgrade the schema.
+        request.result.onversionchange = () => {
+          request.result.close();
+          databases.delete(username);
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    databases.set(username, database);
+    database.catch(() => databases.delete(username));
+  }
+  return database;
+}
+
+async function run<T>(
+  username: string,
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase(username);
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(store, mode);
+    const request = operation(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function idbGet<T>(username: string, store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return run(username, store, "readonly", (s) => s.get(key));
+}
+
+export async function idbSet(username: string, store: StoreName, key: IDBValidKey, value: unknown) {
+  await run(username, store, "readwrite", (s) => s.put(value, key));
+}
+
+export async function idbDelete(username: string, store: StoreName, key: IDBValidKey) {
+  await run(username, store, "readwrite", (s) => s.delete(key));
+}
+
+export function idbKeys(username: string, store: StoreName): Promise<IDBValidKey[]> {
+  return run(username, store, "readonly", (s) => s.getAllKeys());
+}
+
+export async function idbClear(username: string, store: StoreName) {
+  await run(username, store, "readwrite", (s) => s.clear());
+}
+
+// Stores whose values are sealed with the account's storage key (see key-store.ts),
+// so the ratchet state and plaintext are unreadable while the keys are locked.
+export const SEALED_STORES = ["device", "sessions", "plaintext"] as const;
+
+export type SealedStoreName = (typeof SEALED_STORES)[number];
+
+interface Sealed {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+function isSealed(value: unknown): value is Sealed {
+  return typeof value === "object" && value !== null && "ciphertext" in value && value.ciphertext instanceof ArrayBuffer;
+}
+
+// The store and key are bound in, so sealed values can't be swapped between entries.
+function sealingParams(store: SealedStoreName, key: IDBValidKey, iv: Uint8Array): AesGcmParams {
+  return { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(JSON.stringify([store, key])) };
+}
+
+async function seal(storageKey: CryptoKey, store: SealedStoreName, key: IDBValidKey, value: unknown): Promise<Sealed> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  return { iv, ciphertext: await window.crypto.subtle.encrypt(sealingParams(store, key, iv), storageKey, plaintext) };
+}
+
+// Anything that isn't sealed reads as missing.
+export async function idbGetSealed<T>(
+  username: string,
+  storageKey: CryptoKey,
+  store: SealedStoreName,
+  key: IDBValidKey
+): Promise<T | undefined> {
+  const value = await idbGet<unknown>(username, store, key);
+  if (!isSealed(value)) return undefined;
+  const plaintext = await window.crypto.subtle.decrypt(sealingParams(store, key, value.iv), storageKey, value.ciphertext);
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+export async function idbSetSealed(
+  username: string,
+  storageKey: CryptoKey,
+  store: SealedStoreName,
+  key: IDBValidKey,
+  value: unknown
+) {
+  await idbSet(username, store, key, await seal(storageKey, store, key, value));
+}
+
+// Seals what was stored in the clear before these stores were sealed.
+export async function idbSealExisting(username: string, storageKey: CryptoKey) {
+  for (const store of SEALED_STORES) {
+    for (const key of await idbKeys(username, store)) {
+      const value = await idbGet<unknown>(username, store, key);
+      if (value !== undefined && !isSealed(value)) await idbSet(username, store, key, await seal(storageKey, store, key, value));
+    }
+  }
+}
+
+// Drops everything this device keeps for the account.
+export async function idbDeleteDatabase(username: string) {
+  const database = databases.get(username);
+  databases.delete(username);
+  (await database?.catch(() => null))?.close();
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(`archer_${username}`);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
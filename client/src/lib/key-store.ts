@@ -0,0 +1,268 @@
+import { arrayBufferToBase64, base64ToArrayBuffer, importPrivateKey, type AccountKeys, type KeyPair } from "./crypto";
+import { SEALED_STORES, idbClear, idbGet, idbSealExisting, idbSet } from "./idb";
+import { importSigningKey } from "./signatures";
+
+const PBKDF2_ITERATIONS = 600000;
+
+const RSA_PARAMS: RsaHashedImportParams = {
+  name: "RSA-OAEP",
+  hash: "SHA-256",
+};
+
+const STORAGE_KEY_PARAMS: AesKeyGenParams = {
+  name: "AES-GCM",
+  length: 256,
+};
+
+interface WrappedKey {
+  salt: string;
+  iv: string;
+  wrappedKey: string;
+}
+
+interface StoredKeys {
+  publicKey: string;
+  // The RSA private key wrapped with a key derived from the login password. It is
+  // the only extractable copy, used to unlock again and to hand keys to a new device.
+  wrapped: WrappedKey;
+  // The AES key that seals the ratchet state and plaintext cache, wrapped the same
+  // way. Missing from records made before it existed; added on the next unlock.
+  wrappedStorageKey?: WrappedKey;
+  // Non-extractable keys, kept while unlocked unless the device asks for the password.
+  unlocked: AccountKeys | null;
+  requirePassword: boolean;
+}
+
+function legacyStorageKey(username: string) {
+  return `archer_keys_${username}`;
+}
+
+// Keys used to sit in localStorage as base64 pkcs8; they move over on the next unlock.
+function readLegacyKeys(username: string): KeyPair | null {
+  const keys = localStorage.getItem(legacyStorageKey(username));
+  return keys ? JSON.parse(keys) : null;
+}
+
+export function hasLegacyKeys(username: string): boolean {
+  return readLegacyKeys(username) !== null;
+}
+
+function loadRecord(username: string) {
+  return idbGet<StoredKeys>(username, "keys", "account");
+}
+
+function saveRecord(username: string, record: StoredKeys) {
+  return idbSet(username, "keys", "account", record);
+}
+
+async function deriveWrappingKey(password: string, salt: ArrayBuffer): Promise<CryptoKey> {
+  const material = await window.crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+
+  return window.crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: salt,
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    material,
+    {
+      name: "AES-GCM",
+      length: 256,
+    },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrapWithPassword(format: "pkcs8" | "raw", key: CryptoKey, password: string): Promise<WrappedKey> {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveWrappingKey(password, salt.buffer);
+
+  const wrappedKey = await window.crypto.subtle.wrapKey(format, key, wrappingKey, {
+    name: "AES-GCM",
+    iv: iv,
+  });
+
+  return {
+    salt: arrayBufferToBase64(salt.buffer),
+    iv: arrayBufferToBase64(iv.buffer),
+    wrappedKey: arrayBufferToBase64(wrappedKey),
+  };
+}
+
+async function unwrapWithPassword(
+  format: "pkcs8" | "raw",
+  wrapped: WrappedKey,
+  password: string,
+  algorithm: RsaHashedImportParams | AesKeyGenParams,
+  extractable: boolean,
+  usages: KeyUsage[]
+): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(password, base64ToArrayBuffer(wrapped.salt));
+
+  try {
+    return await window.crypto.subtle.unwrapKey(
+      format,
+      base64ToArrayBuffer(wrapped.wrappedKey),
+      wrappingKey,
+      {
+        name: "AES-GCM",
+        iv: base64ToArrayBuffer(wrapped.iv),
+      },
+      algorithm,
+      extractable,
+      usages
+    );
+  } catch {
+    throw new Error("Incorrect password");
+  }
+}
+
+async function wrapPrivateKey(privateKey: string, password: string): Promise<WrappedKey> {
+  const key = await window.crypto.subtle.importKey("pkcs8", base64ToArrayBuffer(privateKey), RSA_PARAMS, true, ["decrypt"]);
+  return wrapWithPassword("pkcs8", key, password);
+}
+
+function unwrapPrivateKey(wrapped: WrappedKey, password: string, extractable: boolean): Promise<CryptoKey> {
+  return unwrapWithPassword("pkcs8", wrapped, password, RSA_PARAMS, extractable, ["decrypt"]);
+}
+
+function unwrapStorageKey(wrapped: WrappedKey, password: string, extractable: boolean): Promise<CryptoKey> {
+  return unwrapWithPassword("raw", wrapped, password, STORAGE_KEY_PARAMS, extractable, ["encrypt", "decrypt"]);
+}
+
+// Opens the record's storage key, or makes one if it has none yet and seals what
+// was stored in the clear until now. A key wrapped with another password (the
+// account was recovered) can't be opened, so what it sealed is dropped with it.
+async function openStorageKey(username: string, record: StoredKeys | undefined, password: string) {
+  let cleared = false;
+  if (record?.wrappedStorageKey) {
+    try {
+      return {
+        storageKey: await unwrapStorageKey(record.wrappedStorageKey, password, false),
+        wrappedStorageKey: record.wrappedStorageKey,
+      };
+    } catch {
+      await Promise.all(SEALED_STORES.map((store) => idbClear(username, store)));
+      cleared = true;
+    }
+  }
+
+  const key = await window.crypto.subtle.generateKey(STORAGE_KEY_PARAMS, true, ["encrypt", "decrypt"]);
+  const raw = await window.crypto.subtle.exportKey("raw", key);
+  const storageKey = await window.crypto.subtle.importKey("raw", raw, STORAGE_KEY_PARAMS, false, ["encrypt", "decrypt"]);
+  if (!cleared) await idbSealExisting(username, storageKey);
+  return { storageKey, wrappedStorageKey: await wrapWithPassword("raw", key, password) };
+}
+
+// Whether this device holds keys for the account, locked or not.
+export async function hasStoredKeys(username: string): Promise<boolean> {
+  return hasLegacyKeys(username) || (await loadRecord(username)) !== undefined;
+}
+
+// The keys this device can use without asking for the password, if any. Keys
+// saved before there was a storage key need the password once to get one.
+export async function loadKeys(username: string): Promise<AccountKeys | null> {
+  const unlocked = (await loadRecord(username))?.unlocked;
+  return unlocked?.storageKey ? unlocked : null;
+}
+
+// Takes keys that arrived in the clear (registration, recovery, device linking or
+// the old localStorage entry) and keeps only non-extractable and wrapped copies.
+export async function storeKeys(username: string, keyPair: KeyPair, password: string): Promise<AccountKeys> {
+  const previous = await loadRecord(username);
+  const { storageKey, wrappedStorageKey } = await openStorageKey(username, previous, password);
+  const keys: AccountKeys = {
+    publicKey: keyPair.publicKey,
+    privateKey: await importPrivateKey(keyPair.privateKey),
+    storageKey,
+  };
+  if (keyPair.signingPublicKey && keyPair.signingPrivateKey) {
+    keys.signingPublicKey = keyPair.signingPublicKey;
+    keys.signingPrivateKey = await importSigningKey(keyPair.signingPrivateKey);
+  }
+
+  const requirePassword = previous?.requirePassword ?? false;
+  await saveRecord(username, {
+    publicKey: keyPair.publicKey,
+    wrapped: await wrapPrivateKey(keyPair.privateKey, password),
+    wrappedStorageKey,
+    unlocked: requirePassword ? null : keys,
+    requirePassword,
+  });
+  localStorage.removeItem(legacyStorageKey(username));
+  return keys;
+}
+
+// Returns null when this device has no keys for the account; throws if the
+// password doesn't open them. The signing key is restored from the escrow after.
+export async function unlockKeys(username: string, password: string): Promise<AccountKeys | null> {
+  const legacy = readLegacyKeys(username);
+  if (legacy) return storeKeys(username, legacy, password);
+
+  const record = await loadRecord(username);
+  if (!record) return null;
+
+  const privateKey = await unwrapPrivateKey(record.wrapped, password, false);
+  const { storageKey, wrappedStorageKey } = await openStorageKey(username, record, password);
+  const keys: AccountKeys = { publicKey: record.publicKey, privateKey, storageKey };
+  await saveRecord(username, { ...record, wrappedStorageKey, unlocked: record.requirePassword ? null : keys });
+  return keys;
+}
+
+// Remembers keys picked up while unlocked, such as a restored signing key.
+export async function saveUnlockedKeys(username: string, keys: AccountKeys) {
+  const record = await loadRecord(username);
+  if (!record || record.requirePassword) return;
+  await saveRecord(username, { ...record, unlocked: keys });
+}
+
+// Without the storage key the sealed ratchet state and plaintext can't be read either.
+export async function lockKeys(username: string) {
+  const record = await loadRecord(username);
+  if (record?.unlocked) await saveRecord(username, { ...record, unlocked: null });
+}
+
+export async function isPasswordRequired(username: string): Promise<boolean> {
+  return (await loadRecord(username))?.requirePassword ?? false;
+}
+
+export async function setPasswordRequired(username: string, requirePassword: boolean, keys: AccountKeys) {
+  const record = await loadRecord(username);
+  if (!record) throw new Error("No encryption keys on this device");
+  await saveRecord(username, { ...record, requirePassword, unlocked: requirePassword ? null : keys });
+}
+
+// Called after a password change so the wrapped key keeps opening with the login password.
+export async function rewrapKeys(username: string, currentPassword: string, newPassword: string) {
+  const record = await loadRecord(username);
+  if (!record) return;
+  const { privateKey } = await exportKeys(username, currentPassword);
+  const storageKey = record.wrappedStorageKey && (await unwrapStorageKey(record.wrappedStorageKey, currentPassword, true));
+  await saveRecord(username, {
+    ...record,
+    wrapped: await wrapPrivateKey(privateKey, newPassword),
+    wrappedStorageKey: storageKey ? await wrapWithPassword("raw", storageKey, newPassword) : undefined,
+  });
+}
+
+// The clear keys, only for sending to a newly linked device. Its signing key
+// comes from the escrow, so just the RSA pair is needed.
+export async function exportKeys(username: string, password: string): Promise<KeyPair> {
+  const record = await loadRecord(username);
+  if (!record) throw new Error("No encryption keys on this device");
+
+  const privateKey = await unwrapPrivateKey(record.wrapped, password, true);
+  return {
+    publicKey: record.publicKey,
+    privateKey: arrayBufferToBase64(await window.crypto.subtle.exportKey("pkcs8", privateKey)),
+  };
+}
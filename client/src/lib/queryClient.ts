@@ -1,4 +1,56 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+// The session lives in httpOnly cookies this code never sees. Requests that
+// change something echo the readable CSRF cookie back in a header.
+const CSRF_COOKIE = "archer_csrf";
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+let refreshing: Promise<boolean> | null = null;
+let onSessionExpired: (() => void) | null = null;
+
+export function setSessionExpiredHandler(handler: (() => void) | null) {
+  onSessionExpired = handler;
+}
+
+function readCsrfToken() {
+  const cookie = document.cookie.split("; ").find((c) => c.startsWith(`${CSRF_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(CSRF_COOKIE.length + 1)) : null;
+}
+
+// Refresh tokens are single-use and the cookies are shared by every tab, so tabs
+// take turns. A new CSRF cookie means another tab refreshed while this one waited.
+export function refreshSession(): Promise<boolean> {
+  const csrf = readCsrfToken();
+  refreshing ??= navigator.locks
+    .request("archer-refresh", async () => {
+      if (readCsrfToken() !== csrf) return true;
+      const res = await fetch("/api/auth/refresh", {
+        method: "POST",
+        headers: csrf ? { "X-CSRF-Token": csrf } : {},
+        credentials: "include",
+      });
+      if (res.status === 401) onSessionExpired?.();
+      return res.ok;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+// Like fetch, with the CSRF header. A 401 that blames the access token (rather
+// than, say, a wrong password) gets one refresh and retry.
+export async function authFetch(url: string, init: RequestInit = {}) {
+  const send = () => {
+    const headers = new Headers(init.headers);
+    const csrf = readCsrfToken();
+    if (csrf && !SAFE_METHODS.has((init.method ?? "GET").toUpperCase())) headers.set("X-CSRF-Token", csrf);
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const res = await send();
+  if (res.status !== 401 || !res.headers.has("WWW-Authenticate")) return res;
+  return (await refreshSession()) ? send() : res;
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -12,22 +64,16 @@ export async function apiRequest<T = any>(
   url: string,
   data?: unknown | undefined,
 ): Promise<T> {
-  const token = localStorage.getItem("archer_token");
   const headers: Record<string, string> = {};
   
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-  
   if (data) {
     headers["Content-Type"] = "application/json";
   }
 
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -40,17 +86,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = localStorage.getItem("archer_token");
-    const headers: Record<string, string> = {};
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
-    }
-
-    const res = await fetch(queryKey.join("/") as string, {
-      credentials: "include",
-      headers,
-    });
+    const res = await authFetch(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -0,0 +1,317 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./crypto";
+
+// X3DH key agreement and the Double Ratchet, over P-256 ECDH with HKDF/HMAC-SHA-256
+// and AES-GCM. Every function here is pure: it takes a session state and returns
+// the next one, leaving storage and locking to the caller.
+
+const ECDH_PARAMS: EcKeyGenParams = {
+  name: "ECDH",
+  namedCurve: "P-256",
+};
+
+// Bounds the work and storage a malicious header can cause.
+const MAX_SKIP = 1000;
+const MAX_SKIPPED_KEYS = 2000;
+
+export interface DHKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+// Sent with every message until the responder answers, so whichever message
+// arrives first can set up the session.
+export interface InitHeader {
+  identityKey: string;
+  identitySignature: string;
+  ephemeralKey: string;
+  signedPrekeyId: number;
+  oneTimePrekeyId: number | null;
+}
+
+export interface RatchetHeader {
+  device: number;
+  dh: string;
+  pn: number;
+  n: number;
+  init?: InitHeader;
+}
+
+export interface RemoteBundle {
+  identityKey: string;
+  signedPrekeyId: number;
+  signedPrekey: string;
+  oneTimePrekey: { keyId: number; publicKey: string } | null;
+}
+
+export interface SessionState {
+  // Both identity keys, initiator first; bound into every message as associated data.
+  ad: string;
+  remoteIdentityKey: string;
+  rootKey: string;
+  sendingRatchet: DHKeyPair;
+  remoteRatchetKey: string | null;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  skipped: Record<string, string>;
+  pendingInit: InitHeader | null;
+  initEphemeralKey: string | null;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array): string {
+  return arrayBufferToBase64(bytes.slice().buffer);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return new Uint8Array(base64ToArrayBuffer(base64));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export async function generateDHKeyPair(): Promise<DHKeyPair> {
+  const keyPair = await window.crypto.subtle.generateKey(ECDH_PARAMS, true, ["deriveBits"]);
+  const publicKey = await window.crypto.subtle.exportKey("raw", keyPair.publicKey);
+  const privateKey = await window.crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: arrayBufferToBase64(publicKey),
+    privateKey: arrayBufferToBase64(privateKey),
+  };
+}
+
+async function dh(privateKey: string, publicKey: string): Promise<Uint8Array> {
+  const ownKey = await window.crypto.subtle.importKey("pkcs8", fromBase64(privateKey), ECDH_PARAMS, false, ["deriveBits"]);
+  const peerKey = await window.crypto.subtle.importKey("raw", fromBase64(publicKey), ECDH_PARAMS, false, []);
+  const bits = await window.crypto.subtle.deriveBits({ name: "ECDH", public: peerKey }, ownKey, 256);
+  return new Uint8Array(bits);
+}
+
+async function hkdf(ikm: Uint8Array, salt: Uint8Array, info: string, length: number): Promise<Uint8Array> {
+  const key = await window.crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  const bits = await window.crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt, info: encoder.encode(info) },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+async function hmac(key: Uint8Array, input: number): Promise<Uint8Array> {
+  const hmacKey = await window.crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await window.crypto.subtle.sign("HMAC", hmacKey, new Uint8Array([input])));
+}
+
+async function kdfRootKey(rootKey: string, dhOutput: Uint8Array): Promise<[string, string]> {
+  const out = await hkdf(dhOutput, fromBase64(rootKey), "archer/ratchet/v1", 64);
+  return [toBase64(out.slice(0, 32)), toBase64(out.slice(32))];
+}
+
+// Returns the next chain key and this step's message key.
+async function kdfChainKey(chainKey: string): Promise<[string, string]> {
+  const key = fromBase64(chainKey);
+  return [toBase64(await hmac(key, 2)), toBase64(await hmac(key, 1))];
+}
+
+async function messageCipher(messageKey: string, usage: KeyUsage) {
+  // Each message key is used exactly once, so deriving the IV from it is safe.
+  const out = await hkdf(fromBase64(messageKey), new Uint8Array(32), "archer/message-key/v1", 44);
+  const key = await window.crypto.subtle.importKey("raw", out.slice(0, 32), "AES-GCM", false, [usage]);
+  return { key, iv: out.slice(32) };
+}
+
+async function seal(messageKey: string, plaintext: string, ad: string): Promise<string> {
+  const { key, iv } = await messageCipher(messageKey, "encrypt");
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(ad) },
+    key,
+    encoder.encode(plaintext)
+  );
+  return arrayBufferToBase64(ciphertext);
+}
+
+async function open(messageKey: string, ciphertext: string, ad: string): Promise<string> {
+  const { key, iv } = await messageCipher(messageKey, "decrypt");
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(ad) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+async function x3dhSecret(dhOutputs: Uint8Array[]): Promise<string> {
+  const ikm = concat([new Uint8Array(32).fill(0xff), ...dhOutputs]);
+  return toBase64(await hkdf(ikm, new Uint8Array(32), "archer/x3dh/v1", 32));
+}
+
+// The initiator's side of X3DH. The bundle's signatures must already be checked.
+export async function initiateSession(
+  identityKey: DHKeyPair,
+  identitySignature: string,
+  bundle: RemoteBundle
+): Promise<SessionState> {
+  const ephemeral = await generateDHKeyPair();
+  const dhOutputs = [
+    await dh(identityKey.privateKey, bundle.signedPrekey),
+    await dh(ephemeral.privateKey, bundle.identityKey),
+    await dh(ephemeral.privateKey, bundle.signedPrekey),
+  ];
+  if (bundle.oneTimePrekey) dhOutputs.push(await dh(ephemeral.privateKey, bundle.oneTimePrekey.publicKey));
+
+  const sendingRatchet = await generateDHKeyPair();
+  const [rootKey, sendingChainKey] = await kdfRootKey(
+    await x3dhSecret(dhOutputs),
+    await dh(sendingRatchet.privateKey, bundle.signedPrekey)
+  );
+
+  return {
+    ad: `${identityKey.publicKey}.${bundle.identityKey}`,
+    remoteIdentityKey: bundle.identityKey,
+    rootKey,
+    sendingRatchet,
+    remoteRatchetKey: bundle.signedPrekey,
+    sendingChainKey,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    pendingInit: {
+      identityKey: identityKey.publicKey,
+      identitySignature,
+      ephemeralKey: ephemeral.publicKey,
+      signedPrekeyId: bundle.signedPrekeyId,
+      oneTimePrekeyId: bundle.oneTimePrekey?.keyId ?? null,
+    },
+    initEphemeralKey: null,
+  };
+}
+
+// The responder's side of X3DH. The initiator's identity signature must already be checked.
+export async function acceptSession(
+  identityKey: DHKeyPair,
+  signedPrekey: DHKeyPair,
+  oneTimePrekey: DHKeyPair | null,
+  init: InitHeader
+): Promise<SessionState> {
+  const dhOutputs = [
+    await dh(signedPrekey.privateKey, init.identityKey),
+    await dh(identityKey.privateKey, init.ephemeralKey),
+    await dh(signedPrekey.privateKey, init.ephemeralKey),
+  ];
+  if (oneTimePrekey) dhOutputs.push(await dh(oneTimePrekey.privateKey, init.ephemeralKey));
+
+  return {
+    ad: `${init.identityKey}.${identityKey.publicKey}`,
+    remoteIdentityKey: init.identityKey,
+    rootKey: await x3dhSecret(dhOutputs),
+    sendingRatchet: signedPrekey,
+    remoteRatchetKey: null,
+    sendingChainKey: null,
+    receivingChainKey: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    pendingInit: null,
+    initEphemeralKey: init.ephemeralKey,
+  };
+}
+
+// The header travels as the exact JSON string it was authenticated as.
+export function parseEnvelope(envelope: string): { header: RatchetHeader; headerJson: string; ciphertext: string } {
+  const { header, ciphertext } = JSON.parse(envelope);
+  return { header: JSON.parse(header), headerJson: header, ciphertext };
+}
+
+export async function ratchetEncrypt(
+  state: SessionState,
+  deviceId: number,
+  plaintext: string
+): Promise<{ state: SessionState; envelope: string }> {
+  const next: SessionState = structuredClone(state);
+  if (!next.sendingChainKey) throw new Error("Session cannot send yet");
+
+  const [chainKey, messageKey] = await kdfChainKey(next.sendingChainKey);
+  const header: RatchetHeader = {
+    device: deviceId,
+    dh: next.sendingRatchet.publicKey,
+    pn: next.previousSendCount,
+    n: next.sendCount,
+    ...(next.pendingInit ? { init: next.pendingInit } : {}),
+  };
+  next.sendingChainKey = chainKey;
+  next.sendCount++;
+
+  const headerJson = JSON.stringify(header);
+  const ciphertext = await seal(messageKey, plaintext, next.ad + headerJson);
+  return { state: next, envelope: JSON.stringify({ header: headerJson, ciphertext }) };
+}
+
+async function skipMessageKeys(state: SessionState, until: number) {
+  if (!state.receivingChainKey) return;
+  if (until - state.receiveCount > MAX_SKIP) throw new Error("Too many skipped messages");
+
+  while (state.receiveCount < until) {
+    const [chainKey, messageKey] = await kdfChainKey(state.receivingChainKey);
+    state.skipped[`${state.remoteRatchetKey}:${state.receiveCount}`] = messageKey;
+    state.receivingChainKey = chainKey;
+    state.receiveCount++;
+  }
+
+  const keys = Object.keys(state.skipped);
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_SKIPPED_KEYS))) {
+    delete state.skipped[key];
+  }
+}
+
+// Throws if the envelope doesn't authenticate; the caller keeps the old state then.
+export async function ratchetDecrypt(
+  state: SessionState,
+  envelope: string
+): Promise<{ state: SessionState; plaintext: string }> {
+  const next: SessionState = structuredClone(state);
+  const { header, headerJson, ciphertext } = parseEnvelope(envelope);
+  const ad = next.ad + headerJson;
+
+  const skippedKey = `${header.dh}:${header.n}`;
+  const skipped = next.skipped[skippedKey];
+  if (skipped) {
+    delete next.skipped[skippedKey];
+    return { state: next, plaintext: await open(skipped, ciphertext, ad) };
+  }
+
+  if (header.dh !== next.remoteRatchetKey) {
+    await skipMessageKeys(next, header.pn);
+    next.previousSendCount = next.sendCount;
+    next.sendCount = 0;
+    next.receiveCount = 0;
+    next.remoteRatchetKey = header.dh;
+    [next.rootKey, next.receivingChainKey] = await kdfRootKey(next.rootKey, await dh(next.sendingRatchet.privateKey, header.dh));
+    next.sendingRatchet = await generateDHKeyPair();
+    [next.rootKey, next.sendingChainKey] = await kdfRootKey(next.rootKey, await dh(next.sendingRatchet.privateKey, header.dh));
+  }
+
+  await skipMessageKeys(next, header.n);
+  if (!next.receivingChainKey) throw new Error("Session cannot receive yet");
+  const [chainKey, messageKey] = await kdfChainKey(next.receivingChainKey);
+  next.receivingChainKey = chainKey;
+  next.receiveCount++;
+
+  const plaintext = await open(messageKey, ciphertext, ad);
+  // Hearing back means the other side has the session; stop resending the X3DH header.
+  next.pendingInit = null;
+  return { state: next, plaintext };
+}
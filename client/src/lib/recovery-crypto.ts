@@ -285,6 +285,32 @@ export async function createRecoveryInfo(privateKey: string): Promise<RecoveryIn
   };
 }
 
+export async function answerRecoveryChallenge(
+  encryptedChallenge: string,
+  privateKey: string
+): Promise<string> {
+  const privateKeyObj = await window.crypto.subtle.importKey(
+    "pkcs8",
+    base64ToArrayBuffer(privateKey),
+    {
+      name: "RSA-OAEP",
+      hash: "SHA-256"
+    },
+    false,
+    ["decrypt"]
+  );
+
+  const nonce = await window.crypto.subtle.decrypt(
+    {
+      name: "RSA-OAEP"
+    },
+    privateKeyObj,
+    base64ToArrayBuffer(encryptedChallenge)
+  );
+
+  return arrayBufferToBase64(nonce);
+}
+
 export function validatePassphrase(passphrase: string): boolean {
   const words = passphrase.trim().toLowerCase().split(/\s+/);
   
@@ -0,0 +1,337 @@
+import { decryptContent, encryptContent, type AccountKeys } from "./crypto";
+import { idbClear, idbDelete, idbGetSealed, idbKeys, idbSetSealed } from "./idb";
+import { apiRequest } from "./queryClient";
+import { contentKey } from "./chats";
+import {
+  acceptSession,
+  generateDHKeyPair,
+  initiateSession,
+  parseEnvelope,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  type DHKeyPair,
+  type SessionState,
+} from "./ratchet";
+import { signPayload, verifyPayload } from "./signatures";
+import { type ClaimedPrekeyBundle, type MessageWithEnvelope, type PrekeyStatus, type SafeUser } from "@shared/schema";
+
+const ONE_TIME_PREKEY_BATCH = 50;
+const MIN_ONE_TIME_PREKEYS = 20;
+const SIGNED_PREKEY_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Everything this device needs to answer X3DH. None of it leaves the device, and
+// like the sessions and plaintext it is only stored sealed with the storage key.
+interface DeviceState {
+  deviceId: number;
+  identityKey: DHKeyPair;
+  identitySignature: string;
+  signedPrekeyId: number;
+  // The current signed prekey and the one before it, for sessions started just before a rotation.
+  signedPrekeys: Record<number, DHKeyPair & { createdAt: number }>;
+  oneTimePrekeys: Record<number, DHKeyPair>;
+  nextPrekeyId: number;
+}
+
+export interface RatchetRecipient {
+  id: number;
+  signingPublicKey: string | null;
+}
+
+export interface RatchetMessage {
+  encryption: "ratchet";
+  encryptedContent: string;
+  iv: string;
+  senderEncryptedKey: "";
+  recipientEncryptedKey: "";
+  envelopes: { deviceId: number; envelope: string }[];
+}
+
+let lockChain: Promise<unknown> = Promise.resolve();
+
+// Ratchet state must advance one message at a time, across tabs as well.
+function withSessionLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (navigator.locks) return navigator.locks.request("archer-sessions", fn);
+  const run = lockChain.then(fn, fn);
+  lockChain = run.catch(() => {});
+  return run;
+}
+
+function identityPayload(userId: number, deviceId: number, identityKey: string) {
+  return JSON.stringify(["archer/device-identity/v1", userId, deviceId, identityKey]);
+}
+
+function signedPrekeyPayload(userId: number, deviceId: number, keyId: number, publicKey: string) {
+  return JSON.stringify(["archer/signed-prekey/v1", userId, deviceId, keyId, publicKey]);
+}
+
+function sessionKey(userId: number, deviceId: number) {
+  return `${userId}:${deviceId}`;
+}
+
+function loadDeviceState(username: string, storageKey: CryptoKey) {
+  return idbGetSealed<DeviceState>(username, storageKey, "device", "state");
+}
+
+async function generateOneTimePrekeys(state: DeviceState, count: number) {
+  const added: { keyId: number; publicKey: string }[] = [];
+  for (let i = 0; i < count; i++) {
+    const keyId = state.nextPrekeyId++;
+    const keyPair = await generateDHKeyPair();
+    state.oneTimePrekeys[keyId] = keyPair;
+    added.push({ keyId, publicKey: keyPair.publicKey });
+  }
+  return added;
+}
+
+async function rotateSignedPrekey(state: DeviceState) {
+  const previousId = state.signedPrekeyId;
+  const previous = state.signedPrekeys[previousId];
+  state.signedPrekeyId = state.nextPrekeyId++;
+  state.signedPrekeys = {
+    ...(previous ? { [previousId]: previous } : {}),
+    [state.signedPrekeyId]: { ...(await generateDHKeyPair()), createdAt: Date.now() },
+  };
+}
+
+// Publishes this device's prekey bundle if the server lacks it, rotates the
+// signed prekey weekly and tops up one-time prekeys as they get claimed.
+export async function ensurePrekeys(user: SafeUser, keyPair: AccountKeys) {
+  const signingPrivateKey = keyPair.signingPrivateKey;
+  if (!signingPrivateKey) return;
+
+  await withSessionLock(async () => {
+    const status = await apiRequest<PrekeyStatus>("GET", "/api/prekeys", undefined);
+    let state = await loadDeviceState(user.username, keyPair.storageKey);
+    let oneTimePrekeyCount = status.oneTimePrekeys;
+
+    if (!state || state.deviceId !== status.deviceId) {
+      // A new sign-in is a new device to everyone else, so sessions start over.
+      await idbClear(user.username, "sessions");
+      const identityKey = await generateDHKeyPair();
+      state = {
+        deviceId: status.deviceId,
+        identityKey,
+        identitySignature: await signPayload(
+          identityPayload(user.id, status.deviceId, identityKey.publicKey),
+          signingPrivateKey
+        ),
+        signedPrekeyId: 0,
+        signedPrekeys: {},
+        oneTimePrekeys: {},
+        nextPrekeyId: 1,
+      };
+    }
+
+    if (status.identityKey !== state.identityKey.publicKey) {
+      // The server will drop whatever one-time prekeys it held for an older identity.
+      state.oneTimePrekeys = {};
+      oneTimePrekeyCount = 0;
+    }
+
+    const signedPrekey = state.signedPrekeys[state.signedPrekeyId];
+    const rotate = !signedPrekey || Date.now() - signedPrekey.createdAt > SIGNED_PREKEY_MAX_AGE;
+    if (rotate) await rotateSignedPrekey(state);
+
+    const oneTimePrekeys =
+      oneTimePrekeyCount < MIN_ONE_TIME_PREKEYS ? await generateOneTimePrekeys(state, ONE_TIME_PREKEY_BATCH) : [];
+    const upToDate = status.identityKey === state.identityKey.publicKey && status.signedPrekeyId === state.signedPrekeyId;
+    if (upToDate && oneTimePrekeys.length === 0) return;
+
+    // Saved first so the private halves exist before anyone can claim them.
+    await idbSetSealed(user.username, keyPair.storageKey, "device", "state", state);
+
+    const current = state.signedPrekeys[state.signedPrekeyId];
+    await apiRequest<PrekeyStatus>(
+      "PUT",
+      "/api/prekeys",
+      {
+        identityKey: state.identityKey.publicKey,
+        identitySignature: state.identitySignature,
+        signedPrekeyId: state.signedPrekeyId,
+        signedPrekey: current.publicKey,
+        signedPrekeySignature: await signPayload(
+          signedPrekeyPayload(user.id, state.deviceId, state.signedPrekeyId, current.publicKey),
+          signingPrivateKey
+        ),
+        oneTimePrekeys,
+      }
+    );
+  });
+}
+
+async function verifyBundle(userId: number, bundle: ClaimedPrekeyBundle, signingPublicKey: string) {
+  const identity = await verifyPayload(
+    identityPayload(userId, bundle.deviceId, bundle.identityKey),
+    bundle.identitySignature,
+    signingPublicKey
+  );
+  const signedPrekey = await verifyPayload(
+    signedPrekeyPayload(userId, bundle.deviceId, bundle.signedPrekeyId, bundle.signedPrekey),
+    bundle.signedPrekeySignature,
+    signingPublicKey
+  );
+  return identity && signedPrekey;
+}
+
+// Loads a session with each device of the user, claiming prekey bundles for the
+// devices we haven't talked to yet, and forgets devices that are gone.
+async function sessionsFor(
+  username: string,
+  storageKey: CryptoKey,
+  state: DeviceState,
+  user: RatchetRecipient,
+  deviceIds: number[]
+): Promise<Map<number, SessionState>> {
+  const prefix = `${user.id}:`;
+  for (const key of await idbKeys(username, "sessions")) {
+    if (!String(key).startsWith(prefix)) continue;
+    if (!deviceIds.includes(Number(String(key).slice(prefix.length)))) await idbDelete(username, "sessions", key);
+  }
+
+  const sessions = new Map<number, SessionState>();
+  for (const deviceId of deviceIds) {
+    const session = await idbGetSealed<SessionState>(username, storageKey, "sessions", sessionKey(user.id, deviceId));
+    if (session) sessions.set(deviceId, session);
+  }
+
+  const missing = deviceIds.filter((id) => !sessions.has(id));
+  if (missing.length === 0) return sessions;
+  if (!user.signingPublicKey) throw new Error("Contact has no signing key");
+
+  const bundles = await apiRequest<ClaimedPrekeyBundle[]>("POST", `/api/prekeys/${user.id}/claim`, { deviceIds: missing });
+  for (const bundle of bundles) {
+    if (!(await verifyBundle(user.id, bundle, user.signingPublicKey))) {
+      throw new Error("A device's prekeys are not signed by its account");
+    }
+    sessions.set(bundle.deviceId, await initiateSession(state.identityKey, state.identitySignature, bundle));
+  }
+  if (sessions.size !== deviceIds.length) throw new Error("Device list changed");
+  return sessions;
+}
+
+// Encrypts a direct message for every device of both parties, or returns null
+// when either side has no prekeys yet so the caller can fall back to RSA.
+export async function encryptDirectMessage(
+  content: string,
+  sender: SafeUser,
+  keyPair: AccountKeys,
+  recipient: RatchetRecipient
+): Promise<RatchetMessage | null> {
+  if (sender.id === recipient.id) return null;
+
+  return withSessionLock(async () => {
+    const state = await loadDeviceState(sender.username, keyPair.storageKey);
+    if (!state) return null;
+
+    const [recipientDevices, ownDevices] = await Promise.all([
+      apiRequest<number[]>("GET", `/api/prekeys/${recipient.id}/devices`),
+      apiRequest<number[]>("GET", `/api/prekeys/${sender.id}/devices`),
+    ]);
+    if (recipientDevices.length === 0 || !ownDevices.includes(state.deviceId)) return null;
+
+    // Our other devices get a copy too, so they can read what this one sent.
+    const self = { id: sender.id, signingPublicKey: sender.signingPublicKey };
+    const targets = [
+      { user: recipient, sessions: await sessionsFor(sender.username, keyPair.storageKey, state, recipient, recipientDevices) },
+      {
+        user: self,
+        sessions: await sessionsFor(sender.username, keyPair.storageKey, state, self, ownDevices.filter((id) => id !== state.deviceId)),
+      },
+    ];
+
+    const { key, encryptedContent, iv } = await encryptContent(content);
+    const envelopes: RatchetMessage["envelopes"] = [];
+    for (const { user, sessions } of targets) {
+      for (const [deviceId, session] of Array.from(sessions)) {
+        const result = await ratchetEncrypt(session, state.deviceId, JSON.stringify({ key }));
+        await idbSetSealed(sender.username, keyPair.storageKey, "sessions", sessionKey(user.id, deviceId), result.state);
+        envelopes.push({ deviceId, envelope: result.envelope });
+      }
+    }
+
+    return {
+      encryption: "ratchet",
+      encryptedContent,
+      iv,
+      senderEncryptedKey: "",
+      recipientEncryptedKey: "",
+      envelopes,
+    };
+  });
+}
+
+// Originals stay under their id, where plaintext was kept before edits could be
+// ratchet encrypted; each edit gets its own entry.
+function plaintextKey(message: { id: number; editedAt?: Date | null }) {
+  return message.editedAt ? contentKey(message) : message.id;
+}
+
+// Message keys are gone once used, so plaintext is kept on the device that read it.
+export function rememberPlaintext(
+  username: string,
+  keyPair: AccountKeys,
+  message: { id: number; editedAt?: Date | null },
+  content: string
+) {
+  return idbSetSealed(username, keyPair.storageKey, "plaintext", plaintextKey(message), content);
+}
+
+// Returns the plaintext of a ratchet message, or null if this device was never sent it.
+export async function openDirectMessage(
+  message: MessageWithEnvelope,
+  user: SafeUser,
+  keyPair: AccountKeys,
+  senderSigningKey: string | null | undefined
+): Promise<string | null> {
+  const { storageKey } = keyPair;
+  const cached = await idbGetSealed<string>(user.username, storageKey, "plaintext", plaintextKey(message));
+  if (cached !== undefined) return cached;
+  const envelope = message.envelope;
+  if (!envelope) return null;
+
+  return withSessionLock(async () => {
+    // Another tab may have opened it while we waited.
+    const opened = await idbGetSealed<string>(user.username, storageKey, "plaintext", plaintextKey(message));
+    if (opened !== undefined) return opened;
+
+    const state = await loadDeviceState(user.username, storageKey);
+    if (!state) throw new Error("This device has no session keys");
+
+    const { header } = parseEnvelope(envelope);
+    const key = sessionKey(message.senderId, header.device);
+    let session = await idbGetSealed<SessionState>(user.username, storageKey, "sessions", key);
+    let usedPrekeyId: number | null = null;
+
+    const { init } = header;
+    if (init && session?.initEphemeralKey !== init.ephemeralKey) {
+      const trusted =
+        !!senderSigningKey &&
+        (await verifyPayload(
+          identityPayload(message.senderId, header.device, init.identityKey),
+          init.identitySignature,
+          senderSigningKey
+        ));
+      if (!trusted) throw new Error("Device identity is not signed by the sender");
+
+      const signedPrekey = state.signedPrekeys[init.signedPrekeyId];
+      const oneTimePrekey = init.oneTimePrekeyId === null ? null : state.oneTimePrekeys[init.oneTimePrekeyId];
+      if (!signedPrekey || oneTimePrekey === undefined) throw new Error("Prekey already used or unknown");
+
+      session = await acceptSession(state.identityKey, signedPrekey, oneTimePrekey, init);
+      usedPrekeyId = init.oneTimePrekeyId;
+    }
+    if (!session) throw new Error("No session with the sending device");
+
+    const result = await ratchetDecrypt(session, envelope);
+    const { key: sealedKey } = JSON.parse(result.plaintext);
+    const content = await decryptContent(message.encryptedContent, sealedKey, message.iv);
+
+    await idbSetSealed(user.username, storageKey, "sessions", key, result.state);
+    if (usedPrekeyId !== null) {
+      delete state.oneTimePrekeys[usedPrekeyId];
+      await idbSetSealed(user.username, storageKey, "device", "state", state);
+    }
+    await rememberPlaintext(user.username, keyPair, message, content);
+    return content;
+  });
+}
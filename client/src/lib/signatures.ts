@@ -0,0 +1,179 @@
+import { arrayBufferToBase64, base64ToArrayBuffer, decryptMessage, encryptMessage, type AccountKeys } from "./crypto";
+import { apiRequest } from "./queryClient";
+import { type GroupMessage, type Message, type SafeUser, type SignatureStatus } from "@shared/schema";
+
+const ECDSA_PARAMS: EcKeyGenParams = {
+  name: "ECDSA",
+  namedCurve: "P-256",
+};
+
+const SIGN_PARAMS: EcdsaParams = {
+  name: "ECDSA",
+  hash: "SHA-256",
+};
+
+type DirectSigned = Pick<Message, "senderId" | "recipientId" | "type" | "iv" | "encryptedContent" | "senderEncryptedKey" | "recipientEncryptedKey"> &
+  Partial<Pick<Message, "replyToId">>;
+type EditSigned = DirectSigned & Pick<Message, "id" | "editedAt">;
+type GroupSigned = Pick<GroupMessage, "senderId" | "groupId" | "type" | "iv" | "encryptedContent">;
+
+// Signatures cover the ciphertext and the routing metadata the server could
+// otherwise rewrite. The leading tag keeps direct and group payloads distinct.
+// A reply also covers the message it quotes; it is only appended when set so
+// signatures made before replies existed still verify.
+export function directMessagePayload(m: DirectSigned) {
+  return JSON.stringify([
+    "archer/direct/v1",
+    m.senderId,
+    m.recipientId,
+    m.type,
+    m.iv,
+    m.encryptedContent,
+    m.senderEncryptedKey,
+    m.recipientEncryptedKey,
+    ...(m.replyToId ? [m.replyToId] : []),
+  ]);
+}
+
+// An edit names the message it replaces, so it can't be replayed as a new
+// message or onto a different one.
+export function editedMessagePayload(m: Omit<EditSigned, "editedAt">) {
+  return JSON.stringify([
+    "archer/edit/v1",
+    m.id,
+    m.senderId,
+    m.recipientId,
+    m.type,
+    m.iv,
+    m.encryptedContent,
+    m.senderEncryptedKey,
+    m.recipientEncryptedKey,
+    ...(m.replyToId ? [m.replyToId] : []),
+  ]);
+}
+
+// Each member only receives their own wrapped key, so group signatures cover the shared ciphertext.
+export function groupMessagePayload(m: GroupSigned) {
+  return JSON.stringify(["archer/group/v1", m.senderId, m.groupId, m.type, m.iv, m.encryptedContent]);
+}
+
+export async function generateSigningKeys() {
+  const keyPair = await window.crypto.subtle.generateKey(ECDSA_PARAMS, true, ["sign", "verify"]);
+  const publicKey = await window.crypto.subtle.exportKey("spki", keyPair.publicKey);
+  const privateKey = await window.crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    signingPublicKey: arrayBufferToBase64(publicKey),
+    signingPrivateKey: arrayBufferToBase64(privateKey),
+  };
+}
+
+export async function importSigningKey(signingPrivateKey: string): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey(
+    "pkcs8",
+    base64ToArrayBuffer(signingPrivateKey),
+    ECDSA_PARAMS,
+    false,
+    ["sign"]
+  );
+}
+
+export async function signPayload(payload: string, signingPrivateKey: CryptoKey): Promise<string> {
+  const signature = await window.crypto.subtle.sign(SIGN_PARAMS, signingPrivateKey, new TextEncoder().encode(payload));
+  return arrayBufferToBase64(signature);
+}
+
+export async function verifyPayload(payload: string, signature: string, signingPublicKey: string): Promise<boolean> {
+  try {
+    const key = await window.crypto.subtle.importKey(
+      "spki",
+      base64ToArrayBuffer(signingPublicKey),
+      ECDSA_PARAMS,
+      false,
+      ["verify"]
+    );
+    return await window.crypto.subtle.verify(
+      SIGN_PARAMS,
+      key,
+      base64ToArrayBuffer(signature),
+      new TextEncoder().encode(payload)
+    );
+  } catch {
+    return false;
+  }
+}
+
+export async function verifyMessageSignature(
+  message: (DirectSigned | EditSigned | GroupSigned) & { signature: string | null },
+  signingPublicKey: string | null | undefined
+): Promise<SignatureStatus> {
+  if (!signingPublicKey) return "unsigned";
+  // Otherwise stripping the signature would be enough to pass off forged content.
+  if (!message.signature) return "invalid";
+  const payload =
+    "groupId" in message
+      ? groupMessagePayload(message)
+      : "editedAt" in message && message.editedAt
+      ? editedMessagePayload(message)
+      : directMessagePayload(message);
+  return (await verifyPayload(payload, message.signature, signingPublicKey)) ? "verified" : "invalid";
+}
+
+// The signing private key is escrowed on the server encrypted to the user's own
+// RSA public key, so any device holding the account keys can restore it.
+export async function sealSigningKey(signingPrivateKey: string, publicKey: string): Promise<string> {
+  const { encryptedContent, senderEncryptedKey, iv } = await encryptMessage(signingPrivateKey, publicKey, publicKey);
+  return JSON.stringify({ encryptedContent, encryptedKey: senderEncryptedKey, iv });
+}
+
+async function openSigningKey(sealed: string, privateKey: CryptoKey): Promise<string> {
+  const { encryptedContent, encryptedKey, iv } = JSON.parse(sealed);
+  return decryptMessage(encryptedContent, encryptedKey, iv, privateKey);
+}
+
+// Makes sure this device holds the account's signing key: restores it from the
+// escrow, or creates and publishes one for accounts that predate signing.
+export async function ensureSigningKeys(user: SafeUser, keyPair: AccountKeys) {
+  let current = user;
+
+  if (!current.signingPublicKey) {
+    // A key this device already holds can't be exported for the escrow, so a new one is made.
+    const keys = await generateSigningKeys();
+
+    try {
+      const updated = await apiRequest<SafeUser>(
+        "POST",
+        "/api/auth/signing-key",
+        {
+          signingPublicKey: keys.signingPublicKey,
+          encryptedSigningKey: await sealSigningKey(keys.signingPrivateKey, keyPair.publicKey),
+        }
+      );
+      return {
+        user: updated,
+        keyPair: {
+          ...keyPair,
+          signingPublicKey: keys.signingPublicKey,
+          signingPrivateKey: await importSigningKey(keys.signingPrivateKey),
+        },
+      };
+    } catch (error: any) {
+      // Another device published first; restore that key instead.
+      if (!String(error.message).startsWith("409")) throw error;
+      current = await apiRequest<SafeUser>("GET", `/api/users/${user.id}`, undefined);
+    }
+  }
+
+  if (!current.signingPublicKey || !current.encryptedSigningKey) {
+    throw new Error("Account has no signing key");
+  }
+
+  return {
+    user: current,
+    keyPair: {
+      ...keyPair,
+      signingPublicKey: current.signingPublicKey,
+      signingPrivateKey: await importSigningKey(await openSigningKey(current.encryptedSigningKey, keyPair.privateKey)),
+    },
+  };
+}
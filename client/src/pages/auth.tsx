@@ -4,17 +4,21 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { motion } from "framer-motion";
-import { Lock, User, UserPlus, Copy, Check, AlertTriangle, KeyRound, Key, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { Lock, User, UserPlus, Copy, Check, AlertTriangle, KeyRound, Key, Loader2, CheckCircle2, XCircle, Smartphone, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
-import { generateKeyPair, saveKeysToStorage, getKeysFromStorage } from "@/lib/crypto";
-import { createRecoveryInfo, decryptPrivateKeyWithPassphrase, validatePassphrase } from "@/lib/recovery-crypto";
+import { generateKeyPair } from "@/lib/crypto";
+import { generateSigningKeys, sealSigningKey } from "@/lib/signatures";
+import { createRecoveryInfo, decryptPrivateKeyWithPassphrase, validatePassphrase, answerRecoveryChallenge } from "@/lib/recovery-crypto";
+import { generateLinkRequestKeys, decryptLinkedKeys, getDeviceName, type LinkRequestKeys } from "@/lib/device-link";
 import { apiRequest } from "@/lib/queryClient";
+import { type DeviceLinkApproval, type TwoFactorChallenge } from "@shared/schema";
 import { Checkbox } from "@/components/ui/checkbox";
 
 const loginSchema = z.object({
@@ -36,6 +40,21 @@ type LoginForm = z.infer<typeof loginSchema>;
 type RegisterForm = z.infer<typeof registerSchema>;
 type RecoveryForm = z.infer<typeof recoverySchema>;
 
+interface PendingLink {
+  user: any;
+  code: string;
+  keys: LinkRequestKeys;
+  // Wraps the keys once they arrive.
+  password: string;
+}
+
+interface PendingTwoFactor {
+  challengeId: string;
+  password: string;
+}
+
+const LINK_POLL_INTERVAL = 2000;
+
 export default function AuthPage() {
   const [, setLocation] = useLocation();
   const [mode, setMode] = useState<"login" | "register" | "recover">("login");
@@ -48,6 +67,10 @@ export default function AuthPage() {
   const [checkingUsername, setCheckingUsername] = useState(false);
   const [usernameAvailable, setUsernameAvailable] = useState<boolean | null>(null);
   const [usernameError, setUsernameError] = useState<string>("");
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+  const [pendingTwoFactor, setPendingTwoFactor] = useState<PendingTwoFactor | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
   const { toast } = useToast();
   const { login } = useAuth();
 
@@ -99,29 +122,42 @@ export default function AuthPage() {
     defaultValues: { username: "", passphrase: "", newPassword: "" },
   });
 
+  // Once the server has started a session: unlock the keys here, or pair with
+  // another device if this one doesn't have them yet.
+  const continueLogin = async (user: any, password: string) => {
+    if (!(await login(user, password))) {
+      const linkKeys = await generateLinkRequestKeys();
+      const request = await apiRequest<{ code: string }>(
+        "POST",
+        "/api/devices/link-requests",
+        { publicKey: linkKeys.publicKey }
+      );
+      setPendingLink({
+        user,
+        code: request.code,
+        keys: linkKeys,
+        password,
+      });
+      return;
+    }
+
+    setLocation("/");
+  };
+
   const onLogin = async (data: LoginForm) => {
     setIsLoading(true);
     try {
-      const response = await apiRequest<{ user: any; token: string }>(
+      const response = await apiRequest<{ user: any } | TwoFactorChallenge>(
         "POST",
         "/api/auth/login",
-        data
+        { ...data, deviceName: getDeviceName() }
       );
 
-      const keys = getKeysFromStorage(response.user.username);
-      
-      if (!keys) {
-        toast({
-          title: "Login failed",
-          description: "Encryption keys not found. Please register a new account.",
-          variant: "destructive",
-        });
-        setIsLoading(false);
+      if ("twoFactorRequired" in response) {
+        setPendingTwoFactor({ challengeId: response.challengeId, password: data.password });
         return;
       }
-
-      login(response.user, response.token, keys);
-      setLocation("/");
+      await continueLogin(response.user, data.password);
     } catch (error: any) {
       toast({
         title: "Login failed",
@@ -133,6 +169,95 @@ export default function AuthPage() {
     }
   };
 
+  const cancelTwoFactor = () => {
+    setPendingTwoFactor(null);
+    setTwoFactorCode("");
+    setUseBackupCode(false);
+  };
+
+  const onTwoFactor = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!pendingTwoFactor || !twoFactorCode.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const response = await apiRequest<{ user: any }>(
+        "POST",
+        "/api/auth/login/2fa",
+        {
+          challengeId: pendingTwoFactor.challengeId,
+          ...(useBackupCode ? { backupCode: twoFactorCode } : { code: twoFactorCode }),
+        }
+      );
+      const { password } = pendingTwoFactor;
+      cancelTwoFactor();
+      await continueLogin(response.user, password);
+    } catch (error: any) {
+      setTwoFactorCode("");
+      // The challenge is gone after too many tries or once it expires.
+      if (error.message?.includes("Sign in again")) cancelTwoFactor();
+      toast({
+        title: "Verification failed",
+        description: error.message || "Invalid code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!pendingLink) return;
+
+    let active = true;
+    const poll = async () => {
+      try {
+        const { approval } = await apiRequest<{ approval: DeviceLinkApproval | null }>(
+          "GET",
+          `/api/devices/link-requests/${pendingLink.code}/approval`,
+          undefined
+        );
+        if (!active || !approval) return;
+
+        const keys = await decryptLinkedKeys(approval, pendingLink.keys.privateKey);
+        if (keys.publicKey !== pendingLink.user.publicKey) {
+          throw new Error("Received keys do not belong to this account");
+        }
+
+        // The approval is handed out once, so later polls find nothing while this runs.
+        await login(pendingLink.user, pendingLink.password, keys);
+        active = false;
+        setLocation("/");
+      } catch (error: any) {
+        if (!active) return;
+        active = false;
+        toast({
+          title: "Device linking failed",
+          description: error.message || "The pairing code expired. Please sign in again.",
+          variant: "destructive",
+        });
+        apiRequest("POST", "/api/auth/logout", undefined).catch(() => {});
+        setPendingLink(null);
+      }
+    };
+
+    const interval = setInterval(poll, LINK_POLL_INTERVAL);
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [pendingLink]);
+
+  const cancelLink = (nextMode: "login" | "recover" = "login") => {
+    if (pendingLink) {
+      apiRequest("DELETE", `/api/devices/link-requests/${pendingLink.code}`, undefined)
+        .catch(() => {})
+        .finally(() => apiRequest("POST", "/api/auth/logout", undefined).catch(() => {}));
+    }
+    setPendingLink(null);
+    setMode(nextMode);
+  };
+
   const onRegister = async (data: RegisterForm) => {
     if (!usernameAvailable) {
       toast({
@@ -145,7 +270,7 @@ export default function AuthPage() {
 
     setIsLoading(true);
     try {
-      const keys = await generateKeyPair();
+      const keys = { ...(await generateKeyPair()), ...(await generateSigningKeys()) };
       const recoveryInfo = await createRecoveryInfo(keys.privateKey);
 
       setRecoveryPassphrase(recoveryInfo.passphrase);
@@ -171,7 +296,7 @@ export default function AuthPage() {
 
     setIsLoading(true);
     try {
-      const response = await apiRequest<{ user: any; token: string }>(
+      const response = await apiRequest<{ user: any }>(
         "POST",
         "/api/auth/register",
         {
@@ -180,11 +305,16 @@ export default function AuthPage() {
           displayName: registrationData.displayName,
           publicKey: registrationData.keys.publicKey,
           encryptedPrivateKey: registrationData.encryptedPrivateKey,
+          signingPublicKey: registrationData.keys.signingPublicKey,
+          encryptedSigningKey: await sealSigningKey(
+            registrationData.keys.signingPrivateKey,
+            registrationData.keys.publicKey
+          ),
+          deviceName: getDeviceName(),
         }
       );
 
-      saveKeysToStorage(registrationData.username, registrationData.keys);
-      login(response.user, response.token, registrationData.keys);
+      await login(response.user, registrationData.password, registrationData.keys);
       setLocation("/");
     } catch (error: any) {
       toast({
@@ -210,27 +340,39 @@ export default function AuthPage() {
         return;
       }
 
-      const response = await apiRequest<{ 
+      const challenge = await apiRequest<{
+        challengeId: string;
+        encryptedChallenge: string;
         encryptedPrivateKey: string;
-        user: any;
-        token: string;
       }>(
+        "POST",
+        "/api/auth/recover/challenge",
+        { username: data.username }
+      );
+
+      let privateKey: string;
+      try {
+        privateKey = await decryptPrivateKeyWithPassphrase(
+          challenge.encryptedPrivateKey,
+          data.passphrase.trim().toLowerCase().split(/\s+/).join(" ")
+        );
+      } catch {
+        throw new Error("Incorrect recovery passphrase");
+      }
+
+      const response = await apiRequest<{ user: any }>(
         "POST",
         "/api/auth/recover",
         { 
           username: data.username,
-          newPassword: data.newPassword
+          newPassword: data.newPassword,
+          challengeId: challenge.challengeId,
+          response: await answerRecoveryChallenge(challenge.encryptedChallenge, privateKey),
+          deviceName: getDeviceName(),
         }
       );
 
-      const privateKey = await decryptPrivateKeyWithPassphrase(
-        response.encryptedPrivateKey,
-        data.passphrase
-      );
-
-      const keys = { privateKey, publicKey: response.user.publicKey };
-      saveKeysToStorage(data.username, keys);
-      login(response.user, response.token, keys);
+      await login(response.user, data.newPassword, { privateKey, publicKey: response.user.publicKey });
       
       toast({
         title: "Account recovered successfully",
@@ -267,7 +409,136 @@ export default function AuthPage() {
         transition={{ duration: 0.3 }}
         className="w-full max-w-md"
       >
-        {showPassphrase ? (
+        {pendingLink ? (
+          <Card>
+            <CardHeader className="space-y-1 text-center">
+              <div className="flex items-center justify-center mb-2">
+                <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                  <Smartphone className="h-6 w-6 text-primary-foreground" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold">Link this device</CardTitle>
+              <CardDescription>
+                Your encryption keys are not on this device yet
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                On a device where you are already signed in, open Settings → Devices and enter this pairing code:
+              </p>
+
+              <div className="p-4 bg-muted rounded-md border-2 border-border text-center">
+                <p className="text-3xl font-mono font-semibold tracking-widest" data-testid="text-pairing-code">
+                  {pendingLink.code}
+                </p>
+              </div>
+
+              <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Waiting for approval...
+              </p>
+
+              <Button
+                onClick={() => cancelLink("recover")}
+                variant="outline"
+                className="w-full"
+                data-testid="button-link-use-recovery"
+              >
+                Use recovery passphrase instead
+              </Button>
+
+              <Button
+                onClick={() => cancelLink()}
+                variant="ghost"
+                className="w-full"
+                data-testid="button-cancel-link"
+              >
+                Cancel
+              </Button>
+            </CardContent>
+          </Card>
+        ) : pendingTwoFactor ? (
+          <Card>
+            <CardHeader className="space-y-1 text-center">
+              <div className="flex items-center justify-center mb-2">
+                <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                  <ShieldCheck className="h-6 w-6 text-primary-foreground" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl font-bold">Two-factor authentication</CardTitle>
+              <CardDescription>
+                {useBackupCode
+                  ? "Enter one of your backup codes"
+                  : "Enter the 6-digit code from your authenticator app"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={onTwoFactor} className="space-y-4">
+                {useBackupCode ? (
+                  <Input
+                    autoFocus
+                    autoComplete="off"
+                    placeholder="xxxxx-xxxxx"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    className="h-12 font-mono text-center"
+                    data-testid="input-backup-code"
+                  />
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      autoFocus
+                      maxLength={6}
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
+                      data-testid="input-totp-code"
+                    >
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full h-12"
+                  disabled={isLoading || (!useBackupCode && twoFactorCode.length < 6)}
+                  data-testid="button-verify-2fa"
+                >
+                  {isLoading ? "Verifying..." : "Verify"}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    setTwoFactorCode("");
+                  }}
+                  data-testid="button-toggle-backup-code"
+                >
+                  {useBackupCode ? "Use authenticator app instead" : "Use a backup code instead"}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={cancelTwoFactor}
+                  data-testid="button-cancel-2fa"
+                >
+                  Cancel
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : showPassphrase ? (
           <Card>
             <CardHeader className="space-y-1 text-center">
               <div className="flex items-center justify-center mb-2">
@@ -6,35 +6,50 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/lib/auth-context";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type Conversation } from "@shared/schema";
+import { messagesQueryKey, type ChatTarget } from "@/lib/chats";
+import { type Conversation, type GroupConversation } from "@shared/schema";
 import { ChatList } from "@/components/chat-list";
 import { ConversationView } from "@/components/conversation-view";
 import { ProfileView } from "@/components/profile-view";
 import { UserSearch } from "@/components/user-search";
+import { CreateGroupDialog } from "@/components/create-group-dialog";
 import { SettingsDialog } from "@/components/settings-dialog";
+import { useRealtime } from "@/hooks/use-realtime";
 import { useLocation } from "wouter";
 
 export default function ChatPage() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
-  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [selectedChat, setSelectedChat] = useState<ChatTarget | null>(null);
   const [viewingProfile, setViewingProfile] = useState<number | null>(null);
   const [showSidebar, setShowSidebar] = useState(false);
+  const realtimeConnected = useRealtime();
 
   const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations"],
   });
 
+  const { data: groups = [], isLoading: groupsLoading } = useQuery<GroupConversation[]>({
+    queryKey: ["/api/groups"],
+  });
+
+  // Polling is only a fallback for when the realtime socket is down.
   useEffect(() => {
+    if (realtimeConnected) return;
+
     const interval = setInterval(() => {
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      if (selectedUserId) {
-        queryClient.invalidateQueries({ queryKey: ["/api/messages", selectedUserId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/groups"], exact: true });
+      if (selectedChat) {
+        queryClient.invalidateQueries({ queryKey: messagesQueryKey(selectedChat) });
       }
     }, 3000);
 
     return () => clearInterval(interval);
-  }, [selectedUserId]);
+  }, [selectedChat, realtimeConnected]);
+
+  const selectUser = (userId: number) => setSelectedChat({ kind: "direct", id: userId });
+  const selectGroup = (groupId: number) => setSelectedChat({ kind: "group", id: groupId });
 
   const handleLogout = () => {
     logout();
@@ -137,24 +152,28 @@ export default function ChatPage() {
             <Menu className="h-5 w-5" />
           </Button>
           <h1 className="text-lg font-semibold">Chats</h1>
-          <UserSearch onSelectUser={setSelectedUserId} />
+          <div className="flex items-center">
+            <CreateGroupDialog onCreated={selectGroup} />
+            <UserSearch onSelectUser={selectUser} />
+          </div>
         </div>
 
         <ChatList
           conversations={conversations}
-          selectedUserId={selectedUserId}
-          onSelectUser={setSelectedUserId}
-          isLoading={isLoading}
+          groups={groups}
+          selectedChat={selectedChat}
+          onSelectChat={setSelectedChat}
+          isLoading={isLoading || groupsLoading}
         />
       </div>
 
       {/* Right Panel - Conversation */}
       <div className="hidden lg:flex flex-1 flex-col">
-        {selectedUserId ? (
+        {selectedChat ? (
           <ConversationView
-            userId={selectedUserId}
+            chat={selectedChat}
             onViewProfile={setViewingProfile}
-            onBack={() => setSelectedUserId(null)}
+            onBack={() => setSelectedChat(null)}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center text-muted-foreground">
@@ -168,7 +187,7 @@ export default function ChatPage() {
 
       {/* Mobile Conversation View */}
       <AnimatePresence>
-        {selectedUserId && (
+        {selectedChat && (
           <motion.div
             initial={{ x: "100%" }}
             animate={{ x: 0 }}
@@ -177,9 +196,9 @@ export default function ChatPage() {
             className="fixed inset-0 z-30 bg-background lg:hidden"
           >
             <ConversationView
-              userId={selectedUserId}
+              chat={selectedChat}
               onViewProfile={setViewingProfile}
-              onBack={() => setSelectedUserId(null)}
+              onBack={() => setSelectedChat(null)}
             />
           </motion.div>
         )}
@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+
+export default function UnlockPage() {
+  const { user, unlock, logout } = useAuth();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const onUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoading(true);
+    try {
+      await unlock(password);
+    } catch (error: any) {
+      toast({
+        title: "Could not unlock",
+        description: error.message || "Incorrect password",
+        variant: "destructive",
+      });
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-md"
+      >
+        <Card>
+          <CardHeader className="space-y-1 text-center">
+            <div className="flex items-center justify-center mb-2">
+              <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                <Lock className="h-6 w-6 text-primary-foreground" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl font-bold">Unlock Archer</CardTitle>
+            <CardDescription>
+              Enter your password to unlock the encryption keys on this device
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={onUnlock} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="input-unlock-password">Password for @{user?.username}</Label>
+                <Input
+                  id="input-unlock-password"
+                  type="password"
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  data-testid="input-unlock-password"
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={!password || isLoading} data-testid="button-unlock">
+                {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Unlock
+              </Button>
+
+              <Button type="button" variant="ghost" className="w-full" onClick={logout} data-testid="button-unlock-logout">
+                Sign out
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
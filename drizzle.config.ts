@@ -1,14 +1,22 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL, ensure the database is provisioned");
-}
-
-export default defineConfig({
-  out: "./migrations",
-  schema: "./shared/schema.ts",
-  dialect: "postgresql",
-  dbCredentials: {
-    url: process.env.DATABASE_URL,
-  },
-});
+// DATABASE_URL switches the app, and these commands, over to Postgres.
+export default defineConfig(
+  process.env.DATABASE_URL
+    ? {
+        out: "./migrations/postgres",
+        schema: "./server/pg-schema.ts",
+        dialect: "postgresql",
+        dbCredentials: {
+          url: process.env.DATABASE_URL,
+        },
+      }
+    : {
+        out: "./migrations",
+        schema: "./shared/schema.ts",
+        dialect: "sqlite",
+        dbCredentials: {
+          url: process.env.DATABASE_FILE || "archer.db",
+        },
+      }
+);
@@ -0,0 +1,155 @@
+CREATE TABLE `attachments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`uploader_id` integer NOT NULL,
+	`size` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`uploader_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `blocks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`blocker_id` integer NOT NULL,
+	`blocked_id` integer NOT NULL,
+	FOREIGN KEY (`blocker_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`blocked_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_blocks_blocker` ON `blocks` (`blocker_id`);--> statement-breakpoint
+CREATE INDEX `idx_blocks_blocked` ON `blocks` (`blocked_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `blocks_blocker_id_blocked_id_unique` ON `blocks` (`blocker_id`,`blocked_id`);--> statement-breakpoint
+CREATE TABLE `devices` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_seen_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_devices_user` ON `devices` (`user_id`);--> statement-breakpoint
+CREATE TABLE `group_members` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`last_read_message_id` integer DEFAULT 0 NOT NULL,
+	`added_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_group_members_user` ON `group_members` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `group_members_group_id_user_id_unique` ON `group_members` (`group_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `group_message_keys` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`encrypted_key` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `group_messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `group_message_keys_message_id_user_id_unique` ON `group_message_keys` (`message_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `group_messages` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`group_id` integer NOT NULL,
+	`sender_id` integer NOT NULL,
+	`encrypted_content` text NOT NULL,
+	`iv` text NOT NULL,
+	`type` text DEFAULT 'text' NOT NULL,
+	`deleted` integer DEFAULT false NOT NULL,
+	`timestamp` integer DEFAULT (unixepoch()) NOT NULL,
+	`signature` text,
+	FOREIGN KEY (`group_id`) REFERENCES `groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`sender_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_group_messages_group` ON `group_messages` (`group_id`,`id`);--> statement-breakpoint
+CREATE TABLE `groups` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`created_by` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `message_envelopes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`device_id` integer NOT NULL,
+	`envelope` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_envelopes_device` ON `message_envelopes` (`device_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `message_envelopes_message_id_device_id_unique` ON `message_envelopes` (`message_id`,`device_id`);--> statement-breakpoint
+CREATE TABLE `messages` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`sender_id` integer NOT NULL,
+	`recipient_id` integer NOT NULL,
+	`encrypted_content` text NOT NULL,
+	`sender_encrypted_key` text NOT NULL,
+	`recipient_encrypted_key` text NOT NULL,
+	`iv` text NOT NULL,
+	`type` text DEFAULT 'text' NOT NULL,
+	`deleted` integer DEFAULT false NOT NULL,
+	`timestamp` integer DEFAULT (unixepoch()) NOT NULL,
+	`delivered_at` integer,
+	`read_at` integer,
+	`signature` text,
+	`encryption` text DEFAULT 'rsa' NOT NULL,
+	FOREIGN KEY (`sender_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recipient_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_messages_sender` ON `messages` (`sender_id`);--> statement-breakpoint
+CREATE INDEX `idx_messages_recipient` ON `messages` (`recipient_id`);--> statement-breakpoint
+CREATE INDEX `idx_messages_timestamp` ON `messages` (`timestamp`);--> statement-breakpoint
+CREATE INDEX `idx_messages_pair` ON `messages` (`sender_id`,`recipient_id`,`id`);--> statement-breakpoint
+CREATE TABLE `one_time_prekeys` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`device_id` integer NOT NULL,
+	`key_id` integer NOT NULL,
+	`public_key` text NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `one_time_prekeys_device_id_key_id_unique` ON `one_time_prekeys` (`device_id`,`key_id`);--> statement-breakpoint
+CREATE TABLE `prekey_bundles` (
+	`device_id` integer PRIMARY KEY NOT NULL,
+	`user_id` integer NOT NULL,
+	`identity_key` text NOT NULL,
+	`identity_signature` text NOT NULL,
+	`signed_prekey_id` integer NOT NULL,
+	`signed_prekey` text NOT NULL,
+	`signed_prekey_signature` text NOT NULL,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_prekey_bundles_user` ON `prekey_bundles` (`user_id`);--> statement-breakpoint
+CREATE TABLE `reactions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`emoji` text NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_reactions_message` ON `reactions` (`message_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `reactions_message_id_user_id_emoji_unique` ON `reactions` (`message_id`,`user_id`,`emoji`);--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password_hash` text NOT NULL,
+	`display_name` text NOT NULL,
+	`profile_picture` text,
+	`public_key` text NOT NULL,
+	`encrypted_private_key` text,
+	`signing_public_key` text,
+	`encrypted_signing_key` text,
+	`read_receipts` integer DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `hide_last_seen` integer DEFAULT false NOT NULL;
\ No newline at end of file
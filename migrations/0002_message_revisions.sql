@@ -0,0 +1,14 @@
+CREATE TABLE `message_revisions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`message_id` integer NOT NULL,
+	`encrypted_content` text NOT NULL,
+	`sender_encrypted_key` text NOT NULL,
+	`recipient_encrypted_key` text NOT NULL,
+	`iv` text NOT NULL,
+	`signature` text,
+	`edited_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idx_message_revisions_message` ON `message_revisions` (`message_id`,`id`);--> statement-breakpoint
+ALTER TABLE `messages` ADD `edited_at` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `messages` ADD `reply_to_id` integer REFERENCES messages(id);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `conversation_clears` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`peer_id` integer NOT NULL,
+	`cleared_up_to` integer NOT NULL,
+	`cleared_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`peer_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `conversation_clears_user_id_peer_id_unique` ON `conversation_clears` (`user_id`,`peer_id`);--> statement-breakpoint
+CREATE TABLE `hidden_messages` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`message_id` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `hidden_messages_user_id_message_id_unique` ON `hidden_messages` (`user_id`,`message_id`);
\ No newline at end of file
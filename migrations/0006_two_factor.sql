@@ -0,0 +1,18 @@
+CREATE TABLE `backup_codes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`code_hash` text NOT NULL,
+	`used_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `backup_codes_code_hash_unique` ON `backup_codes` (`code_hash`);--> statement-breakpoint
+CREATE INDEX `idx_backup_codes_user` ON `backup_codes` (`user_id`);--> statement-breakpoint
+CREATE TABLE `totp_credentials` (
+	`user_id` integer PRIMARY KEY NOT NULL,
+	`encrypted_secret` text NOT NULL,
+	`enabled` integer DEFAULT false NOT NULL,
+	`last_used_step` integer DEFAULT 0 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
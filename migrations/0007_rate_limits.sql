@@ -0,0 +1,14 @@
+CREATE TABLE `login_failures` (
+	`username` text PRIMARY KEY NOT NULL,
+	`failures` integer NOT NULL,
+	`locked_until` integer,
+	`last_failure_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `rate_limits` (
+	`key` text PRIMARY KEY NOT NULL,
+	`count` integer NOT NULL,
+	`reset_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_rate_limits_reset` ON `rate_limits` (`reset_at`);
\ No newline at end of file
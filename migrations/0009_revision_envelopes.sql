@@ -0,0 +1,12 @@
+CREATE TABLE `revision_envelopes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`revision_id` integer NOT NULL,
+	`device_id` integer NOT NULL,
+	`envelope` text NOT NULL,
+	FOREIGN KEY (`revision_id`) REFERENCES `message_revisions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`device_id`) REFERENCES `devices`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_revision_envelopes_device` ON `revision_envelopes` (`device_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `revision_envelopes_revision_id_device_id_unique` ON `revision_envelopes` (`revision_id`,`device_id`);--> statement-breakpoint
+ALTER TABLE `message_revisions` ADD `encryption` text DEFAULT 'rsa' NOT NULL;
\ No newline at end of file
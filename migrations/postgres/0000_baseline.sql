@@ -0,0 +1,155 @@
+CREATE TABLE "attachments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"uploader_id" integer NOT NULL,
+	"size" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "blocks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"blocker_id" integer NOT NULL,
+	"blocked_id" integer NOT NULL,
+	CONSTRAINT "blocks_blocker_id_blocked_id_unique" UNIQUE("blocker_id","blocked_id")
+);
+--> statement-breakpoint
+CREATE TABLE "devices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "group_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_read_message_id" integer DEFAULT 0 NOT NULL,
+	"added_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "group_members_group_id_user_id_unique" UNIQUE("group_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "group_message_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"encrypted_key" text NOT NULL,
+	CONSTRAINT "group_message_keys_message_id_user_id_unique" UNIQUE("message_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "group_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL,
+	"sender_id" integer NOT NULL,
+	"encrypted_content" text NOT NULL,
+	"iv" text NOT NULL,
+	"type" text DEFAULT 'text' NOT NULL,
+	"deleted" boolean DEFAULT false NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now() NOT NULL,
+	"signature" text
+);
+--> statement-breakpoint
+CREATE TABLE "groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "message_envelopes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"device_id" integer NOT NULL,
+	"envelope" text NOT NULL,
+	CONSTRAINT "message_envelopes_message_id_device_id_unique" UNIQUE("message_id","device_id")
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sender_id" integer NOT NULL,
+	"recipient_id" integer NOT NULL,
+	"encrypted_content" text NOT NULL,
+	"sender_encrypted_key" text NOT NULL,
+	"recipient_encrypted_key" text NOT NULL,
+	"iv" text NOT NULL,
+	"type" text DEFAULT 'text' NOT NULL,
+	"deleted" boolean DEFAULT false NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now() NOT NULL,
+	"delivered_at" timestamp with time zone,
+	"read_at" timestamp with time zone,
+	"signature" text,
+	"encryption" text DEFAULT 'rsa' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "one_time_prekeys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"device_id" integer NOT NULL,
+	"key_id" integer NOT NULL,
+	"public_key" text NOT NULL,
+	CONSTRAINT "one_time_prekeys_device_id_key_id_unique" UNIQUE("device_id","key_id")
+);
+--> statement-breakpoint
+CREATE TABLE "prekey_bundles" (
+	"device_id" integer PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"identity_key" text NOT NULL,
+	"identity_signature" text NOT NULL,
+	"signed_prekey_id" integer NOT NULL,
+	"signed_prekey" text NOT NULL,
+	"signed_prekey_signature" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"emoji" text NOT NULL,
+	CONSTRAINT "reactions_message_id_user_id_emoji_unique" UNIQUE("message_id","user_id","emoji")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"display_name" text NOT NULL,
+	"profile_picture" text,
+	"public_key" text NOT NULL,
+	"encrypted_private_key" text,
+	"signing_public_key" text,
+	"encrypted_signing_key" text,
+	"read_receipts" boolean DEFAULT true NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_uploader_id_users_id_fk" FOREIGN KEY ("uploader_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blocks" ADD CONSTRAINT "blocks_blocker_id_users_id_fk" FOREIGN KEY ("blocker_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "blocks" ADD CONSTRAINT "blocks_blocked_id_users_id_fk" FOREIGN KEY ("blocked_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "devices" ADD CONSTRAINT "devices_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_members" ADD CONSTRAINT "group_members_group_id_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."groups"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_members" ADD CONSTRAINT "group_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_message_keys" ADD CONSTRAINT "group_message_keys_message_id_group_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."group_messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_message_keys" ADD CONSTRAINT "group_message_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_messages" ADD CONSTRAINT "group_messages_group_id_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."groups"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "group_messages" ADD CONSTRAINT "group_messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "groups" ADD CONSTRAINT "groups_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_envelopes" ADD CONSTRAINT "message_envelopes_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_envelopes" ADD CONSTRAINT "message_envelopes_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_recipient_id_users_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "one_time_prekeys" ADD CONSTRAINT "one_time_prekeys_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prekey_bundles" ADD CONSTRAINT "prekey_bundles_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prekey_bundles" ADD CONSTRAINT "prekey_bundles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reactions" ADD CONSTRAINT "reactions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reactions" ADD CONSTRAINT "reactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_blocks_blocker" ON "blocks" USING btree ("blocker_id");--> statement-breakpoint
+CREATE INDEX "idx_blocks_blocked" ON "blocks" USING btree ("blocked_id");--> statement-breakpoint
+CREATE INDEX "idx_devices_user" ON "devices" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_group_members_user" ON "group_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_group_messages_group" ON "group_messages" USING btree ("group_id","id");--> statement-breakpoint
+CREATE INDEX "idx_envelopes_device" ON "message_envelopes" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_sender" ON "messages" USING btree ("sender_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_recipient" ON "messages" USING btree ("recipient_id");--> statement-breakpoint
+CREATE INDEX "idx_messages_timestamp" ON "messages" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "idx_messages_pair" ON "messages" USING btree ("sender_id","recipient_id","id");--> statement-breakpoint
+CREATE INDEX "idx_prekey_bundles_user" ON "prekey_bundles" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_reactions_message" ON "reactions" USING btree ("message_id");
\ No newline at end of file
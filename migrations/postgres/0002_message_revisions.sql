@@ -0,0 +1,14 @@
+CREATE TABLE "message_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"encrypted_content" text NOT NULL,
+	"sender_encrypted_key" text NOT NULL,
+	"recipient_encrypted_key" text NOT NULL,
+	"iv" text NOT NULL,
+	"signature" text,
+	"edited_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "edited_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "message_revisions" ADD CONSTRAINT "message_revisions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_message_revisions_message" ON "message_revisions" USING btree ("message_id","id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "conversation_clears" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"peer_id" integer NOT NULL,
+	"cleared_up_to" integer NOT NULL,
+	"cleared_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "conversation_clears_user_id_peer_id_unique" UNIQUE("user_id","peer_id")
+);
+--> statement-breakpoint
+CREATE TABLE "hidden_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"message_id" integer NOT NULL,
+	CONSTRAINT "hidden_messages_user_id_message_id_unique" UNIQUE("user_id","message_id")
+);
+--> statement-breakpoint
+ALTER TABLE "conversation_clears" ADD CONSTRAINT "conversation_clears_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_clears" ADD CONSTRAINT "conversation_clears_peer_id_users_id_fk" FOREIGN KEY ("peer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hidden_messages" ADD CONSTRAINT "hidden_messages_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hidden_messages" ADD CONSTRAINT "hidden_messages_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
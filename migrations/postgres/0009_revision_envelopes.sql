@@ -0,0 +1,12 @@
+CREATE TABLE "revision_envelopes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"revision_id" integer NOT NULL,
+	"device_id" integer NOT NULL,
+	"envelope" text NOT NULL,
+	CONSTRAINT "revision_envelopes_revision_id_device_id_unique" UNIQUE("revision_id","device_id")
+);
+--> statement-breakpoint
+ALTER TABLE "message_revisions" ADD COLUMN "encryption" text DEFAULT 'rsa' NOT NULL;--> statement-breakpoint
+ALTER TABLE "revision_envelopes" ADD CONSTRAINT "revision_envelopes_revision_id_message_revisions_id_fk" FOREIGN KEY ("revision_id") REFERENCES "public"."message_revisions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "revision_envelopes" ADD CONSTRAINT "revision_envelopes_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_revision_envelopes_device" ON "revision_envelopes" USING btree ("device_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Attachments are opaque AES-GCM ciphertext; the key only ever travels inside
+// the end-to-end encrypted message that references the blob.
+const ATTACHMENTS_DIR = path.resolve(process.env.ATTACHMENTS_DIR || "attachments");
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+fs.mkdirSync(ATTACHMENTS_DIR, { recursive: true });
+
+export async function writeAttachment(data: Buffer) {
+  const id = randomUUID();
+  await fs.promises.writeFile(path.join(ATTACHMENTS_DIR, id), data, { flag: "wx" });
+  return id;
+}
+
+export function attachmentPath(id: string) {
+  return ID_PATTERN.test(id) ? path.join(ATTACHMENTS_DIR, id) : null;
+}
+
+export async function removeAttachment(id: string) {
+  const file = attachmentPath(id);
+  if (file) await fs.promises.rm(file, { force: true });
+}
@@ -1,6 +1,10 @@
 import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
-import type { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import type { IncomingMessage } from "http";
+import type { Request, Response, NextFunction, CookieOptions } from "express";
+import { storage } from "./storage";
+import type { AuthTokens } from "@shared/schema";
 
 if (!process.env.SESSION_SECRET) {
   throw new Error("SESSION_SECRET environment variable is required");
@@ -11,53 +15,214 @@ const SALT_ROUNDS = 10;
 
 export interface AuthRequest extends Request {
   userId?: number;
+  deviceId?: number;
+  sessionId?: number;
 }
 
+interface TokenPayload {
+  userId: number;
+  deviceId: number;
+  sessionId: number;
+}
+
+const DEVICE_TOUCH_INTERVAL = 5 * 60 * 1000;
+const ACCESS_TOKEN_TTL = "15m";
+const ACCESS_TOKEN_MAX_AGE = 15 * 60 * 1000;
+// Sliding: every refresh pushes the expiry out again.
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+
 export const hashPassword = (password: string) => bcrypt.hash(password, SALT_ROUNDS);
 export const verifyPassword = (password: string, hash: string) => bcrypt.compare(password, hash);
-export const generateToken = (userId: number) => jwt.sign({ userId }, JWT_SECRET, { expiresIn: "30d" });
+const generateToken = (payload: TokenPayload) => jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+// Refresh tokens are random, so a fast hash is enough to keep them out of the database.
+const hashRefreshToken = (refreshToken: string) => crypto.createHash("sha256").update(refreshToken).digest("base64url");
+const newRefreshToken = () => crypto.randomBytes(32).toString("base64url");
+
+export async function startSession(userId: number, deviceId: number): Promise<AuthTokens> {
+  const refreshToken = newRefreshToken();
+  const session = await storage.createSession(userId, deviceId, hashRefreshToken(refreshToken), new Date(Date.now() + SESSION_TTL));
+  return { token: generateToken({ userId, deviceId, sessionId: session.id }), refreshToken };
+}
 
-export function verifyToken(token: string): { userId: number } | null {
+// Null once the session was revoked or expired, or the token was already used.
+export async function refreshSession(refreshToken: string): Promise<AuthTokens | null> {
+  const next = newRefreshToken();
+  const session = await storage.rotateSession(hashRefreshToken(refreshToken), hashRefreshToken(next), new Date(Date.now() + SESSION_TTL));
+  if (!session) return null;
+  return { token: generateToken({ userId: session.userId, deviceId: session.deviceId, sessionId: session.id }), refreshToken: next };
+}
+
+export function verifyToken(token: string): TokenPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as { userId: number };
+    return jwt.verify(token, JWT_SECRET) as TokenPayload;
   } catch {
     return null;
   }
 }
 
-export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader?.startsWith("Bearer ")) {
-    return res.status(401).json({ error: "Unauthorized" });
-  }
+// Browsers get the tokens as httpOnly cookies, out of reach of page scripts. The
+// CSRF cookie is readable on purpose: a request that rides on the cookies also has
+// to echo it in a header, which another site can't do. Bearer tokens skip both.
+export const ACCESS_COOKIE = "archer_access";
+const REFRESH_COOKIE = "archer_refresh";
+const CSRF_COOKIE = "archer_csrf";
+const CSRF_HEADER = "x-csrf-token";
+// API clients send `X-Auth-Mode: bearer` to get the tokens in the body instead.
+const AUTH_MODE_HEADER = "x-auth-mode";
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+const cookieOptions = (maxAge: number, path = "/"): CookieOptions => ({
+  sameSite: "strict",
+  secure: process.env.NODE_ENV === "production",
+  path,
+  maxAge,
+});
 
-  const payload = verifyToken(authHeader.substring(7));
-  if (!payload) {
-    return res.status(401).json({ error: "Invalid token" });
+export function parseCookies(req: IncomingMessage) {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index < 0) continue;
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // Not one of ours.
+    }
   }
+  return cookies;
+}
+
+export const wantsBearerTokens = (req: Request) => req.get(AUTH_MODE_HEADER)?.toLowerCase() === "bearer";
+
+// Returns the new CSRF token.
+export function setAuthCookies(res: Response, { token, refreshToken }: AuthTokens) {
+  const csrfToken = crypto.randomBytes(32).toString("base64url");
+  res.cookie(ACCESS_COOKIE, token, { ...cookieOptions(ACCESS_TOKEN_MAX_AGE), httpOnly: true });
+  res.cookie(REFRESH_COOKIE, refreshToken, { ...cookieOptions(SESSION_TTL, "/api/auth"), httpOnly: true });
+  res.cookie(CSRF_COOKIE, csrfToken, cookieOptions(SESSION_TTL));
+  return csrfToken;
+}
+
+export function clearAuthCookies(res: Response) {
+  res.clearCookie(ACCESS_COOKIE, { path: "/" });
+  res.clearCookie(REFRESH_COOKIE, { path: "/api/auth" });
+  res.clearCookie(CSRF_COOKIE, { path: "/" });
+}
+
+export const getRefreshCookie = (req: Request) => parseCookies(req)[REFRESH_COOKIE];
+
+export function hasValidCsrfToken(req: Request) {
+  const expected = parseCookies(req)[CSRF_COOKIE];
+  const actual = req.get(CSRF_HEADER);
+  return !!expected && !!actual && expected.length === actual.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(actual));
+}
+
+// Tokens from before sessions existed name none and are no longer accepted.
+export async function authenticateToken(token: string): Promise<TokenPayload | null> {
+  const payload = verifyToken(token);
+  if (!payload || payload.sessionId === undefined) return null;
+
+  const session = await storage.getSession(payload.sessionId);
+  if (!session || session.userId !== payload.userId || session.expiresAt.getTime() <= Date.now()) return null;
 
-  req.userId = payload.userId;
-  next();
+  const device = await storage.getDevice(session.deviceId);
+  if (!device) return null;
+  if (Date.now() - device.lastSeenAt.getTime() > DEVICE_TOUCH_INTERVAL) {
+    await storage.touchDevice(device.id);
+  }
+  return payload;
 }
 
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
+export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : undefined;
+  const token = bearer ?? parseCookies(req)[ACCESS_COOKIE];
 
-export function rateLimit(maxAttempts: number, windowMs: number) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const key = req.ip || 'unknown';
-    const now = Date.now();
-    const record = rateLimitMap.get(key);
+  // WWW-Authenticate tells clients the token is the problem, not e.g. a password.
+  if (!token) {
+    return res.status(401).set("WWW-Authenticate", "Bearer").json({ error: "Unauthorized" });
+  }
+  if (bearer === undefined && !SAFE_METHODS.has(req.method) && !hasValidCsrfToken(req)) {
+    return res.status(403).json({ error: "Invalid CSRF token" });
+  }
 
-    if (record && now < record.resetTime) {
-      if (record.count >= maxAttempts) {
-        return res.status(429).json({ error: "Too many attempts. Please try again later." });
-      }
-      record.count++;
-    } else {
-      rateLimitMap.set(key, { count: 1, resetTime: now + windowMs });
+  try {
+    const payload = await authenticateToken(token);
+    if (!payload) {
+      return res.status(401).set("WWW-Authenticate", 'Bearer error="invalid_token"').json({ error: "Invalid token" });
     }
 
+    req.userId = payload.userId;
+    req.deviceId = payload.deviceId;
+    req.sessionId = payload.sessionId;
     next();
-  };
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Internal server error" });
+  }
 }
+
+const RECOVERY_CHALLENGE_TTL = 5 * 60 * 1000;
+const recoveryChallenges = new Map<string, { userId: number; nonce: Buffer; expiresAt: number }>();
+
+// The nonce is encrypted to the account's RSA public key, so only a client that
+// decrypted `encryptedPrivateKey` with the recovery passphrase can answer it.
+export function createRecoveryChallenge(userId: number, publicKey: string) {
+  const now = Date.now();
+  recoveryChallenges.forEach((challenge, id) => {
+    if (challenge.expiresAt <= now) recoveryChallenges.delete(id);
+  });
+
+  const challengeId = crypto.randomUUID();
+  const nonce = crypto.randomBytes(32);
+  const encryptedChallenge = crypto.publicEncrypt(
+    {
+      key: crypto.createPublicKey({ key: Buffer.from(publicKey, "base64"), format: "der", type: "spki" }),
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    nonce
+  );
+
+  recoveryChallenges.set(challengeId, { userId, nonce, expiresAt: now + RECOVERY_CHALLENGE_TTL });
+  return { challengeId, encryptedChallenge: encryptedChallenge.toString("base64") };
+}
+
+export function verifyRecoveryChallenge(challengeId: string, userId: number, response: string) {
+  const challenge = recoveryChallenges.get(challengeId);
+  recoveryChallenges.delete(challengeId);
+  if (!challenge || challenge.userId !== userId || challenge.expiresAt <= Date.now()) return false;
+
+  const answer = Buffer.from(response, "base64");
+  return answer.length === challenge.nonce.length && crypto.timingSafeEqual(answer, challenge.nonce);
+}
+
+const LOGIN_CHALLENGE_TTL = 5 * 60 * 1000;
+const LOGIN_CHALLENGE_ATTEMPTS = 5;
+const loginChallenges = new Map<string, { userId: number; deviceName: unknown; attempts: number; expiresAt: number }>();
+
+// Issued instead of a session when the password is right but the account has 2FA.
+export function createLoginChallenge(userId: number, deviceName: unknown) {
+  const now = Date.now();
+  loginChallenges.forEach((challenge, id) => {
+    if (challenge.expiresAt <= now) loginChallenges.delete(id);
+  });
+
+  const challengeId = crypto.randomUUID();
+  loginChallenges.set(challengeId, { userId, deviceName, attempts: 0, expiresAt: now + LOGIN_CHALLENGE_TTL });
+  return challengeId;
+}
+
+// Every call uses up one of the challenge's attempts; null once they're gone or it expired.
+export function useLoginChallenge(challengeId: string) {
+  const challenge = loginChallenges.get(challengeId);
+  if (!challenge || challenge.expiresAt <= Date.now() || ++challenge.attempts > LOGIN_CHALLENGE_ATTEMPTS) {
+    loginChallenges.delete(challengeId);
+    return null;
+  }
+  return { userId: challenge.userId, deviceName: challenge.deviceName };
+}
+
+export const completeLoginChallenge = (challengeId: string) => loginChallenges.delete(challengeId);
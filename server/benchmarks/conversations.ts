@@ -0,0 +1,123 @@
+// Seeds a throwaway database with one busy user and times getConversations
+// against the per-message loop it replaced. Run with `npm run bench:conversations`;
+// PEERS, MESSAGES and RUNS override the defaults.
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { performance } from "perf_hooks";
+import { eq, or, desc } from "drizzle-orm";
+import { users, messages, blocks } from "@shared/schema";
+import { openSqlite } from "../db";
+import { SqliteStorage } from "../sqlite-storage";
+
+const PEERS = Number(process.env.PEERS || 200);
+const MESSAGES = Number(process.env.MESSAGES || 20000);
+const RUNS = Number(process.env.RUNS || 20);
+const BATCH_SIZE = 500;
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "archer-bench-"));
+  const { sqlite, db } = openSqlite(path.join(dir, "bench.db"));
+  const storage = new SqliteStorage({ sqlite, db });
+  await storage.migrate();
+
+  // The implementation before the aggregate query, kept here as the baseline.
+  async function legacyGetConversations(userId: number) {
+    const blockedIds = (await db.select({ id: blocks.blockedId }).from(blocks).where(eq(blocks.blockerId, userId))).map(b => b.id);
+    const msgs = await db.select().from(messages).where(or(eq(messages.senderId, userId), eq(messages.recipientId, userId))).orderBy(desc(messages.id));
+
+    const convMap = new Map<number, { userId: number; lastMessageId: number; unreadCount: number }>();
+    for (const msg of msgs) {
+      const otherId = msg.senderId === userId ? msg.recipientId : msg.senderId;
+      if (blockedIds.includes(otherId)) continue;
+
+      const existing = convMap.get(otherId);
+      if (existing) {
+        if (msg.recipientId === userId && !msg.readAt && !msg.deleted) existing.unreadCount++;
+        continue;
+      }
+
+      const other = await storage.getUser(otherId);
+      if (!other) continue;
+
+      convMap.set(otherId, {
+        userId: otherId,
+        lastMessageId: msg.id,
+        unreadCount: msg.recipientId === userId && !msg.readAt && !msg.deleted ? 1 : 0,
+      });
+    }
+    return Array.from(convMap.values());
+  }
+
+  function seed() {
+    const userRows = Array.from({ length: PEERS + 1 }, (_, i) => ({
+      username: `bench_${i}`,
+      passwordHash: "x",
+      displayName: `Bench ${i}`,
+      publicKey: "x",
+    }));
+    const ids = db.insert(users).values(userRows).returning({ id: users.id }).all().map(u => u.id);
+    const [me, ...peers] = ids;
+
+    const rows: (typeof messages.$inferInsert)[] = [];
+    for (let i = 0; i < MESSAGES; i++) {
+      const peer = peers[Math.floor(Math.random() * peers.length)];
+      const incoming = Math.random() < 0.5;
+      rows.push({
+        senderId: incoming ? peer : me,
+        recipientId: incoming ? me : peer,
+        encryptedContent: "x".repeat(64),
+        senderEncryptedKey: "x".repeat(344),
+        recipientEncryptedKey: "x".repeat(344),
+        iv: "x".repeat(16),
+        readAt: Math.random() < 0.8 ? new Date() : null,
+        deleted: Math.random() < 0.05,
+      });
+    }
+
+    sqlite.transaction(() => {
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        db.insert(messages).values(rows.slice(i, i + BATCH_SIZE)).run();
+      }
+      db.insert(blocks).values(peers.slice(0, 5).map(blockedId => ({ blockerId: me, blockedId }))).run();
+    })();
+    return me;
+  }
+
+  async function time(label: string, run: () => Promise<unknown>) {
+    await run();
+    const start = performance.now();
+    for (let i = 0; i < RUNS; i++) await run();
+    const average = (performance.now() - start) / RUNS;
+    console.log(`${label.padEnd(10)} ${average.toFixed(2)} ms/request`);
+    return average;
+  }
+
+  try {
+    const me = seed();
+    console.log(`Seeded ${MESSAGES} messages with ${PEERS} peers; averaging ${RUNS} runs\n`);
+
+    const before = await legacyGetConversations(me);
+    const after = await storage.getConversations(me);
+    const same =
+      before.length === after.length &&
+      before.every((c, i) =>
+        c.userId === after[i].userId &&
+        c.lastMessageId === after[i].lastMessage?.id &&
+        c.unreadCount === after[i].unreadCount
+      );
+    if (!same) throw new Error("Aggregate query disagrees with the baseline");
+
+    const legacy = await time("baseline", () => legacyGetConversations(me));
+    const aggregate = await time("aggregate", () => storage.getConversations(me));
+    console.log(`\n${(legacy / aggregate).toFixed(1)}x faster`);
+  } finally {
+    sqlite.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+// Checks for schema drift: changes to shared/schema.ts or server/pg-schema.ts
+// that have no migration yet, and a SQLite file whose tables differ from what
+// the migrations build.
+// Run with `npm run db:check`; exits non-zero when anything has drifted.
+import fs from "fs";
+import { createRequire } from "module";
+import path from "path";
+import Database from "better-sqlite3";
+import * as schema from "@shared/schema";
+import { MIGRATIONS_DIR, POSTGRES_MIGRATIONS_DIR, getAppliedVersions, readMigrations, runMigrations } from "./migrate";
+import * as pgSchema from "./pg-schema";
+
+// drizzle-kit's ESM build of its API can't load Node built-ins, so use the CommonJS one.
+const { generateSQLiteDrizzleJson, generateSQLiteMigration, generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+type Layout = Map<string, Map<string, string>>;
+
+// Tables with their columns and indexes, in a form two databases can be compared by.
+function describe(sqlite: Database.Database): Layout {
+  const layout: Layout = new Map();
+  const tables = sqlite
+    .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'`)
+    .all() as { name: string }[];
+
+  for (const { name } of tables) {
+    const entries = new Map<string, string>();
+    const columns = sqlite.prepare(`PRAGMA table_info(${name})`).all() as {
+      name: string; type: string; notnull: number; dflt_value: string | null; pk: number;
+    }[];
+    for (const c of columns) {
+      // Older databases spelled boolean defaults as 1/0 and left NOT NULL off
+      // integer primary keys, which can't be null anyway.
+      const fallback = c.dflt_value?.replace(/^true$/i, "1").replace(/^false$/i, "0") ?? "none";
+      const notNull = c.notnull || (c.pk && c.type.toLowerCase() === "integer") ? 1 : 0;
+      entries.set(`column ${c.name}`, `${c.type.toLowerCase()} notnull=${notNull} default=${fallback} pk=${c.pk}`);
+    }
+    const indexes = sqlite.prepare(`PRAGMA index_list(${name})`).all() as { name: string; unique: number }[];
+    for (const index of indexes) {
+      if (index.name.startsWith("sqlite_")) continue;
+      const indexColumns = (sqlite.prepare(`PRAGMA index_info(${index.name})`).all() as { name: string }[]).map(c => c.name);
+      entries.set(`index ${index.name}`, `unique=${index.unique} on ${indexColumns.join(",")}`);
+    }
+    layout.set(name, entries);
+  }
+  return layout;
+}
+
+// Extra tables and columns are only warnings: nothing reads them, and older
+// databases still carry a few that were dropped from the schema.
+function compare(expected: Layout, actual: Layout) {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  for (const [table, entries] of Array.from(expected)) {
+    const found = actual.get(table);
+    if (!found) {
+      problems.push(`missing table ${table}`);
+      continue;
+    }
+    for (const [key, value] of Array.from(entries)) {
+      if (!found.has(key)) problems.push(`${table}: missing ${key}`);
+      else if (found.get(key) !== value) problems.push(`${table}: ${key} is "${found.get(key)}", expected "${value}"`);
+    }
+    for (const key of Array.from(found.keys())) {
+      if (!entries.has(key)) warnings.push(`${table}: unexpected ${key}`);
+    }
+  }
+  for (const table of Array.from(actual.keys())) {
+    if (!expected.has(table)) warnings.push(`unexpected table ${table}`);
+  }
+  return { problems, warnings };
+}
+
+function latestSnapshot(dir: string) {
+  const snapshots = fs.readdirSync(path.join(dir, "meta")).filter(f => f.endsWith("_snapshot.json")).sort();
+  return JSON.parse(fs.readFileSync(path.join(dir, "meta", snapshots[snapshots.length - 1]), "utf8"));
+}
+
+async function checkSchema() {
+  const latest = latestSnapshot(MIGRATIONS_DIR);
+  return generateSQLiteMigration(latest, await generateSQLiteDrizzleJson(schema, latest.id));
+}
+
+async function checkPostgresSchema() {
+  const latest = latestSnapshot(POSTGRES_MIGRATIONS_DIR);
+  return generateMigration(latest, generateDrizzleJson(pgSchema, latest.id));
+}
+
+async function main() {
+  let drifted = false;
+
+  const pending = await checkSchema();
+  if (pending.length > 0) {
+    drifted = true;
+    console.log("shared/schema.ts has changes without a migration (run `npm run db:generate`):");
+    for (const statement of pending) console.log(`  ${statement}`);
+  } else {
+    console.log("Migrations match shared/schema.ts");
+  }
+
+  const pendingPostgres = await checkPostgresSchema();
+  if (pendingPostgres.length > 0) {
+    drifted = true;
+    console.log("server/pg-schema.ts has changes without a migration (run `DATABASE_URL=... npm run db:generate`):");
+    for (const statement of pendingPostgres) console.log(`  ${statement}`);
+  } else {
+    console.log("Postgres migrations match server/pg-schema.ts");
+  }
+
+  const file = process.env.DATABASE_FILE || "archer.db";
+  if (!fs.existsSync(file)) {
+    console.log(`${file} doesn't exist yet; it will be created on startup`);
+  } else {
+    const migrations = readMigrations();
+    const reference = new Database(":memory:");
+    runMigrations(reference, migrations);
+
+    const database = new Database(file, { readonly: true });
+    const applied = getAppliedVersions(database);
+    const unapplied = migrations.filter(m => !applied.includes(m.version));
+    const { problems, warnings } = compare(describe(reference), describe(database));
+    database.close();
+
+    if (unapplied.length > 0) {
+      console.log(`${file} has pending migrations, applied on the next startup: ${unapplied.map(m => m.name).join(", ")}`);
+    } else if (problems.length > 0) {
+      drifted = true;
+      console.log(`${file} differs from its migrations:`);
+      for (const problem of problems) console.log(`  ${problem}`);
+    } else {
+      console.log(`${file} matches its migrations`);
+    }
+    for (const warning of warnings) console.log(`  warning: ${warning}`);
+  }
+
+  process.exit(drifted ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
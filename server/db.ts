@@ -1,61 +1,30 @@
 import Database from "better-sqlite3";
 import { drizzle } from "drizzle-orm/better-sqlite3";
-import { users, messages, blocks, reactions } from "@shared/schema";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import pg from "pg";
+import ws from "ws";
 
-const sqlite = new Database("archer.db");
+// Opening is deferred to the storage backend that's picked, so a Postgres
+// deployment never creates an archer.db file.
+export function openSqlite(file = process.env.DATABASE_FILE || "archer.db") {
+  const sqlite = new Database(file);
+  return { sqlite, db: drizzle(sqlite) };
+}
 
-sqlite.exec(`
-  CREATE TABLE IF NOT EXISTS users (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    username TEXT NOT NULL UNIQUE,
-    password_hash TEXT NOT NULL,
-    display_name TEXT NOT NULL,
-    profile_picture TEXT,
-    public_key TEXT NOT NULL,
-    encrypted_private_key TEXT
-  );
+// Neon is reached through its WebSocket proxy, which serverless functions need.
+// Any other Postgres, such as a local one for the tests, gets a plain TCP pool.
+export function openPostgres(url: string): { pool: pg.Pool; db: PgDatabase<PgQueryResultHKT> } {
+  if (new URL(url).hostname.endsWith(".neon.tech")) {
+    neonConfig.webSocketConstructor = ws;
+    const pool = new Pool({ connectionString: url });
+    return { pool, db: drizzleNeon({ client: pool }) };
+  }
+  const pool = new pg.Pool({ connectionString: url });
+  return { pool, db: drizzlePg({ client: pool }) };
+}
 
-  CREATE TABLE IF NOT EXISTS messages (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    sender_id INTEGER NOT NULL,
-    recipient_id INTEGER NOT NULL,
-    encrypted_content TEXT NOT NULL,
-    sender_encrypted_key TEXT NOT NULL,
-    recipient_encrypted_key TEXT NOT NULL,
-    iv TEXT NOT NULL,
-    type TEXT NOT NULL DEFAULT 'text',
-    deleted INTEGER NOT NULL DEFAULT 0,
-    timestamp INTEGER NOT NULL DEFAULT (unixepoch()),
-    FOREIGN KEY (sender_id) REFERENCES users(id),
-    FOREIGN KEY (recipient_id) REFERENCES users(id)
-  );
-
-  CREATE TABLE IF NOT EXISTS blocks (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    blocker_id INTEGER NOT NULL,
-    blocked_id INTEGER NOT NULL,
-    FOREIGN KEY (blocker_id) REFERENCES users(id),
-    FOREIGN KEY (blocked_id) REFERENCES users(id),
-    UNIQUE(blocker_id, blocked_id)
-  );
-
-  CREATE TABLE IF NOT EXISTS reactions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    message_id INTEGER NOT NULL,
-    user_id INTEGER NOT NULL,
-    emoji TEXT NOT NULL,
-    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
-    FOREIGN KEY (user_id) REFERENCES users(id),
-    UNIQUE(message_id, user_id, emoji)
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_id);
-  CREATE INDEX IF NOT EXISTS idx_messages_recipient ON messages(recipient_id);
-  CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON messages(timestamp);
-  CREATE INDEX IF NOT EXISTS idx_blocks_blocker ON blocks(blocker_id);
-  CREATE INDEX IF NOT EXISTS idx_blocks_blocked ON blocks(blocked_id);
-  CREATE INDEX IF NOT EXISTS idx_reactions_message ON reactions(message_id);
-`);
-
-export const db = drizzle(sqlite);
-export { sqlite };
+export type SqliteConnection = ReturnType<typeof openSqlite>;
+export type PostgresConnection = ReturnType<typeof openPostgres>;
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { linkCodeFromDigest } from "@shared/device-link";
+import type { DeviceLinkApproval } from "@shared/schema";
+
+const LINK_REQUEST_TTL = 5 * 60 * 1000;
+
+interface LinkRequest {
+  userId: number;
+  deviceId: number;
+  deviceName: string;
+  publicKey: string;
+  expiresAt: number;
+  approval?: DeviceLinkApproval;
+}
+
+// Pending requests only live for a few minutes, so they are kept in memory and
+// dropped once the new device has collected its keys.
+const linkRequests = new Map<string, LinkRequest>();
+
+function getActive(code: string, userId: number) {
+  const request = linkRequests.get(code);
+  if (!request) return undefined;
+  if (request.expiresAt <= Date.now()) {
+    linkRequests.delete(code);
+    return undefined;
+  }
+  return request.userId === userId ? request : undefined;
+}
+
+export function createLinkRequest(userId: number, deviceId: number, deviceName: string, publicKey: string) {
+  const now = Date.now();
+  linkRequests.forEach((request, code) => {
+    if (request.expiresAt <= now || request.deviceId === deviceId) linkRequests.delete(code);
+  });
+
+  const digest = crypto.createHash("sha256").update(Buffer.from(publicKey, "base64")).digest();
+  const code = linkCodeFromDigest(new Uint8Array(digest));
+  const expiresAt = now + LINK_REQUEST_TTL;
+  linkRequests.set(code, { userId, deviceId, deviceName, publicKey, expiresAt });
+  return { code, expiresAt: new Date(expiresAt) };
+}
+
+export function getLinkRequest(code: string, userId: number) {
+  const request = getActive(code, userId);
+  if (!request || request.approval) return undefined;
+  return { deviceName: request.deviceName, publicKey: request.publicKey };
+}
+
+export function approveLinkRequest(code: string, userId: number, approverDeviceId: number | undefined, approval: DeviceLinkApproval) {
+  const request = getActive(code, userId);
+  if (!request || request.approval || request.deviceId === approverDeviceId) return false;
+  request.approval = approval;
+  return true;
+}
+
+export function takeLinkApproval(code: string, userId: number, deviceId: number | undefined) {
+  const request = getActive(code, userId);
+  if (!request || request.deviceId !== deviceId) return null;
+  if (!request.approval) return { approval: null };
+  linkRequests.delete(code);
+  return { approval: request.approval };
+}
+
+export function cancelLinkRequest(code: string, userId: number, deviceId: number | undefined) {
+  const request = getActive(code, userId);
+  if (request && request.deviceId === deviceId) linkRequests.delete(code);
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -16,6 +17,22 @@ app.use(express.json({
 }));
 app.use(express.urlencoded({ extended: false }));
 
+// Response fields that must never reach the log: session and CSRF tokens, 2FA
+// challenge ids, the TOTP secret (also inside otpauthUrl), freshly issued backup
+// codes, and the escrowed private and signing keys.
+const REDACTED_FIELDS = new Set([
+  "token", "refreshToken", "csrfToken", "challengeId", "secret", "otpauthUrl", "backupCodes",
+  "encryptedPrivateKey", "encryptedSigningKey",
+]);
+
+function redact(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(redact);
+  if (!body || typeof body !== "object") return body;
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [key, REDACTED_FIELDS.has(key) ? "[redacted]" : redact(value)]),
+  );
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -32,7 +49,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(redact(capturedJsonResponse))}`;
       }
 
       if (logLine.length > 80) {
@@ -47,6 +64,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  for (const name of await storage.migrate()) {
+    log(`applied migration ${name}`);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,148 @@
+import fs from "fs";
+import path from "path";
+import type Database from "better-sqlite3";
+import type { Pool } from "pg";
+
+// Generated by `npm run db:generate` from shared/schema.ts; never edit an
+// applied migration, add a new one instead.
+export const MIGRATIONS_DIR = path.resolve(import.meta.dirname, "..", "migrations");
+export const POSTGRES_MIGRATIONS_DIR = path.join(MIGRATIONS_DIR, "postgres");
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+interface Journal {
+  entries: { idx: number; tag: string }[];
+}
+
+// Columns added by hand before there were migrations. Databases created back
+// then may lack any of them, so they are filled in when the baseline is adopted.
+const LEGACY_COLUMNS: [table: string, column: string, definition: string][] = [
+  ["users", "read_receipts", "INTEGER NOT NULL DEFAULT 1"],
+  ["messages", "delivered_at", "INTEGER"],
+  ["messages", "read_at", "INTEGER"],
+  ["users", "signing_public_key", "TEXT"],
+  ["users", "encrypted_signing_key", "TEXT"],
+  ["messages", "signature", "TEXT"],
+  ["group_messages", "signature", "TEXT"],
+  ["messages", "encryption", "TEXT NOT NULL DEFAULT 'rsa'"],
+];
+
+export function readMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const journal: Journal = JSON.parse(fs.readFileSync(path.join(dir, "meta", "_journal.json"), "utf8"));
+  return journal.entries
+    .sort((a, b) => a.idx - b.idx)
+    .map(entry => ({
+      version: entry.idx,
+      name: entry.tag,
+      statements: fs
+        .readFileSync(path.join(dir, `${entry.tag}.sql`), "utf8")
+        .split("--> statement-breakpoint")
+        .map(s => s.trim())
+        .filter(Boolean),
+    }));
+}
+
+export function getAppliedVersions(sqlite: Database.Database): number[] {
+  const table = sqlite.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`).get();
+  if (!table) return [];
+  return (sqlite.prepare(`SELECT version FROM schema_migrations ORDER BY version`).all() as { version: number }[]).map(r => r.version);
+}
+
+function tableExists(sqlite: Database.Database, name: string) {
+  return !!sqlite.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name);
+}
+
+// Brings a database from the CREATE TABLE IF NOT EXISTS days up to the baseline
+// without touching its data.
+function adoptBaseline(sqlite: Database.Database, baseline: Migration) {
+  for (const statement of baseline.statements) {
+    sqlite.exec(statement.replace(/^CREATE (UNIQUE )?(TABLE|INDEX) /, "CREATE $1$2 IF NOT EXISTS "));
+  }
+  for (const [table, column, definition] of LEGACY_COLUMNS) {
+    const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
+
+// Applies every migration the database hasn't seen yet, each in its own
+// transaction, records it in schema_migrations and returns the names applied.
+export function runMigrations(sqlite: Database.Database, migrations = readMigrations()) {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+
+  const applied = new Set(getAppliedVersions(sqlite));
+  const unknown = Array.from(applied).filter(version => !migrations.some(m => m.version === version));
+  if (unknown.length > 0) {
+    throw new Error(`Database has migrations this build doesn't know about: ${unknown.join(", ")}`);
+  }
+
+  const record = sqlite.prepare(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`);
+  const isLegacy = applied.size === 0 && tableExists(sqlite, "users");
+  const ran: string[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+    sqlite.transaction(() => {
+      if (isLegacy && migration.version === 0) {
+        adoptBaseline(sqlite, migration);
+      } else {
+        for (const statement of migration.statements) sqlite.exec(statement);
+      }
+      record.run(migration.version, migration.name);
+    })();
+    ran.push(migration.name);
+  }
+  return ran;
+}
+
+// The same for Postgres. Every instance runs this on a cold start, so each
+// migration takes an advisory lock and checks again whether it still has to run.
+export async function runPostgresMigrations(pool: Pool, migrations = readMigrations(POSTGRES_MIGRATIONS_DIR)) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version integer PRIMARY KEY,
+      name text NOT NULL,
+      applied_at timestamp with time zone NOT NULL DEFAULT now()
+    )
+  `);
+
+  const { rows } = await pool.query<{ version: number }>(`SELECT version FROM schema_migrations`);
+  const unknown = rows.map(r => r.version).filter(version => !migrations.some(m => m.version === version));
+  if (unknown.length > 0) {
+    throw new Error(`Database has migrations this build doesn't know about: ${unknown.join(", ")}`);
+  }
+
+  const ran: string[] = [];
+  for (const migration of migrations) {
+    if (rows.some(r => r.version === migration.version)) continue;
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('schema_migrations'))`);
+      const done = await client.query(`SELECT 1 FROM schema_migrations WHERE version = $1`, [migration.version]);
+      if (done.rowCount === 0) {
+        for (const statement of migration.statements) await client.query(statement);
+        await client.query(`INSERT INTO schema_migrations (version, name) VALUES ($1, $2)`, [migration.version, migration.name]);
+        ran.push(migration.name);
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  return ran;
+}
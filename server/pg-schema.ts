@@ -0,0 +1,242 @@
+import { pgTable, serial, integer, text, boolean, timestamp, index, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
+
+// The Postgres twin of the tables in shared/schema.ts, used when DATABASE_URL is
+// set. Column names and row types match, so both backends return the shared types.
+// Any change to one schema needs the same change here and a migration for each.
+
+const timestampNow = (name: string) => timestamp(name, { withTimezone: true }).notNull().defaultNow();
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  displayName: text("display_name").notNull(),
+  profilePicture: text("profile_picture"),
+  publicKey: text("public_key").notNull(),
+  encryptedPrivateKey: text("encrypted_private_key"),
+  signingPublicKey: text("signing_public_key"),
+  encryptedSigningKey: text("encrypted_signing_key"),
+  readReceipts: boolean("read_receipts").notNull().default(true),
+  hideLastSeen: boolean("hide_last_seen").notNull().default(false),
+  deletedAt: timestamp("deleted_at", { withTimezone: true }),
+});
+
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  recipientId: integer("recipient_id").notNull().references(() => users.id),
+  encryptedContent: text("encrypted_content").notNull(),
+  senderEncryptedKey: text("sender_encrypted_key").notNull(),
+  recipientEncryptedKey: text("recipient_encrypted_key").notNull(),
+  iv: text("iv").notNull(),
+  type: text("type", { enum: ["text", "image"] }).notNull().default("text"),
+  deleted: boolean("deleted").notNull().default(false),
+  timestamp: timestampNow("timestamp"),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  readAt: timestamp("read_at", { withTimezone: true }),
+  signature: text("signature"),
+  encryption: text("encryption", { enum: ["rsa", "ratchet"] }).notNull().default("rsa"),
+  editedAt: timestamp("edited_at", { withTimezone: true }),
+  replyToId: integer("reply_to_id").references((): AnyPgColumn => messages.id),
+}, (table) => [
+  index("idx_messages_sender").on(table.senderId),
+  index("idx_messages_recipient").on(table.recipientId),
+  index("idx_messages_timestamp").on(table.timestamp),
+  index("idx_messages_pair").on(table.senderId, table.recipientId, table.id),
+]);
+
+export const messageRevisions = pgTable("message_revisions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  encryptedContent: text("encrypted_content").notNull(),
+  senderEncryptedKey: text("sender_encrypted_key").notNull(),
+  recipientEncryptedKey: text("recipient_encrypted_key").notNull(),
+  iv: text("iv").notNull(),
+  signature: text("signature"),
+  encryption: text("encryption", { enum: ["rsa", "ratchet"] }).notNull().default("rsa"),
+  editedAt: timestampNow("edited_at"),
+}, (table) => [
+  index("idx_message_revisions_message").on(table.messageId, table.id),
+]);
+
+export const hiddenMessages = pgTable("hidden_messages", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+}, (table) => [
+  unique().on(table.userId, table.messageId),
+]);
+
+export const conversationClears = pgTable("conversation_clears", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  peerId: integer("peer_id").notNull().references(() => users.id),
+  clearedUpTo: integer("cleared_up_to").notNull(),
+  clearedAt: timestampNow("cleared_at"),
+}, (table) => [
+  unique().on(table.userId, table.peerId),
+]);
+
+export const blocks = pgTable("blocks", {
+  id: serial("id").primaryKey(),
+  blockerId: integer("blocker_id").notNull().references(() => users.id),
+  blockedId: integer("blocked_id").notNull().references(() => users.id),
+}, (table) => [
+  unique().on(table.blockerId, table.blockedId),
+  index("idx_blocks_blocker").on(table.blockerId),
+  index("idx_blocks_blocked").on(table.blockedId),
+]);
+
+export const reactions = pgTable("reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  emoji: text("emoji").notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.userId, table.emoji),
+  index("idx_reactions_message").on(table.messageId),
+]);
+
+export const devices = pgTable("devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  createdAt: timestampNow("created_at"),
+  lastSeenAt: timestampNow("last_seen_at"),
+}, (table) => [
+  index("idx_devices_user").on(table.userId),
+]);
+
+export const totpCredentials = pgTable("totp_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  encryptedSecret: text("encrypted_secret").notNull(),
+  enabled: boolean("enabled").notNull().default(false),
+  lastUsedStep: integer("last_used_step").notNull().default(0),
+  createdAt: timestampNow("created_at"),
+});
+
+export const backupCodes = pgTable("backup_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull().unique(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+}, (table) => [
+  index("idx_backup_codes_user").on(table.userId),
+]);
+
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at", { withTimezone: true }).notNull(),
+}, (table) => [
+  index("idx_rate_limits_reset").on(table.resetAt),
+]);
+
+export const loginFailures = pgTable("login_failures", {
+  username: text("username").primaryKey(),
+  failures: integer("failures").notNull(),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }),
+  lastFailureAt: timestamp("last_failure_at", { withTimezone: true }).notNull(),
+});
+
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  deviceId: integer("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  createdAt: timestampNow("created_at"),
+  lastUsedAt: timestampNow("last_used_at"),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => [
+  index("idx_sessions_user").on(table.userId),
+  index("idx_sessions_device").on(table.deviceId),
+]);
+
+export const prekeyBundles = pgTable("prekey_bundles", {
+  deviceId: integer("device_id").primaryKey().references(() => devices.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  identityKey: text("identity_key").notNull(),
+  identitySignature: text("identity_signature").notNull(),
+  signedPrekeyId: integer("signed_prekey_id").notNull(),
+  signedPrekey: text("signed_prekey").notNull(),
+  signedPrekeySignature: text("signed_prekey_signature").notNull(),
+}, (table) => [
+  index("idx_prekey_bundles_user").on(table.userId),
+]);
+
+export const oneTimePrekeys = pgTable("one_time_prekeys", {
+  id: serial("id").primaryKey(),
+  deviceId: integer("device_id").notNull().references(() => devices.id),
+  keyId: integer("key_id").notNull(),
+  publicKey: text("public_key").notNull(),
+}, (table) => [
+  unique().on(table.deviceId, table.keyId),
+]);
+
+export const messageEnvelopes = pgTable("message_envelopes", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  deviceId: integer("device_id").notNull().references(() => devices.id),
+  envelope: text("envelope").notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.deviceId),
+  index("idx_envelopes_device").on(table.deviceId),
+]);
+
+export const revisionEnvelopes = pgTable("revision_envelopes", {
+  id: serial("id").primaryKey(),
+  revisionId: integer("revision_id").notNull().references(() => messageRevisions.id, { onDelete: "cascade" }),
+  deviceId: integer("device_id").notNull().references(() => devices.id),
+  envelope: text("envelope").notNull(),
+}, (table) => [
+  unique().on(table.revisionId, table.deviceId),
+  index("idx_revision_envelopes_device").on(table.deviceId),
+]);
+
+export const attachments = pgTable("attachments", {
+  id: text("id").primaryKey(),
+  uploaderId: integer("uploader_id").notNull().references(() => users.id),
+  size: integer("size").notNull(),
+  createdAt: timestampNow("created_at"),
+});
+
+export const groups = pgTable("groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestampNow("created_at"),
+});
+
+export const groupMembers = pgTable("group_members", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  lastReadMessageId: integer("last_read_message_id").notNull().default(0),
+  addedAt: timestampNow("added_at"),
+}, (table) => [
+  unique().on(table.groupId, table.userId),
+  index("idx_group_members_user").on(table.userId),
+]);
+
+export const groupMessages = pgTable("group_messages", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  encryptedContent: text("encrypted_content").notNull(),
+  iv: text("iv").notNull(),
+  type: text("type", { enum: ["text", "image"] }).notNull().default("text"),
+  deleted: boolean("deleted").notNull().default(false),
+  timestamp: timestampNow("timestamp"),
+  signature: text("signature"),
+}, (table) => [
+  index("idx_group_messages_group").on(table.groupId, table.id),
+]);
+
+export const groupMessageKeys = pgTable("group_message_keys", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => groupMessages.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  encryptedKey: text("encrypted_key").notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.userId),
+]);
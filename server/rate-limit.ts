@@ -0,0 +1,92 @@
+import type { Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { AuthRequest } from "./auth";
+
+// What a limiter counts by. Each key gets its own `max`, so one address can't
+// use up someone else's attempts and many addresses can't gang up on one account.
+// "user" only works behind authMiddleware; "username" reads it from the body.
+type LimitKey = "ip" | "user" | "username";
+
+interface RateLimitOptions {
+  // Counters are per bucket, so e.g. registering doesn't use up login attempts.
+  bucket: string;
+  max: number;
+  windowMs: number;
+  keys: LimitKey[];
+}
+
+// Progressive lockout: from the 5th failed sign-in for a username, each failure
+// locks it for twice as long as the last, up to an hour. Failures are forgotten
+// after a day without any, or on a successful sign-in.
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE = 60 * 1000;
+const LOCKOUT_MAX = 60 * 60 * 1000;
+const FAILURE_MEMORY = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL = 10 * 60 * 1000;
+
+let lastPrunedAt = 0;
+
+const normalizeUsername = (username: string) => username.toLowerCase();
+
+function limitKeys(req: AuthRequest, keys: LimitKey[]) {
+  return keys.flatMap((kind) => {
+    const value =
+      kind === "ip" ? req.ip || "unknown"
+      : kind === "user" ? req.userId
+      : typeof req.body?.username === "string" ? normalizeUsername(req.body.username)
+      : undefined;
+    return value === undefined ? [] : [`${kind}:${value}`];
+  });
+}
+
+function describeWait(seconds: number) {
+  if (seconds < 60) return `${seconds} ${seconds === 1 ? "second" : "seconds"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
+
+export function sendTooManyRequests(res: Response, retryAt: Date, reason = "Too many attempts") {
+  const seconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  res.status(429).set("Retry-After", String(seconds)).json({
+    error: `${reason}. Please try again in ${describeWait(seconds)}.`,
+    retryAfter: seconds,
+  });
+}
+
+export function rateLimit({ bucket, max, windowMs, keys }: RateLimitOptions) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const now = Date.now();
+      if (now - lastPrunedAt > PRUNE_INTERVAL) {
+        lastPrunedAt = now;
+        storage.pruneRateLimits(new Date(now - FAILURE_MEMORY)).catch((error) => console.error(error));
+      }
+
+      for (const key of limitKeys(req, keys)) {
+        const { count, resetAt } = await storage.hitRateLimit(`${bucket}:${key}`, windowMs);
+        if (count > max) return sendTooManyRequests(res, resetAt);
+      }
+      next();
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+}
+
+// When the username may try to sign in again, or null if it isn't locked.
+export async function getLoginLockout(username: string) {
+  const failure = await storage.getLoginFailure(normalizeUsername(username));
+  return failure?.lockedUntil && failure.lockedUntil > new Date() ? failure.lockedUntil : null;
+}
+
+// Counted for unknown usernames too, so the lockout doesn't reveal which exist.
+export async function recordLoginFailure(username: string) {
+  const key = normalizeUsername(username);
+  const failures = await storage.recordLoginFailure(key, new Date(Date.now() - FAILURE_MEMORY));
+  if (failures < LOCKOUT_THRESHOLD) return;
+  const duration = Math.min(LOCKOUT_BASE * 2 ** (failures - LOCKOUT_THRESHOLD), LOCKOUT_MAX);
+  await storage.lockLogin(key, new Date(Date.now() + duration));
+}
+
+export const clearLoginFailures = (username: string) => storage.clearLoginFailures(normalizeUsername(username));
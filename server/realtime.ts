@@ -0,0 +1,113 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { authenticateToken, parseCookies, ACCESS_COOKIE } from "./auth";
+import type { RealtimeEvent } from "@shared/schema";
+
+const REALTIME_PATH = "/ws";
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+const wss = new WebSocketServer({ noServer: true });
+const clients = new Map<number, Set<WebSocket>>();
+const alive = new WeakSet<WebSocket>();
+const socketDevices = new WeakMap<WebSocket, number>();
+
+type PresenceListener = (userId: number, online: boolean, deviceId: number | undefined) => void;
+let presenceListener: PresenceListener | null = null;
+
+function addClient(userId: number, socket: WebSocket) {
+  const sockets = clients.get(userId) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  clients.set(userId, sockets);
+  if (sockets.size === 1) presenceListener?.(userId, true, socketDevices.get(socket));
+}
+
+function removeClient(userId: number, socket: WebSocket) {
+  const sockets = clients.get(userId);
+  if (!sockets) return;
+  sockets.delete(socket);
+  if (sockets.size === 0) {
+    clients.delete(userId);
+    presenceListener?.(userId, false, socketDevices.get(socket));
+  }
+}
+
+function isSameOrigin(req: IncomingMessage) {
+  try {
+    return new URL(req.headers.origin ?? "").host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+  const url = new URL(req.url || "/", "http://localhost");
+  if (url.pathname !== REALTIME_PATH) return;
+
+  // Browsers connect with the session cookie, which only counts from our own origin
+  // since a WebSocket handshake isn't bound by CORS; API clients pass ?token=.
+  const cookie = parseCookies(req)[ACCESS_COOKIE];
+  const token = url.searchParams.get("token") || (isSameOrigin(req) ? cookie : undefined);
+  const payload = await authenticateToken(token || "").catch(() => null);
+  if (!payload) {
+    socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    if (payload.deviceId !== undefined) socketDevices.set(ws, payload.deviceId);
+    addClient(payload.userId, ws);
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+    ws.on("close", () => removeClient(payload.userId, ws));
+    ws.on("error", () => ws.terminate());
+  });
+}
+
+export function setupRealtime(server: Server) {
+  server.on("upgrade", handleUpgrade);
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+export function publish(userIds: number[], event: RealtimeEvent) {
+  const data = JSON.stringify(event);
+  for (const userId of Array.from(new Set(userIds))) {
+    clients.get(userId)?.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+    });
+  }
+}
+
+// Like publish, but builds the event per socket for payloads that differ by device.
+export function publishPerDevice(userIds: number[], build: (deviceId: number | undefined) => RealtimeEvent) {
+  for (const userId of Array.from(new Set(userIds))) {
+    clients.get(userId)?.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(build(socketDevices.get(ws))));
+    });
+  }
+}
+
+// Called when a user's first connection opens and when their last one closes.
+export function onPresenceChange(listener: PresenceListener) {
+  presenceListener = listener;
+}
+
+export function isConnected(userId: number) {
+  return clients.has(userId);
+}
+
+export function disconnectDevice(userId: number, deviceId: number) {
+  clients.get(userId)?.forEach((ws) => {
+    if (socketDevices.get(ws) === deviceId) ws.close(4001, "Device revoked");
+  });
+}
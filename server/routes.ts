@@ -1,9 +1,36 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { storage } from "./storage";
-import { hashPassword, verifyPassword, generateToken, authMiddleware, rateLimit, type AuthRequest } from "./auth";
-import { insertUserSchema, insertMessageSchema, insertBlockSchema } from "@shared/schema";
+import { storage, type MessagePage } from "./storage";
+import { setupRealtime, publish, publishPerDevice, isConnected, disconnectDevice, onPresenceChange } from "./realtime";
+import { writeAttachment, attachmentPath, removeAttachment } from "./attachments";
+import { generateTotpSecret, otpauthUrl, matchTotpStep, encryptTotpSecret, decryptTotpSecret, generateBackupCodes, hashBackupCode } from "./totp";
+import { rateLimit, sendTooManyRequests, getLoginLockout, recordLoginFailure, clearLoginFailures } from "./rate-limit";
+import { createLinkRequest, getLinkRequest, approveLinkRequest, takeLinkApproval, cancelLinkRequest } from "./device-links";
+import {
+  hashPassword,
+  verifyPassword,
+  startSession,
+  refreshSession,
+  setAuthCookies,
+  wantsBearerTokens,
+  clearAuthCookies,
+  getRefreshCookie,
+  hasValidCsrfToken,
+  authMiddleware,
+  createRecoveryChallenge,
+  verifyRecoveryChallenge,
+  createLoginChallenge,
+  useLoginChallenge,
+  completeLoginChallenge,
+  type AuthRequest,
+} from "./auth";
+import {
+  insertUserSchema, insertMessageSchema, insertBlockSchema, insertReactionSchema, privacySettingsSchema, deviceLinkApprovalSchema, signingKeySchema,
+  createGroupSchema, renameGroupSchema, addGroupMembersSchema, insertGroupMessageSchema, MAX_GROUP_MEMBERS,
+  prekeyBundleSchema, claimPrekeysSchema, editMessageSchema, deleteScopeSchema, totpCodeSchema,
+  type AuthTokens, type CookieSession, type Message, type Reaction, type GroupWithMembers, type Presence, type TwoFactorChallenge, type TwoFactorStatus, type TotpSetup,
+} from "@shared/schema";
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -14,8 +41,173 @@ const upload = multer({
   },
 });
 
-const registerLimit = rateLimit(10, 15 * 60 * 1000);
-const loginLimit = rateLimit(15, 5 * 60 * 1000);
+// Encrypted images are capped at 5MB of plaintext; AES-GCM adds a 16-byte tag.
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024 + 16;
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES },
+});
+
+const registerLimit = rateLimit({ bucket: "register", max: 10, windowMs: 15 * 60 * 1000, keys: ["ip"] });
+const loginLimit = rateLimit({ bucket: "login", max: 15, windowMs: 5 * 60 * 1000, keys: ["ip"] });
+const twoFactorLimit = rateLimit({ bucket: "login-2fa", max: 15, windowMs: 5 * 60 * 1000, keys: ["ip"] });
+const recoveryLimit = rateLimit({ bucket: "recover", max: 10, windowMs: 15 * 60 * 1000, keys: ["ip", "username"] });
+// Every route that checks the password of a signed-in user shares this one.
+const passwordCheckLimit = rateLimit({ bucket: "password-check", max: 10, windowMs: 15 * 60 * 1000, keys: ["user"] });
+const sendLimit = rateLimit({ bucket: "send", max: 60, windowMs: 60 * 1000, keys: ["user"] });
+const searchLimit = rateLimit({ bucket: "search", max: 30, windowMs: 60 * 1000, keys: ["user"] });
+
+async function getParticipantMessage(messageId: number, userId: number) {
+  const message = await storage.getMessage(messageId);
+  if (!message || (message.senderId !== userId && message.recipientId !== userId)) return undefined;
+  return message;
+}
+
+function publishReactions(message: Message, reactions: Reaction[]) {
+  publish([message.senderId, message.recipientId], {
+    type: "reaction:changed",
+    messageId: message.id,
+    senderId: message.senderId,
+    recipientId: message.recipientId,
+    reactions,
+  });
+}
+
+// Deleting for everyone reaches both sides; hiding only the user's own devices.
+function publishDeleted(senderId: number, deleted: Message[]) {
+  for (const recipientId of Array.from(new Set(deleted.map(m => m.recipientId)))) {
+    publish([senderId, recipientId], {
+      type: "message:deleted",
+      messageIds: deleted.filter(m => m.recipientId === recipientId).map(m => m.id),
+      senderId,
+      recipientId,
+    });
+  }
+}
+
+function publishHidden(userId: number, hidden: Message[]) {
+  const peerOf = (m: Message) => (m.senderId === userId ? m.recipientId : m.senderId);
+  for (const peerId of Array.from(new Set(hidden.map(peerOf)))) {
+    publish([userId], { type: "message:hidden", peerId, messageIds: hidden.filter(m => peerOf(m) === peerId).map(m => m.id) });
+  }
+}
+
+async function getMemberGroup(groupId: number, userId: number) {
+  if (!(await storage.isGroupMember(groupId, userId))) return undefined;
+  return storage.getGroupWithMembers(groupId);
+}
+
+async function findInviteError(userId: number, inviteeIds: number[]) {
+  for (const inviteeId of inviteeIds) {
+    const invitee = await storage.getUser(inviteeId);
+    if (!invitee || invitee.deletedAt) return "User not found";
+    if (await storage.isBlocked(inviteeId, userId)) return "Cannot add this user";
+  }
+  return null;
+}
+
+function publishGroup(group: GroupWithMembers, removedIds: number[] = []) {
+  publish(group.members.map(m => m.id), { type: "group:updated", group });
+  if (removedIds.length > 0) publish(removedIds, { type: "group:removed", groupId: group.id });
+}
+
+// A ratchet message needs an envelope for every device of both parties that has
+// published prekeys, except the one sending it, and no others.
+async function coversAllDevices(senderId: number, senderDeviceId: number, recipientId: number, envelopeDeviceIds: number[]) {
+  const recipientDeviceIds = await storage.getPrekeyDeviceIds(recipientId);
+  const senderDeviceIds = await storage.getPrekeyDeviceIds(senderId);
+  const expected = new Set(recipientDeviceIds.concat(senderDeviceIds).filter(id => id !== senderDeviceId));
+  return recipientDeviceIds.length > 0 &&
+    new Set(envelopeDeviceIds).size === envelopeDeviceIds.length &&
+    envelopeDeviceIds.length === expected.size &&
+    envelopeDeviceIds.every(id => expected.has(id));
+}
+
+const MAX_PAGE_SIZE = 100;
+
+// Once an account has a signing key everything it sends must be signed, since
+// clients treat a missing signature from it as forged.
+async function isMissingSignature(userId: number, signature: string | undefined) {
+  if (signature) return false;
+  return !!(await storage.getUser(userId))?.signingPublicKey;
+}
+
+function parseMessagePage(query: Record<string, unknown>): MessagePage | null {
+  const page: MessagePage = {};
+  for (const key of ["before", "after", "limit"] as const) {
+    if (query[key] === undefined) continue;
+    const value = Number(query[key]);
+    if (!Number.isInteger(value) || value < 1) return null;
+    page[key] = key === "limit" ? Math.min(value, MAX_PAGE_SIZE) : value;
+  }
+  return page;
+}
+
+// Hands the tokens to API clients that asked for bearer mode. Browsers get them
+// as httpOnly cookies only, so a script on the page can never read them.
+async function startDeviceSession(req: Request, res: Response, userId: number, deviceName: unknown): Promise<AuthTokens | CookieSession> {
+  const name = typeof deviceName === "string" && deviceName.trim() ? deviceName.trim().slice(0, 64) : "Unknown device";
+  const device = await storage.createDevice(userId, name);
+  const tokens = await startSession(userId, device.id);
+  if (wantsBearerTokens(req)) return tokens;
+  return { csrfToken: setAuthCookies(res, tokens) };
+}
+
+// A backup code if one is given, otherwise a TOTP code from a step not used before.
+async function verifySecondFactor(userId: number, code: unknown, backupCode: unknown) {
+  if (typeof backupCode === "string") return storage.useBackupCode(userId, hashBackupCode(userId, backupCode));
+  const parsed = totpCodeSchema.safeParse(code);
+  const credential = await storage.getTotpCredential(userId);
+  if (!parsed.success || !credential?.enabled) return false;
+  const step = matchTotpStep(decryptTotpSecret(credential.encryptedSecret), parsed.data, credential.lastUsedStep);
+  return step !== null && storage.useTotpStep(userId, step);
+}
+
+// A session belongs to the device it signed in, so ending it signs that device out.
+async function signOutDevice(userId: number, deviceId: number) {
+  if (!(await storage.deleteDevice(deviceId, userId))) return false;
+  disconnectDevice(userId, deviceId);
+  publish([userId], { type: "device:revoked", deviceId });
+  return true;
+}
+
+async function signOutOtherDevices(userId: number, keepDeviceId?: number) {
+  for (const device of await storage.getDevices(userId)) {
+    if (device.id !== keepDeviceId) await signOutDevice(userId, device.id);
+  }
+}
+
+function publishReceipts(updated: Message[], status: "delivered" | "read", notifySender = true) {
+  for (const senderId of Array.from(new Set(updated.map(m => m.senderId)))) {
+    const batch = updated.filter(m => m.senderId === senderId);
+    const { recipientId } = batch[0];
+    publish(notifySender ? [senderId, recipientId] : [recipientId], {
+      type: "receipt:updated",
+      senderId,
+      recipientId,
+      messageIds: batch.map(m => m.id),
+      status,
+      at: (status === "read" ? batch[0].readAt : batch[0].deliveredAt) ?? new Date(),
+    });
+  }
+}
+
+async function getPresences(userIds: number[]): Promise<Presence[]> {
+  const lastSeen = await storage.getLastSeen(userIds);
+  return userIds.map(userId => ({ userId, online: isConnected(userId), lastSeenAt: lastSeen.get(userId) ?? null }));
+}
+
+// Presence only goes to people the user has a conversation with, never across a block.
+async function publishPresence(userId: number, online: boolean, deviceId: number | undefined) {
+  try {
+    if (!online && deviceId !== undefined) await storage.touchDevice(deviceId);
+    const [presence] = await getPresences([userId]);
+    publish(await storage.getContactIds(userId), { type: "presence:changed", presence });
+  } catch (error) {
+    console.error(error);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/auth/check-username/:username", async (req, res) => {
@@ -37,16 +229,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/auth/register", registerLimit, async (req, res) => {
     try {
-      const { username, password, displayName, publicKey, profilePicture, encryptedPrivateKey } = req.body;
+      const { username, password, displayName, publicKey, profilePicture, encryptedPrivateKey, signingPublicKey, encryptedSigningKey, deviceName } = req.body;
       
-      const parsed = insertUserSchema.omit({ passwordHash: true }).safeParse({ username, displayName, publicKey, encryptedPrivateKey });
+      const parsed = insertUserSchema.omit({ passwordHash: true }).safeParse({ username, displayName, publicKey, encryptedPrivateKey, signingPublicKey, encryptedSigningKey });
       if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
       if (!password || password.length < 6) return res.status(400).json({ error: "Password must be at least 6 characters" });
       if (await storage.getUserByUsername(username)) return res.status(400).json({ error: "Username already exists" });
 
       const user = await storage.createUser({ ...parsed.data, passwordHash: await hashPassword(password), profilePicture });
       const { passwordHash: _, ...safeUser } = user;
-      res.json({ user: safeUser, token: generateToken(user.id) });
+      res.json({ user: safeUser, ...(await startDeviceSession(req, res, user.id, deviceName)) });
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
@@ -55,23 +247,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/auth/login", loginLimit, async (req, res) => {
     try {
-      const { username, password } = req.body;
-      if (!username || !password) return res.status(400).json({ error: "Username and password required" });
+      const { username, password, deviceName } = req.body;
+      if (typeof username !== "string" || !username || !password) {
+        return res.status(400).json({ error: "Username and password required" });
+      }
+
+      const lockedUntil = await getLoginLockout(username);
+      if (lockedUntil) return sendTooManyRequests(res, lockedUntil, "Too many failed sign-in attempts");
 
       const user = await storage.getUserByUsername(username);
-      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      if (!user || user.deletedAt || !(await verifyPassword(password, user.passwordHash))) {
+        await recordLoginFailure(username);
         return res.status(401).json({ error: "Invalid credentials" });
       }
+      // Failures only clear once the second factor passes too, so a known
+      // password doesn't buy unlimited guesses at the code.
+      if ((await storage.getTotpCredential(user.id))?.enabled) {
+        const challenge: TwoFactorChallenge = { twoFactorRequired: true, challengeId: createLoginChallenge(user.id, deviceName) };
+        return res.json(challenge);
+      }
+
+      await clearLoginFailures(username);
+      const { passwordHash: _, ...safeUser } = user;
+      res.json({ user: safeUser, ...(await startDeviceSession(req, res, user.id, deviceName)) });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The second step of a login on an account with 2FA: a TOTP `code` or a `backupCode`.
+  app.post("/api/auth/login/2fa", twoFactorLimit, async (req, res) => {
+    try {
+      const { challengeId, code, backupCode } = req.body;
+      if (typeof challengeId !== "string") return res.status(400).json({ error: "Invalid input" });
+
+      const challenge = useLoginChallenge(challengeId);
+      if (!challenge) return res.status(401).json({ error: "Sign in again" });
+
+      const user = await storage.getUser(challenge.userId);
+      if (!user) return res.status(401).json({ error: "Sign in again" });
+
+      const lockedUntil = await getLoginLockout(user.username);
+      if (lockedUntil) return sendTooManyRequests(res, lockedUntil, "Too many failed sign-in attempts");
+      if (!(await verifySecondFactor(user.id, code, backupCode))) {
+        await recordLoginFailure(user.username);
+        return res.status(401).json({ error: "Invalid code" });
+      }
 
+      completeLoginChallenge(challengeId);
+      await clearLoginFailures(user.username);
       const { passwordHash: _, ...safeUser } = user;
-      res.json({ user: safeUser, token: generateToken(user.id) });
+      res.json({ user: safeUser, ...(await startDeviceSession(req, res, user.id, challenge.deviceName)) });
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/auth/change-password", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      // API clients send the refresh token; browsers send the cookie and the CSRF header.
+      const { refreshToken } = req.body;
+      if (refreshToken !== undefined) {
+        if (typeof refreshToken !== "string") return res.status(400).json({ error: "Invalid input" });
+        const tokens = await refreshSession(refreshToken);
+        if (!tokens) return res.status(401).json({ error: "Session expired" });
+        return res.json(tokens);
+      }
+
+      const cookie = getRefreshCookie(req);
+      if (!cookie) return res.status(401).json({ error: "Session expired" });
+      if (!hasValidCsrfToken(req)) return res.status(403).json({ error: "Invalid CSRF token" });
+
+      // The cookies stay put on failure: another tab may have just replaced them.
+      const tokens = await refreshSession(cookie);
+      if (!tokens) return res.status(401).json({ error: "Session expired" });
+      const session: CookieSession = { csrfToken: setAuthCookies(res, tokens) };
+      res.json(session);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/logout", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      if (req.deviceId !== undefined) {
+        await storage.deleteDevice(req.deviceId, req.userId!);
+        disconnectDevice(req.userId!, req.deviceId);
+      }
+      clearAuthCookies(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/change-password", authMiddleware, passwordCheckLimit, async (req: AuthRequest, res) => {
     try {
       const { currentPassword, newPassword } = req.body;
       if (!currentPassword || !newPassword || newPassword.length < 6) {
@@ -84,6 +358,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      await signOutOtherDevices(user.id, req.deviceId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/auth/2fa", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const credential = await storage.getTotpCredential(req.userId!);
+      const status: TwoFactorStatus = {
+        enabled: !!credential?.enabled,
+        backupCodesRemaining: credential?.enabled ? await storage.getBackupCodeCount(req.userId!) : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Starts enrollment with a new secret; nothing changes at login until /enable.
+  app.post("/api/auth/2fa/setup", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.userId!);
+      if (!user) return res.status(404).json({ error: "User not found" });
+
+      const secret = generateTotpSecret();
+      if (!(await storage.saveTotpSecret(user.id, encryptTotpSecret(secret)))) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+      const setup: TotpSetup = { secret, otpauthUrl: otpauthUrl(secret, user.username) };
+      res.json(setup);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Turns 2FA on once a first code from the new secret checks out. The backup
+  // codes are only ever returned here.
+  app.post("/api/auth/2fa/enable", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = totpCodeSchema.safeParse(req.body.code);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid code" });
+
+      const credential = await storage.getTotpCredential(req.userId!);
+      if (!credential) return res.status(400).json({ error: "Start the setup first" });
+      if (credential.enabled) return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+
+      const step = matchTotpStep(decryptTotpSecret(credential.encryptedSecret), parsed.data, credential.lastUsedStep);
+      if (step === null) return res.status(400).json({ error: "Invalid code" });
+
+      const backupCodes = generateBackupCodes();
+      if (!(await storage.enableTotp(req.userId!, step, backupCodes.map(code => hashBackupCode(req.userId!, code))))) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+      res.json({ backupCodes });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authMiddleware, passwordCheckLimit, async (req: AuthRequest, res) => {
+    try {
+      const { password } = req.body;
+      if (!password) return res.status(400).json({ error: "Password required" });
+
+      const user = await storage.getUser(req.userId!);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return res.status(401).json({ error: "Incorrect password" });
+      }
+
+      await storage.disableTotp(user.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lets a signed-in client check the password before wrapping its keys with it.
+  app.post("/api/auth/verify-password", authMiddleware, passwordCheckLimit, async (req: AuthRequest, res) => {
+    try {
+      const { password } = req.body;
+      if (!password) return res.status(400).json({ error: "Password required" });
+
+      const user = await storage.getUser(req.userId!);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return res.status(401).json({ error: "Incorrect password" });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error(error);
@@ -111,19 +478,264 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/recover", loginLimit, async (req, res) => {
+  app.post("/api/auth/update-privacy", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = privacySettingsSchema.partial().safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+
+      const user = await storage.updatePrivacySettings(req.userId!, parsed.data);
+      if (!user) return res.status(404).json({ error: "User not found" });
+      if (parsed.data.hideLastSeen !== undefined) await publishPresence(user.id, isConnected(user.id), undefined);
+
+      const { passwordHash: _, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/signing-key", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = signingKeySchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+
+      const user = await storage.setSigningKey(req.userId!, parsed.data);
+      if (!user) return res.status(409).json({ error: "Signing key already set" });
+
+      const { passwordHash: _, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/recover/challenge", recoveryLimit, async (req, res) => {
+    try {
+      const { username } = req.body;
+      if (!username) return res.status(400).json({ error: "Invalid input" });
+
+      const user = await storage.getUserByUsername(username);
+      if (!user?.encryptedPrivateKey) return res.status(404).json({ error: "Recovery not available" });
+
+      res.json({ ...createRecoveryChallenge(user.id, user.publicKey), encryptedPrivateKey: user.encryptedPrivateKey });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/recover", recoveryLimit, async (req, res) => {
     try {
-      const { username, newPassword } = req.body;
-      if (!username || !newPassword || newPassword.length < 6) {
+      const { username, newPassword, challengeId, response, deviceName } = req.body;
+      if (!username || !newPassword || newPassword.length < 6 || typeof challengeId !== "string" || typeof response !== "string") {
         return res.status(400).json({ error: "Invalid input" });
       }
 
       const user = await storage.getUserByUsername(username);
       if (!user?.encryptedPrivateKey) return res.status(404).json({ error: "Recovery not available" });
+      if (!verifyRecoveryChallenge(challengeId, user.id, response)) {
+        return res.status(401).json({ error: "Recovery verification failed" });
+      }
 
       await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      await signOutOtherDevices(user.id);
+      await clearLoginFailures(user.username);
       const { passwordHash: _, ...safeUser } = user;
-      res.json({ encryptedPrivateKey: user.encryptedPrivateKey, user: safeUser, token: generateToken(user.id) });
+      res.json({ user: safeUser, ...(await startDeviceSession(req, res, user.id, deviceName)) });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Groups are left first so their members get the update, and every device is
+  // signed out, before the account is anonymized and its content purged.
+  app.delete("/api/account", authMiddleware, passwordCheckLimit, async (req: AuthRequest, res) => {
+    try {
+      const { password } = req.body;
+      if (!password) return res.status(400).json({ error: "Password required" });
+
+      const user = await storage.getUser(req.userId!);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return res.status(401).json({ error: "Incorrect password" });
+      }
+
+      const contactIds = await storage.getContactIds(user.id);
+      for (const { groupId } of await storage.getGroupConversations(user.id)) {
+        await storage.removeGroupMember(groupId, user.id);
+        const group = await storage.getGroupWithMembers(groupId);
+        if (group) publishGroup(group);
+      }
+      await signOutOtherDevices(user.id);
+
+      const attachmentIds = await storage.deleteUser(user.id);
+      if (!attachmentIds) return res.status(404).json({ error: "User not found" });
+      await Promise.all(attachmentIds.map(removeAttachment));
+      await clearLoginFailures(user.username);
+
+      publish(contactIds, { type: "account:deleted", userId: user.id });
+      clearAuthCookies(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/devices", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const devices = await storage.getDevices(req.userId!);
+      res.json(devices.map(({ userId, ...device }) => ({ ...device, current: device.id === req.deviceId })));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/devices/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const deviceId = parseInt(req.params.id);
+      if (deviceId === req.deviceId) return res.status(400).json({ error: "Log out to remove this device" });
+
+      if (!(await signOutDevice(req.userId!, deviceId))) return res.status(404).json({ error: "Device not found" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/sessions", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const sessions = await storage.getSessions(req.userId!);
+      res.json(sessions.map(session => ({ ...session, current: session.id === req.sessionId })));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      if (sessionId === req.sessionId) return res.status(400).json({ error: "Log out to end this session" });
+
+      const session = await storage.getSession(sessionId);
+      if (!session || session.userId !== req.userId) return res.status(404).json({ error: "Session not found" });
+
+      await signOutDevice(req.userId!, session.deviceId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/devices/link-requests", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { publicKey } = req.body;
+      if (typeof publicKey !== "string" || !publicKey) return res.status(400).json({ error: "Invalid input" });
+
+      const device = req.deviceId !== undefined ? await storage.getDevice(req.deviceId) : undefined;
+      if (!device) return res.status(400).json({ error: "Sign in again to link this device" });
+
+      res.json(createLinkRequest(req.userId!, device.id, device.name, publicKey));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/devices/link-requests/:code", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const request = getLinkRequest(req.params.code, req.userId!);
+      if (!request) return res.status(404).json({ error: "Pairing code not found or expired" });
+      res.json(request);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/devices/link-requests/:code/approve", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = deviceLinkApprovalSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+
+      const approved = approveLinkRequest(req.params.code, req.userId!, req.deviceId, parsed.data);
+      if (!approved) return res.status(404).json({ error: "Pairing code not found or expired" });
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/devices/link-requests/:code/approval", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const result = takeLinkApproval(req.params.code, req.userId!, req.deviceId);
+      if (!result) return res.status(404).json({ error: "Pairing code not found or expired" });
+      res.json(result);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/devices/link-requests/:code", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      cancelLinkRequest(req.params.code, req.userId!, req.deviceId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/prekeys", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      if (req.deviceId === undefined) return res.status(400).json({ error: "Sign in again to enable forward secrecy" });
+      res.json(await storage.getPrekeyStatus(req.deviceId));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/prekeys", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      if (req.deviceId === undefined) return res.status(400).json({ error: "Sign in again to enable forward secrecy" });
+      const parsed = prekeyBundleSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      await storage.publishPrekeys(req.userId!, req.deviceId, parsed.data);
+      res.json(await storage.getPrekeyStatus(req.deviceId));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/prekeys/:userId/devices", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getPrekeyDeviceIds(parseInt(req.params.userId)));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/prekeys/:userId/claim", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const parsed = claimPrekeysSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      // Blocked users can't message this user, so they don't get to drain their prekeys either.
+      if (userId !== req.userId && (await storage.isBlocked(userId, req.userId!))) {
+        return res.status(403).json({ error: "Cannot message this user" });
+      }
+      res.json(await storage.claimPrekeys(userId, parsed.data.deviceIds));
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
@@ -142,7 +754,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users/search/:query", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/users/search/:query", authMiddleware, searchLimit, async (req: AuthRequest, res) => {
     try {
       const users = await storage.searchUsers(req.params.query.toLowerCase());
       res.json(users.map(({ passwordHash, ...user }) => user));
@@ -156,31 +768,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const otherId = parseInt(req.params.userId);
       if (await storage.isBlocked(otherId, req.userId!)) return res.json([]);
-      res.json(await storage.getMessages(req.userId!, otherId));
+
+      const page = parseMessagePage(req.query);
+      if (!page) return res.status(400).json({ error: "Invalid pagination parameters" });
+
+      publishReceipts(await storage.markDelivered(req.userId!, otherId), "delivered");
+      const [msgs, other] = await Promise.all([storage.getMessages(req.userId!, otherId, page, req.deviceId), storage.getUser(otherId)]);
+      if (other?.readReceipts) return res.json(msgs);
+      res.json(msgs.map(m => (m.senderId === req.userId ? { ...m, readAt: null } : m)));
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/messages", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/messages", authMiddleware, sendLimit, async (req: AuthRequest, res) => {
     try {
       const parsed = insertMessageSchema.safeParse({ ...req.body, senderId: req.userId });
       if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      if (await isMissingSignature(req.userId!, parsed.data.signature)) return res.status(400).json({ error: "Message must be signed" });
+      const recipient = await storage.getUser(parsed.data.recipientId);
+      if (!recipient || recipient.deletedAt) return res.status(404).json({ error: "User not found" });
       if (await storage.isBlocked(parsed.data.recipientId, req.userId!)) {
         return res.status(403).json({ error: "Cannot send message to this user" });
       }
-      res.json(await storage.createMessage(parsed.data));
+
+      const { envelopes = [], ...data } = parsed.data;
+      if (data.replyToId !== undefined) {
+        const original = await getParticipantMessage(data.replyToId, req.userId!);
+        const otherId = original && !original.deleted && (original.senderId === req.userId ? original.recipientId : original.senderId);
+        if (otherId !== data.recipientId) return res.status(400).json({ error: "Can only reply to a message in this conversation" });
+      }
+      if (data.encryption === "ratchet") {
+        if (req.deviceId === undefined) return res.status(400).json({ error: "Sign in again to enable forward secrecy" });
+        if (!(await coversAllDevices(req.userId!, req.deviceId, data.recipientId, envelopes.map(e => e.deviceId)))) {
+          return res.status(409).json({ error: "Device list changed" });
+        }
+      }
+
+      const message = await storage.createMessage({
+        ...data,
+        deliveredAt: isConnected(data.recipientId) ? new Date() : null,
+      }, envelopes);
+      publishPerDevice([message.senderId, message.recipientId], (deviceId) => ({
+        type: "message:new",
+        message: { ...message, reactions: [], envelope: envelopes.find(e => e.deviceId === deviceId)?.envelope ?? null },
+      }));
+      res.json(message);
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // `?scope=me` hides the message for the caller only; the default deletes it for everyone.
   app.delete("/api/messages/:id", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const deleted = await storage.deleteMessage(parseInt(req.params.id), req.userId!);
-      if (!deleted) return res.status(403).json({ error: "Cannot delete this message" });
+      const scope = deleteScopeSchema.safeParse(req.query.scope ?? "everyone");
+      if (!scope.success) return res.status(400).json({ error: "Invalid scope" });
+      const messageId = parseInt(req.params.id);
+
+      if (scope.data === "me") {
+        const hidden = await storage.hideMessages([messageId], req.userId!);
+        if (hidden.length === 0) return res.status(404).json({ error: "Message not found" });
+        publishHidden(req.userId!, hidden);
+        return res.json({ success: true });
+      }
+
+      const deleted = await storage.deleteMessage(messageId, req.userId!);
+      if (!deleted) return res.status(403).json({ error: "Cannot delete this message for everyone" });
+      publishDeleted(req.userId!, [deleted]);
       res.json({ success: true });
     } catch (error) {
       console.error(error);
@@ -188,12 +845,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Only the sender's own text messages can be edited, and only within
+  // MESSAGE_EDIT_WINDOW; storage enforces both. An edit is encrypted the same
+  // way as the original, so editing a ratchet message keeps forward secrecy.
+  app.patch("/api/messages/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = editMessageSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      if (await isMissingSignature(req.userId!, parsed.data.signature)) return res.status(400).json({ error: "Message must be signed" });
+
+      const message = await getParticipantMessage(parseInt(req.params.id), req.userId!);
+      if (!message) return res.status(404).json({ error: "Message not found" });
+      if (message.senderId !== req.userId || await storage.isBlocked(message.recipientId, req.userId!)) {
+        return res.status(403).json({ error: "Cannot edit this message" });
+      }
+
+      const { envelopes = [], ...revision } = parsed.data;
+      if (revision.encryption !== message.encryption) {
+        return res.status(400).json({ error: "Edit must be encrypted like the original" });
+      }
+      if (revision.encryption === "ratchet") {
+        if (req.deviceId === undefined) return res.status(400).json({ error: "Sign in again to enable forward secrecy" });
+        if (!(await coversAllDevices(req.userId!, req.deviceId, message.recipientId, envelopes.map(e => e.deviceId)))) {
+          return res.status(409).json({ error: "Device list changed" });
+        }
+      }
+
+      const edited = await storage.editMessage(message.id, req.userId!, revision, envelopes);
+      if (!edited) return res.status(403).json({ error: "Cannot edit this message" });
+      publishPerDevice([message.senderId, message.recipientId], (deviceId) => ({
+        type: "message:edited",
+        senderId: message.senderId,
+        recipientId: message.recipientId,
+        revision: { ...edited.revision, envelope: envelopes.find(e => e.deviceId === deviceId)?.envelope ?? null },
+      }));
+      res.json({ ...edited.revision, envelope: null });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/messages/:id/revisions", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const message = await getParticipantMessage(parseInt(req.params.id), req.userId!);
+      if (!message || message.deleted) return res.status(404).json({ error: "Message not found" });
+      const otherId = message.senderId === req.userId ? message.recipientId : message.senderId;
+      if (await storage.isBlocked(otherId, req.userId!)) return res.status(404).json({ error: "Message not found" });
+
+      const [history, other] = await Promise.all([storage.getMessageHistory(message.id, req.deviceId), storage.getUser(otherId)]);
+      if (!history) return res.status(404).json({ error: "Message not found" });
+      if (message.senderId !== req.userId || other?.readReceipts) return res.json(history);
+      res.json({ ...history, original: { ...history.original, readAt: null } });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   app.post("/api/messages/delete-bulk", authMiddleware, async (req: AuthRequest, res) => {
     try {
       const { messageIds } = req.body;
-      if (!Array.isArray(messageIds)) return res.status(400).json({ error: "Invalid input" });
+      const scope = deleteScopeSchema.safeParse(req.body.scope ?? "everyone");
+      if (!Array.isArray(messageIds) || !scope.success) return res.status(400).json({ error: "Invalid input" });
+
+      if (scope.data === "me") {
+        const hidden = await storage.hideMessages(messageIds, req.userId!);
+        if (hidden.length === 0) return res.status(404).json({ error: "Messages not found" });
+        publishHidden(req.userId!, hidden);
+        return res.json({ success: true });
+      }
+
       const deleted = await storage.deleteMessages(messageIds, req.userId!);
-      if (!deleted) return res.status(403).json({ error: "Cannot delete messages" });
+      if (deleted.length === 0) return res.status(403).json({ error: "Cannot delete messages" });
+      publishDeleted(req.userId!, deleted);
       res.json({ success: true });
     } catch (error) {
       console.error(error);
@@ -201,9 +926,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/messages/:id/reactions", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const message = await getParticipantMessage(parseInt(req.params.id), req.userId!);
+      if (!message) return res.status(404).json({ error: "Message not found" });
+      res.json(await storage.getReactions(message.id));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/messages/:id/reactions", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertReactionSchema.safeParse({ messageId: parseInt(req.params.id), userId: req.userId, emoji: req.body.emoji });
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+
+      const message = await getParticipantMessage(parsed.data.messageId, req.userId!);
+      if (!message || message.deleted) return res.status(403).json({ error: "Cannot react to this message" });
+      const otherId = message.senderId === req.userId ? message.recipientId : message.senderId;
+      if (await storage.isBlocked(otherId, req.userId!)) return res.status(403).json({ error: "Cannot react to this message" });
+
+      const reactions = await storage.addReaction(message.id, req.userId!, parsed.data.emoji);
+      publishReactions(message, reactions);
+      res.json(reactions);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/messages/:id/reactions/:emoji", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const message = await getParticipantMessage(parseInt(req.params.id), req.userId!);
+      if (!message) return res.status(404).json({ error: "Message not found" });
+
+      const reactions = await storage.removeReaction(message.id, req.userId!, req.params.emoji);
+      publishReactions(message, reactions);
+      res.json(reactions);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   app.get("/api/conversations", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      res.json(await storage.getConversations(req.userId!));
+      publishReceipts(await storage.markDelivered(req.userId!), "delivered");
+      res.json(await storage.getConversations(req.userId!, req.deviceId));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/conversations/:userId/read", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const otherId = parseInt(req.params.userId);
+      const upToMessageId = Number(req.body.upToMessageId);
+      if (!Number.isInteger(upToMessageId)) return res.status(400).json({ error: "Invalid input" });
+
+      const updated = await storage.markRead(req.userId!, otherId, upToMessageId);
+      const reader = await storage.getUser(req.userId!);
+      publishReceipts(updated, "read", reader?.readReceipts);
+      res.json({ success: true, count: updated.length });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/conversations/:userId/typing", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const otherId = parseInt(req.params.userId);
+      if (typeof req.body.typing !== "boolean") return res.status(400).json({ error: "Invalid input" });
+      if (!(await storage.getContactIds(req.userId!)).includes(otherId)) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+
+      publish([otherId], { type: "typing", userId: req.userId!, typing: req.body.typing });
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/presence", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      res.json(await getPresences(await storage.getContactIds(req.userId!)));
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
@@ -212,7 +1023,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/conversations/:userId", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      await storage.deleteConversation(req.userId!, parseInt(req.params.userId));
+      const scope = deleteScopeSchema.safeParse(req.query.scope ?? "me");
+      if (!scope.success) return res.status(400).json({ error: "Invalid scope" });
+      const otherId = parseInt(req.params.userId);
+
+      // The chat only disappears for the caller; `?scope=everyone` also deletes
+      // whatever they sent that is still inside the delete-for-everyone window.
+      if (scope.data === "everyone") publishDeleted(req.userId!, await storage.deleteMessagesTo(req.userId!, otherId));
+      await storage.clearConversation(req.userId!, otherId);
+      publish([req.userId!], { type: "conversation:deleted", userIds: [req.userId!, otherId] });
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/groups", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      res.json(await storage.getGroupConversations(req.userId!));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/groups", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = createGroupSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      const memberIds = Array.from(new Set(parsed.data.memberIds)).filter(id => id !== req.userId);
+      const inviteError = await findInviteError(req.userId!, memberIds);
+      if (inviteError) return res.status(403).json({ error: inviteError });
+
+      const created = await storage.createGroup(parsed.data.name, req.userId!, memberIds);
+      const group = (await storage.getGroupWithMembers(created.id))!;
+      publishGroup(group);
+      res.json(group);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/groups/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const group = await getMemberGroup(parseInt(req.params.id), req.userId!);
+      if (!group) return res.status(404).json({ error: "Group not found" });
+      res.json(group);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/groups/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = renameGroupSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      const groupId = parseInt(req.params.id);
+      if (!(await storage.isGroupMember(groupId, req.userId!))) return res.status(404).json({ error: "Group not found" });
+
+      await storage.renameGroup(groupId, parsed.data.name);
+      const group = (await storage.getGroupWithMembers(groupId))!;
+      publishGroup(group);
+      res.json(group);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/groups/:id/members", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const parsed = addGroupMembersSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      const existing = await getMemberGroup(parseInt(req.params.id), req.userId!);
+      if (!existing) return res.status(404).json({ error: "Group not found" });
+
+      const newIds = Array.from(new Set(parsed.data.userIds)).filter(id => !existing.members.some(m => m.id === id));
+      if (existing.members.length + newIds.length > MAX_GROUP_MEMBERS) {
+        return res.status(400).json({ error: `Groups are limited to ${MAX_GROUP_MEMBERS} members` });
+      }
+      const inviteError = await findInviteError(req.userId!, newIds);
+      if (inviteError) return res.status(403).json({ error: inviteError });
+
+      await storage.addGroupMembers(existing.id, newIds);
+      const group = (await storage.getGroupWithMembers(existing.id))!;
+      publishGroup(group);
+      res.json(group);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/groups/:id/members/:userId", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const existing = await getMemberGroup(parseInt(req.params.id), req.userId!);
+      if (!existing) return res.status(404).json({ error: "Group not found" });
+      const memberId = parseInt(req.params.userId);
+      if (memberId !== req.userId && existing.createdBy !== req.userId) {
+        return res.status(403).json({ error: "Only the group creator can remove members" });
+      }
+      if (!(await storage.removeGroupMember(existing.id, memberId))) return res.status(404).json({ error: "Member not found" });
+
+      const group = await storage.getGroupWithMembers(existing.id);
+      if (group) publishGroup(group, [memberId]);
+      else publish([memberId], { type: "group:removed", groupId: existing.id });
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/groups/:id/messages", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const groupId = parseInt(req.params.id);
+      if (!(await storage.isGroupMember(groupId, req.userId!))) return res.status(404).json({ error: "Group not found" });
+      const page = parseMessagePage(req.query);
+      if (!page) return res.status(400).json({ error: "Invalid pagination parameters" });
+      res.json(await storage.getGroupMessages(groupId, req.userId!, page));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/groups/:id/messages", authMiddleware, sendLimit, async (req: AuthRequest, res) => {
+    try {
+      const parsed = insertGroupMessageSchema.safeParse({ ...req.body, groupId: parseInt(req.params.id), senderId: req.userId });
+      if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
+      if (await isMissingSignature(req.userId!, parsed.data.signature)) return res.status(400).json({ error: "Message must be signed" });
+      const memberIds = await storage.getGroupMemberIds(parsed.data.groupId);
+      if (!memberIds.includes(req.userId!)) return res.status(404).json({ error: "Group not found" });
+
+      // The content key must be wrapped for exactly the current members, no more and no fewer.
+      const keyedIds = parsed.data.encryptedKeys.map(k => k.userId);
+      if (new Set(keyedIds).size !== keyedIds.length || keyedIds.length !== memberIds.length || !memberIds.every(id => keyedIds.includes(id))) {
+        return res.status(409).json({ error: "Group membership changed" });
+      }
+
+      const message = await storage.createGroupMessage(parsed.data);
+      for (const { userId, encryptedKey } of parsed.data.encryptedKeys) {
+        publish([userId], { type: "group:message:new", message: { ...message, encryptedKey } });
+      }
+      res.json(message);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/groups/:id/messages/:messageId", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const groupId = parseInt(req.params.id);
+      const message = await storage.getGroupMessage(parseInt(req.params.messageId));
+      if (!message || message.groupId !== groupId) return res.status(404).json({ error: "Message not found" });
+      const deleted = await storage.deleteGroupMessage(message.id, req.userId!);
+      if (!deleted) return res.status(403).json({ error: "Cannot delete this message" });
+      publish(await storage.getGroupMemberIds(groupId), { type: "group:message:deleted", groupId, messageIds: [deleted.id] });
+      res.json({ success: true });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/groups/:id/read", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const groupId = parseInt(req.params.id);
+      const upToMessageId = Number(req.body.upToMessageId);
+      if (!Number.isInteger(upToMessageId)) return res.status(400).json({ error: "Invalid input" });
+      if (!(await storage.isGroupMember(groupId, req.userId!))) return res.status(404).json({ error: "Group not found" });
+      await storage.markGroupRead(groupId, req.userId!, upToMessageId);
       res.json({ success: true });
     } catch (error) {
       console.error(error);
@@ -233,7 +1218,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const parsed = insertBlockSchema.safeParse({ blockerId: req.userId, blockedId: req.body.blockedId });
       if (!parsed.success) return res.status(400).json({ error: "Invalid input" });
-      res.json(await storage.blockUser(parsed.data.blockerId, parsed.data.blockedId));
+      const block = await storage.blockUser(parsed.data.blockerId, parsed.data.blockedId);
+      publish([block.blockerId, block.blockedId], { type: "block:changed", blockerId: block.blockerId, blockedId: block.blockedId, blocked: true });
+      res.json(block);
     } catch (error) {
       console.error(error);
       res.status(500).json({ error: "Internal server error" });
@@ -242,8 +1229,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/blocks/:userId", authMiddleware, async (req: AuthRequest, res) => {
     try {
-      const unblocked = await storage.unblockUser(req.userId!, parseInt(req.params.userId));
+      const blockedId = parseInt(req.params.userId);
+      const unblocked = await storage.unblockUser(req.userId!, blockedId);
       if (!unblocked) return res.status(404).json({ error: "Block not found" });
+      publish([req.userId!, blockedId], { type: "block:changed", blockerId: req.userId!, blockedId, blocked: false });
       res.json({ success: true });
     } catch (error) {
       console.error(error);
@@ -251,6 +1240,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/attachments", authMiddleware, attachmentUpload.single("file"), async (req: AuthRequest, res) => {
+    try {
+      if (!req.file) return res.status(400).json({ error: "No file uploaded" });
+      const id = await writeAttachment(req.file.buffer);
+      const attachment = await storage.createAttachment(id, req.userId!, req.file.size);
+      res.json({ id: attachment.id, size: attachment.size });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Ids are random UUIDs handed out only to the uploader, who shares them inside
+  // E2E-encrypted messages; the blob itself is ciphertext, so it never changes.
+  app.get("/api/attachments/:id", authMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const filePath = attachmentPath(req.params.id);
+      if (!filePath || !(await storage.getAttachment(req.params.id))) return res.status(404).json({ error: "Attachment not found" });
+      res.set("Cache-Control", "private, max-age=31536000, immutable");
+      res.type("application/octet-stream").sendFile(filePath);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Profile pictures only: they are shown to every user, so they are not end-to-end encrypted.
   app.post("/api/upload", authMiddleware, upload.single("file"), async (req: AuthRequest, res) => {
     try {
       if (!req.file) return res.status(400).json({ error: "No file uploaded" });
@@ -263,5 +1279,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
+  onPresenceChange(publishPresence);
   return httpServer;
 }
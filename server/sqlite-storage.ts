@@ -0,0 +1,789 @@
+import { eq, ne, and, or, asc, desc, sql, inArray, notInArray, isNull, isNotNull, lt, lte, gt, gte, notExists, type SQL } from "drizzle-orm";
+import type { SqliteConnection } from "./db";
+import { runMigrations } from "./migrate";
+import type { IStorage, MessagePage } from "./storage";
+import {
+  users, messages, blocks, reactions, devices, attachments, groups, groupMembers, groupMessages, groupMessageKeys,
+  prekeyBundles, oneTimePrekeys, messageEnvelopes, sessions, totpCredentials, backupCodes, rateLimits, loginFailures, messageRevisions, revisionEnvelopes, hiddenMessages, conversationClears, DEFAULT_PAGE_SIZE, MESSAGE_EDIT_WINDOW, DELETE_FOR_EVERYONE_WINDOW, DELETED_ACCOUNT_NAME, withRevision,
+  type User, type Message, type MessageWithReactions, type Conversation, type GroupWithMembers,
+  type GroupConversation, type GroupMessageWithKey, type InsertGroupMessage, type PublishPrekeys,
+  type ClaimedPrekeyBundle, type PrekeyStatus, type PrivacySettings, type RevisionWithEnvelope, type SessionInfo,
+} from "@shared/schema";
+
+export class SqliteStorage implements IStorage {
+  private readonly sqlite: SqliteConnection["sqlite"];
+  private readonly db: SqliteConnection["db"];
+
+  constructor({ sqlite, db }: SqliteConnection) {
+    this.sqlite = sqlite;
+    this.db = db;
+  }
+
+  async migrate() {
+    return runMigrations(this.sqlite);
+  }
+
+  async getUser(id: number) {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string) {
+    return (await this.db.select().from(users).where(eq(users.username, username)).limit(1))[0];
+  }
+
+  async searchUsers(query: string) {
+    return this.db.select().from(users).where(and(
+      sql`LOWER(${users.username}) LIKE ${`%${query}%`}`,
+      isNull(users.deletedAt)
+    )).limit(20);
+  }
+
+  async createUser(data: typeof users.$inferInsert) {
+    return (await this.db.insert(users).values(data).returning())[0];
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string) {
+    return (await this.db.update(users).set({ passwordHash }).where(eq(users.id, userId)).returning()).length > 0;
+  }
+
+  async updateProfilePicture(userId: number, profilePicture: string | null) {
+    const result = await this.db.update(users).set({ profilePicture }).where(eq(users.id, userId)).returning();
+    if (result.length === 0) return null;
+    return result[0];
+  }
+
+  async updatePrivacySettings(userId: number, settings: Partial<PrivacySettings>) {
+    const result = await this.db.update(users).set(settings).where(eq(users.id, userId)).returning();
+    return result[0];
+  }
+
+  // A signing key is published once and never replaced, so old signatures stay verifiable.
+  async setSigningKey(userId: number, key: Pick<User, "signingPublicKey" | "encryptedSigningKey">) {
+    const result = await this.db.update(users).set(key).where(and(eq(users.id, userId), isNull(users.signingPublicKey))).returning();
+    return result[0];
+  }
+
+  // The row stays, anonymized, so peers' conversations and groups still resolve it.
+  // Direct messages it sent are deleted, except those a peer replied to: a reply's
+  // signature covers its replyToId, so those stay as empty tombstones.
+  async deleteUser(userId: number) {
+    return this.db.transaction(tx => {
+      const [anonymized] = tx.update(users).set({
+        username: `deleted:${userId}`,
+        passwordHash: "",
+        displayName: DELETED_ACCOUNT_NAME,
+        profilePicture: null,
+        publicKey: "",
+        encryptedPrivateKey: null,
+        signingPublicKey: null,
+        encryptedSigningKey: null,
+        readReceipts: false,
+        hideLastSeen: true,
+        deletedAt: new Date(),
+      }).where(and(eq(users.id, userId), isNull(users.deletedAt))).returning().all();
+      if (!anonymized) return null;
+
+      const sent = tx.select({ id: messages.id }).from(messages).where(eq(messages.senderId, userId));
+      const quoted = tx.select({ id: messages.replyToId }).from(messages)
+        .where(and(ne(messages.senderId, userId), isNotNull(messages.replyToId)));
+      const purged = and(eq(messages.senderId, userId), notInArray(messages.id, quoted));
+      tx.delete(messageEnvelopes).where(inArray(messageEnvelopes.messageId, sent)).run();
+      tx.delete(revisionEnvelopes).where(inArray(revisionEnvelopes.revisionId,
+        tx.select({ id: messageRevisions.id }).from(messageRevisions).where(inArray(messageRevisions.messageId, sent)))).run();
+      tx.delete(messageRevisions).where(inArray(messageRevisions.messageId, sent)).run();
+      tx.delete(reactions).where(or(eq(reactions.userId, userId), inArray(reactions.messageId, sent))).run();
+      tx.delete(hiddenMessages).where(or(
+        eq(hiddenMessages.userId, userId),
+        inArray(hiddenMessages.messageId, tx.select({ id: messages.id }).from(messages).where(purged))
+      )).run();
+      tx.update(messages).set({
+        deleted: true, encryptedContent: "", senderEncryptedKey: "", recipientEncryptedKey: "", iv: "", signature: null, replyToId: null,
+      }).where(and(eq(messages.senderId, userId), inArray(messages.id, quoted))).run();
+      tx.delete(messages).where(purged).run();
+      tx.delete(conversationClears).where(eq(conversationClears.userId, userId)).run();
+
+      const groupSent = tx.select({ id: groupMessages.id }).from(groupMessages).where(eq(groupMessages.senderId, userId));
+      tx.delete(groupMessageKeys).where(or(eq(groupMessageKeys.userId, userId), inArray(groupMessageKeys.messageId, groupSent))).run();
+      tx.delete(groupMessages).where(eq(groupMessages.senderId, userId)).run();
+      tx.delete(groupMembers).where(eq(groupMembers.userId, userId)).run();
+
+      const deviceIds = tx.select({ id: devices.id }).from(devices).where(eq(devices.userId, userId));
+      tx.delete(sessions).where(eq(sessions.userId, userId)).run();
+      tx.delete(prekeyBundles).where(eq(prekeyBundles.userId, userId)).run();
+      tx.delete(oneTimePrekeys).where(inArray(oneTimePrekeys.deviceId, deviceIds)).run();
+      tx.delete(messageEnvelopes).where(inArray(messageEnvelopes.deviceId, deviceIds)).run();
+      tx.delete(revisionEnvelopes).where(inArray(revisionEnvelopes.deviceId, deviceIds)).run();
+      tx.delete(devices).where(eq(devices.userId, userId)).run();
+
+      tx.delete(blocks).where(or(eq(blocks.blockerId, userId), eq(blocks.blockedId, userId))).run();
+      tx.delete(backupCodes).where(eq(backupCodes.userId, userId)).run();
+      tx.delete(totpCredentials).where(eq(totpCredentials.userId, userId)).run();
+      const removed = tx.delete(attachments).where(eq(attachments.uploaderId, userId)).returning({ id: attachments.id }).all();
+      return removed.map(a => a.id);
+    });
+  }
+
+  async createDevice(userId: number, name: string) {
+    return (await this.db.insert(devices).values({ userId, name }).returning())[0];
+  }
+
+  async getDevice(id: number) {
+    return (await this.db.select().from(devices).where(eq(devices.id, id)).limit(1))[0];
+  }
+
+  async getDevices(userId: number) {
+    return this.db.select().from(devices).where(eq(devices.userId, userId)).orderBy(desc(devices.lastSeenAt));
+  }
+
+  async touchDevice(id: number) {
+    await this.db.update(devices).set({ lastSeenAt: new Date() }).where(eq(devices.id, id));
+  }
+
+  // Its sessions, prekeys and envelopes reference the device, so they go before it does.
+  async deleteDevice(id: number, userId: number) {
+    return this.db.transaction(tx => {
+      const device = tx.select().from(devices).where(and(eq(devices.id, id), eq(devices.userId, userId))).get();
+      if (!device) return false;
+      tx.delete(sessions).where(eq(sessions.deviceId, id)).run();
+      tx.delete(prekeyBundles).where(eq(prekeyBundles.deviceId, id)).run();
+      tx.delete(oneTimePrekeys).where(eq(oneTimePrekeys.deviceId, id)).run();
+      tx.delete(messageEnvelopes).where(eq(messageEnvelopes.deviceId, id)).run();
+      tx.delete(revisionEnvelopes).where(eq(revisionEnvelopes.deviceId, id)).run();
+      tx.delete(devices).where(eq(devices.id, id)).run();
+      return true;
+    });
+  }
+
+  async getTotpCredential(userId: number) {
+    return (await this.db.select().from(totpCredentials).where(eq(totpCredentials.userId, userId)).limit(1))[0];
+  }
+
+  // A new secret replaces a pending one; an enabled one has to be disabled first.
+  async saveTotpSecret(userId: number, encryptedSecret: string) {
+    const saved = await this.db.insert(totpCredentials).values({ userId, encryptedSecret }).onConflictDoUpdate({
+      target: totpCredentials.userId,
+      set: { encryptedSecret, lastUsedStep: 0, createdAt: new Date() },
+      where: eq(totpCredentials.enabled, false),
+    }).returning();
+    return saved.length > 0;
+  }
+
+  // Turns on a pending secret and replaces the backup codes; false if it was already on.
+  async enableTotp(userId: number, step: number, codeHashes: string[]) {
+    return this.db.transaction(tx => {
+      const enabled = tx.update(totpCredentials).set({ enabled: true, lastUsedStep: step }).where(and(
+        eq(totpCredentials.userId, userId),
+        eq(totpCredentials.enabled, false)
+      )).returning().get();
+      if (!enabled) return false;
+      tx.delete(backupCodes).where(eq(backupCodes.userId, userId)).run();
+      tx.insert(backupCodes).values(codeHashes.map(codeHash => ({ userId, codeHash }))).run();
+      return true;
+    });
+  }
+
+  async useTotpStep(userId: number, step: number) {
+    const updated = await this.db.update(totpCredentials).set({ lastUsedStep: step }).where(and(
+      eq(totpCredentials.userId, userId),
+      lt(totpCredentials.lastUsedStep, step)
+    )).returning();
+    return updated.length > 0;
+  }
+
+  async useBackupCode(userId: number, codeHash: string) {
+    const used = await this.db.update(backupCodes).set({ usedAt: new Date() }).where(and(
+      eq(backupCodes.userId, userId),
+      eq(backupCodes.codeHash, codeHash),
+      isNull(backupCodes.usedAt)
+    )).returning();
+    return used.length > 0;
+  }
+
+  async getBackupCodeCount(userId: number) {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)` }).from(backupCodes)
+      .where(and(eq(backupCodes.userId, userId), isNull(backupCodes.usedAt)));
+    return count;
+  }
+
+  async disableTotp(userId: number) {
+    this.db.transaction(tx => {
+      tx.delete(backupCodes).where(eq(backupCodes.userId, userId)).run();
+      tx.delete(totpCredentials).where(eq(totpCredentials.userId, userId)).run();
+    });
+  }
+
+  async hitRateLimit(key: string, windowMs: number) {
+    const now = new Date();
+    const expired = lte(rateLimits.resetAt, now);
+    const [hit] = await this.db.insert(rateLimits).values({ key, count: 1, resetAt: new Date(now.getTime() + windowMs) }).onConflictDoUpdate({
+      target: rateLimits.key,
+      set: {
+        count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+        resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+      },
+    }).returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+    return hit;
+  }
+
+  async getLoginFailure(username: string) {
+    return (await this.db.select().from(loginFailures).where(eq(loginFailures.username, username)).limit(1))[0];
+  }
+
+  async recordLoginFailure(username: string, staleBefore: Date) {
+    const stale = lt(loginFailures.lastFailureAt, staleBefore);
+    const [recorded] = await this.db.insert(loginFailures).values({ username, failures: 1, lastFailureAt: new Date() }).onConflictDoUpdate({
+      target: loginFailures.username,
+      set: {
+        failures: sql`CASE WHEN ${stale} THEN 1 ELSE ${loginFailures.failures} + 1 END`,
+        lastFailureAt: new Date(),
+      },
+    }).returning({ failures: loginFailures.failures });
+    return recorded.failures;
+  }
+
+  async lockLogin(username: string, until: Date) {
+    await this.db.update(loginFailures).set({ lockedUntil: until }).where(eq(loginFailures.username, username));
+  }
+
+  async clearLoginFailures(username: string) {
+    await this.db.delete(loginFailures).where(eq(loginFailures.username, username));
+  }
+
+  async pruneRateLimits(staleBefore: Date) {
+    await this.db.delete(rateLimits).where(lte(rateLimits.resetAt, new Date()));
+    await this.db.delete(loginFailures).where(lt(loginFailures.lastFailureAt, staleBefore));
+  }
+
+  async createSession(userId: number, deviceId: number, refreshTokenHash: string, expiresAt: Date) {
+    return (await this.db.insert(sessions).values({ userId, deviceId, refreshTokenHash, expiresAt }).returning())[0];
+  }
+
+  async getSession(id: number) {
+    return (await this.db.select().from(sessions).where(eq(sessions.id, id)).limit(1))[0];
+  }
+
+  async getSessions(userId: number): Promise<Omit<SessionInfo, "current">[]> {
+    return this.db
+      .select({
+        id: sessions.id,
+        deviceId: sessions.deviceId,
+        deviceName: devices.name,
+        createdAt: sessions.createdAt,
+        lastUsedAt: sessions.lastUsedAt,
+        expiresAt: sessions.expiresAt,
+      })
+      .from(sessions)
+      .innerJoin(devices, eq(devices.id, sessions.deviceId))
+      .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  // The hash in the WHERE makes a refresh token single-use even when two requests race.
+  async rotateSession(refreshTokenHash: string, nextHash: string, expiresAt: Date) {
+    const now = new Date();
+    return (await this.db
+      .update(sessions)
+      .set({ refreshTokenHash: nextHash, lastUsedAt: now, expiresAt })
+      .where(and(eq(sessions.refreshTokenHash, refreshTokenHash), gt(sessions.expiresAt, now)))
+      .returning())[0];
+  }
+
+  async getPrekeyStatus(deviceId: number): Promise<PrekeyStatus> {
+    const bundle = (await this.db.select().from(prekeyBundles).where(eq(prekeyBundles.deviceId, deviceId)).limit(1))[0];
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)` }).from(oneTimePrekeys).where(eq(oneTimePrekeys.deviceId, deviceId));
+    return {
+      deviceId,
+      identityKey: bundle?.identityKey ?? null,
+      signedPrekeyId: bundle?.signedPrekeyId ?? null,
+      oneTimePrekeys: count,
+    };
+  }
+
+  // Replaces the device's bundle and adds one-time prekeys. A new identity key
+  // means the device lost its local state, so its old one-time prekeys are dropped.
+  async publishPrekeys(userId: number, deviceId: number, { oneTimePrekeys: keys, ...bundle }: PublishPrekeys) {
+    const existing = (await this.db.select().from(prekeyBundles).where(eq(prekeyBundles.deviceId, deviceId)).limit(1))[0];
+    if (existing && existing.identityKey !== bundle.identityKey) {
+      await this.db.delete(oneTimePrekeys).where(eq(oneTimePrekeys.deviceId, deviceId));
+    }
+    await this.db.insert(prekeyBundles).values({ deviceId, userId, ...bundle })
+      .onConflictDoUpdate({ target: prekeyBundles.deviceId, set: bundle });
+    if (keys.length > 0) {
+      await this.db.insert(oneTimePrekeys).values(keys.map(k => ({ deviceId, ...k }))).onConflictDoNothing();
+    }
+  }
+
+  async getPrekeyDeviceIds(userId: number) {
+    return (await this.db.select({ deviceId: prekeyBundles.deviceId }).from(prekeyBundles).where(eq(prekeyBundles.userId, userId))).map(b => b.deviceId);
+  }
+
+  // Each claimed bundle consumes one of the device's one-time prekeys, if any are left.
+  async claimPrekeys(userId: number, deviceIds: number[]): Promise<ClaimedPrekeyBundle[]> {
+    const bundles = await this.db.select().from(prekeyBundles).where(and(eq(prekeyBundles.userId, userId), inArray(prekeyBundles.deviceId, deviceIds)));
+    const claimed: ClaimedPrekeyBundle[] = [];
+    for (const bundle of bundles) {
+      const oneTimePrekey = (await this.db.delete(oneTimePrekeys).where(eq(oneTimePrekeys.id,
+        sql`(SELECT id FROM one_time_prekeys WHERE device_id = ${bundle.deviceId} ORDER BY id LIMIT 1)`
+      )).returning({ keyId: oneTimePrekeys.keyId, publicKey: oneTimePrekeys.publicKey }))[0];
+      claimed.push({ ...bundle, oneTimePrekey: oneTimePrekey ?? null });
+    }
+    return claimed;
+  }
+
+  async getMessage(id: number) {
+    return (await this.db.select().from(messages).where(eq(messages.id, id)).limit(1))[0];
+  }
+
+  // The conversation as userId sees it, without what they hid or cleared.
+  async getMessages(userId: number, peerId: number, page: MessagePage = {}, deviceId?: number): Promise<MessageWithReactions[]> {
+    const where = and(
+      or(
+        and(eq(messages.senderId, userId), eq(messages.recipientId, peerId)),
+        and(eq(messages.senderId, peerId), eq(messages.recipientId, userId))
+      ),
+      this.visibleTo(userId, peerId),
+      page.before === undefined ? undefined : lt(messages.id, page.before),
+      page.after === undefined ? undefined : gt(messages.id, page.after)
+    );
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+
+    // `after` pages read forwards from the cursor; everything else reads backwards
+    // from the newest message so the default page is the latest history.
+    const msgs = page.after !== undefined
+      ? await this.db.select().from(messages).where(where).orderBy(asc(messages.id)).limit(limit)
+      : (await this.db.select().from(messages).where(where).orderBy(desc(messages.id)).limit(limit)).reverse();
+    if (msgs.length === 0) return [];
+
+    const ids = msgs.map(m => m.id);
+    const rows = await this.db.select().from(reactions).where(inArray(reactions.messageId, ids));
+    const envelopes = await this.getEnvelopes(ids, deviceId);
+    const revisions = await this.getLatestRevisions(msgs, deviceId);
+    return msgs.map(m => {
+      const message = { ...m, reactions: rows.filter(r => r.messageId === m.id), envelope: envelopes.get(m.id) ?? null };
+      const revision = revisions.get(m.id);
+      return revision ? withRevision(message, revision) : message;
+    });
+  }
+
+  private async getLatestRevisions(msgs: Message[], deviceId?: number) {
+    const edited = msgs.filter(m => m.editedAt && !m.deleted).map(m => m.id);
+    if (edited.length === 0) return new Map<number, RevisionWithEnvelope>();
+    const latest = this.db.select({ id: sql<number>`max(${messageRevisions.id})` }).from(messageRevisions)
+      .where(inArray(messageRevisions.messageId, edited))
+      .groupBy(messageRevisions.messageId);
+    const rows = await this.db.select().from(messageRevisions).where(inArray(messageRevisions.id, latest));
+    const envelopes = await this.getRevisionEnvelopes(rows.map(r => r.id), deviceId);
+    return new Map(rows.map(r => [r.messageId, { ...r, envelope: envelopes.get(r.id) ?? null }]));
+  }
+
+  private visibleTo(userId: number, peerId: number | SQL) {
+    return and(
+      notExists(this.db.select({ id: hiddenMessages.id }).from(hiddenMessages).where(
+        and(eq(hiddenMessages.userId, userId), eq(hiddenMessages.messageId, messages.id))
+      )),
+      notExists(this.db.select({ id: conversationClears.id }).from(conversationClears).where(and(
+        eq(conversationClears.userId, userId),
+        eq(conversationClears.peerId, peerId),
+        gte(conversationClears.clearedUpTo, messages.id)
+      )))
+    );
+  }
+
+  // A device only ever gets its own envelope of a ratchet message.
+  private async getEnvelopes(messageIds: number[], deviceId?: number) {
+    if (deviceId === undefined || messageIds.length === 0) return new Map<number, string>();
+    const rows = await this.db.select().from(messageEnvelopes).where(
+      and(inArray(messageEnvelopes.messageId, messageIds), eq(messageEnvelopes.deviceId, deviceId))
+    );
+    return new Map(rows.map(r => [r.messageId, r.envelope]));
+  }
+
+  private async getRevisionEnvelopes(revisionIds: number[], deviceId?: number) {
+    if (deviceId === undefined || revisionIds.length === 0) return new Map<number, string>();
+    const rows = await this.db.select().from(revisionEnvelopes).where(
+      and(inArray(revisionEnvelopes.revisionId, revisionIds), eq(revisionEnvelopes.deviceId, deviceId))
+    );
+    return new Map(rows.map(r => [r.revisionId, r.envelope]));
+  }
+
+  async createMessage(data: typeof messages.$inferInsert, envelopes: { deviceId: number; envelope: string }[] = []) {
+    const message = (await this.db.insert(messages).values(data).returning())[0];
+    if (envelopes.length > 0) {
+      await this.db.insert(messageEnvelopes).values(envelopes.map(e => ({ messageId: message.id, ...e })));
+    }
+    return message;
+  }
+
+  async markDelivered(recipientId: number, senderId?: number) {
+    return this.db.update(messages).set({ deliveredAt: new Date() }).where(
+      and(
+        eq(messages.recipientId, recipientId),
+        senderId === undefined ? undefined : eq(messages.senderId, senderId),
+        isNull(messages.deliveredAt)
+      )
+    ).returning();
+  }
+
+  async markRead(recipientId: number, senderId: number, upToMessageId: number) {
+    const now = new Date();
+    return this.db.update(messages).set({ readAt: now, deliveredAt: sql`COALESCE(${messages.deliveredAt}, ${Math.floor(now.getTime() / 1000)})` }).where(
+      and(
+        eq(messages.recipientId, recipientId),
+        eq(messages.senderId, senderId),
+        lte(messages.id, upToMessageId),
+        isNull(messages.readAt)
+      )
+    ).returning();
+  }
+
+  // The guard is part of the UPDATE, so an edit racing the window or a delete
+  // can't slip through, and readers never see editedAt without its revision.
+  async editMessage(
+    messageId: number,
+    userId: number,
+    revision: Omit<typeof messageRevisions.$inferInsert, "id" | "messageId" | "editedAt">,
+    envelopes: { deviceId: number; envelope: string }[] = []
+  ) {
+    const editedAt = new Date();
+    return this.db.transaction(tx => {
+      const message = tx.update(messages).set({ editedAt }).where(and(
+        eq(messages.id, messageId),
+        eq(messages.senderId, userId),
+        eq(messages.type, "text"),
+        eq(messages.deleted, false),
+        gt(messages.timestamp, new Date(editedAt.getTime() - MESSAGE_EDIT_WINDOW))
+      )).returning().get();
+      if (!message) return null;
+      const created = tx.insert(messageRevisions).values({ ...revision, messageId, editedAt }).returning().get();
+      if (envelopes.length > 0) {
+        tx.insert(revisionEnvelopes).values(envelopes.map(e => ({ revisionId: created.id, ...e }))).run();
+      }
+      return { message, revision: created };
+    });
+  }
+
+  async getMessageHistory(messageId: number, deviceId?: number) {
+    const message = await this.getMessage(messageId);
+    if (!message) return undefined;
+    const envelopes = await this.getEnvelopes([messageId], deviceId);
+    const revisions = await this.db.select().from(messageRevisions)
+      .where(eq(messageRevisions.messageId, messageId))
+      .orderBy(asc(messageRevisions.id));
+    const revisionKeys = await this.getRevisionEnvelopes(revisions.map(r => r.id), deviceId);
+    return {
+      original: { ...message, editedAt: null, envelope: envelopes.get(messageId) ?? null },
+      revisions: revisions.map(r => ({ ...r, envelope: revisionKeys.get(r.id) ?? null })),
+    };
+  }
+
+  // Tombstones the user's own messages that are still inside DELETE_FOR_EVERYONE_WINDOW,
+  // dropping their envelopes and revisions so the content can't be recovered.
+  private async deleteForEveryone(userId: number, condition: SQL | undefined) {
+    const deleted = await this.db.update(messages).set({
+      deleted: true, encryptedContent: "", senderEncryptedKey: "", recipientEncryptedKey: "", iv: "", signature: null,
+    }).where(and(
+      condition,
+      eq(messages.senderId, userId),
+      eq(messages.deleted, false),
+      gt(messages.timestamp, new Date(Date.now() - DELETE_FOR_EVERYONE_WINDOW))
+    )).returning();
+    if (deleted.length > 0) {
+      const ids = deleted.map(m => m.id);
+      await this.db.delete(messageEnvelopes).where(inArray(messageEnvelopes.messageId, ids));
+      await this.db.delete(revisionEnvelopes).where(inArray(revisionEnvelopes.revisionId,
+        this.db.select({ id: messageRevisions.id }).from(messageRevisions).where(inArray(messageRevisions.messageId, ids))));
+      await this.db.delete(messageRevisions).where(inArray(messageRevisions.messageId, ids));
+    }
+    return deleted;
+  }
+
+  async deleteMessage(messageId: number, userId: number) {
+    return (await this.deleteForEveryone(userId, eq(messages.id, messageId)))[0] ?? null;
+  }
+
+  async deleteMessages(messageIds: number[], userId: number) {
+    if (messageIds.length === 0) return [];
+    return this.deleteForEveryone(userId, inArray(messages.id, messageIds));
+  }
+
+  async deleteMessagesTo(userId: number, peerId: number) {
+    return this.deleteForEveryone(userId, eq(messages.recipientId, peerId));
+  }
+
+  async hideMessages(messageIds: number[], userId: number) {
+    if (messageIds.length === 0) return [];
+    const msgs = await this.db.select().from(messages).where(and(
+      inArray(messages.id, messageIds),
+      or(eq(messages.senderId, userId), eq(messages.recipientId, userId))
+    ));
+    if (msgs.length > 0) {
+      await this.db.insert(hiddenMessages).values(msgs.map(m => ({ userId, messageId: m.id }))).onConflictDoNothing();
+    }
+    return msgs;
+  }
+
+  async clearConversation(userId: number, peerId: number) {
+    const [{ lastId }] = await this.db.select({ lastId: sql<number | null>`max(${messages.id})` }).from(messages).where(or(
+      and(eq(messages.senderId, userId), eq(messages.recipientId, peerId)),
+      and(eq(messages.senderId, peerId), eq(messages.recipientId, userId))
+    ));
+    if (lastId === null) return;
+    const clearedAt = new Date();
+    await this.db.insert(conversationClears).values({ userId, peerId, clearedUpTo: lastId, clearedAt }).onConflictDoUpdate({
+      target: [conversationClears.userId, conversationClears.peerId],
+      set: { clearedUpTo: lastId, clearedAt },
+    });
+  }
+
+  // One query: the newest visible message and unread count per peer, joined to the
+  // peer's profile and this device's envelope, with blocked peers left out.
+  async getConversations(userId: number, deviceId?: number): Promise<Conversation[]> {
+    const peerId = sql<number>`CASE WHEN ${messages.senderId} = ${userId} THEN ${messages.recipientId} ELSE ${messages.senderId} END`;
+    const latest = this.db.select({
+      peerId: peerId.as("peer_id"),
+      lastId: sql<number>`max(${messages.id})`.as("last_id"),
+      unread: sql<number>`sum(CASE WHEN ${messages.recipientId} = ${userId} AND ${messages.readAt} IS NULL AND ${messages.deleted} = 0 THEN 1 ELSE 0 END)`.as("unread"),
+    }).from(messages)
+      .where(and(or(eq(messages.senderId, userId), eq(messages.recipientId, userId)), this.visibleTo(userId, peerId)))
+      .groupBy(peerId)
+      .as("latest");
+
+    const rows = await this.db.select({
+      message: messages,
+      peer: {
+        username: users.username,
+        displayName: users.displayName,
+        profilePicture: users.profilePicture,
+        signingPublicKey: users.signingPublicKey,
+        readReceipts: users.readReceipts,
+        deletedAt: users.deletedAt,
+      },
+      unread: latest.unread,
+      envelope: messageEnvelopes.envelope,
+    }).from(latest)
+      .innerJoin(messages, eq(messages.id, latest.lastId))
+      .innerJoin(users, eq(users.id, latest.peerId))
+      .leftJoin(messageEnvelopes, and(
+        eq(messageEnvelopes.messageId, latest.lastId),
+        deviceId === undefined ? sql`0` : eq(messageEnvelopes.deviceId, deviceId)
+      ))
+      .where(notExists(
+        this.db.select({ id: blocks.id }).from(blocks).where(and(eq(blocks.blockerId, userId), eq(blocks.blockedId, latest.peerId)))
+      ))
+      .orderBy(desc(latest.lastId));
+
+    const revisions = await this.getLatestRevisions(rows.map(r => r.message), deviceId);
+    return rows.map(({ message, peer, unread, envelope }) => {
+      // Read state stays hidden from senders when the recipient turned receipts off.
+      const lastMessage = { ...message, readAt: message.senderId === userId && !peer.readReceipts ? null : message.readAt, envelope };
+      const revision = revisions.get(message.id);
+      return {
+        userId: message.senderId === userId ? message.recipientId : message.senderId,
+        username: peer.username,
+        displayName: peer.displayName,
+        profilePicture: peer.profilePicture,
+        signingPublicKey: peer.signingPublicKey,
+        deletedAt: peer.deletedAt,
+        lastMessage: revision ? withRevision(lastMessage, revision) : lastMessage,
+        lastMessageTime: message.timestamp,
+        unreadCount: Number(unread),
+      };
+    });
+  }
+
+  // Everyone the user has exchanged messages with, minus blocks in either direction.
+  async getContactIds(userId: number) {
+    const peerId = sql<number>`CASE WHEN ${messages.senderId} = ${userId} THEN ${messages.recipientId} ELSE ${messages.senderId} END`;
+    const rows = await this.db.selectDistinct({ peerId }).from(messages).where(and(
+      or(eq(messages.senderId, userId), eq(messages.recipientId, userId)),
+      notExists(this.db.select({ id: blocks.id }).from(blocks).where(or(
+        and(eq(blocks.blockerId, userId), eq(blocks.blockedId, peerId)),
+        and(eq(blocks.blockerId, peerId), eq(blocks.blockedId, userId))
+      )))
+    ));
+    return rows.map(r => r.peerId);
+  }
+
+  // When each user's most recently active device was last seen; null for users who hide it.
+  async getLastSeen(userIds: number[]) {
+    if (userIds.length === 0) return new Map<number, Date | null>();
+    const rows = await this.db.select({
+      userId: devices.userId,
+      lastSeenAt: sql<Date>`max(${devices.lastSeenAt})`.mapWith(devices.lastSeenAt),
+      hidden: users.hideLastSeen,
+    }).from(devices).innerJoin(users, eq(users.id, devices.userId))
+      .where(inArray(devices.userId, userIds))
+      .groupBy(devices.userId, users.hideLastSeen);
+    return new Map(rows.map(r => [r.userId, r.hidden ? null : r.lastSeenAt]));
+  }
+
+  async getReactions(messageId: number) {
+    return this.db.select().from(reactions).where(eq(reactions.messageId, messageId)).orderBy(reactions.id);
+  }
+
+  async addReaction(messageId: number, userId: number, emoji: string) {
+    await this.db.insert(reactions).values({ messageId, userId, emoji }).onConflictDoNothing();
+    return this.getReactions(messageId);
+  }
+
+  async removeReaction(messageId: number, userId: number, emoji: string) {
+    await this.db.delete(reactions).where(and(eq(reactions.messageId, messageId), eq(reactions.userId, userId), eq(reactions.emoji, emoji)));
+    return this.getReactions(messageId);
+  }
+
+  async createAttachment(id: string, uploaderId: number, size: number) {
+    return (await this.db.insert(attachments).values({ id, uploaderId, size }).returning())[0];
+  }
+
+  async getAttachment(id: string) {
+    return (await this.db.select().from(attachments).where(eq(attachments.id, id)).limit(1))[0];
+  }
+
+  async createGroup(name: string, createdBy: number, memberIds: number[]) {
+    const group = (await this.db.insert(groups).values({ name, createdBy }).returning())[0];
+    await this.addGroupMembers(group.id, [createdBy, ...memberIds]);
+    return group;
+  }
+
+  async getGroup(id: number) {
+    return (await this.db.select().from(groups).where(eq(groups.id, id)).limit(1))[0];
+  }
+
+  async getGroupWithMembers(id: number): Promise<GroupWithMembers | undefined> {
+    const group = await this.getGroup(id);
+    if (!group) return undefined;
+    const members = await this.db.select({
+      id: users.id,
+      username: users.username,
+      displayName: users.displayName,
+      profilePicture: users.profilePicture,
+      publicKey: users.publicKey,
+      signingPublicKey: users.signingPublicKey,
+    }).from(groupMembers).innerJoin(users, eq(groupMembers.userId, users.id))
+      .where(eq(groupMembers.groupId, id)).orderBy(groupMembers.id);
+    return { ...group, members };
+  }
+
+  async getGroupMemberIds(groupId: number) {
+    return (await this.db.select({ userId: groupMembers.userId }).from(groupMembers).where(eq(groupMembers.groupId, groupId))).map(m => m.userId);
+  }
+
+  async isGroupMember(groupId: number, userId: number) {
+    return (await this.db.select().from(groupMembers).where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId))).limit(1)).length > 0;
+  }
+
+  async renameGroup(id: number, name: string) {
+    return (await this.db.update(groups).set({ name }).where(eq(groups.id, id)).returning())[0];
+  }
+
+  async addGroupMembers(groupId: number, userIds: number[]) {
+    const uniqueIds = Array.from(new Set(userIds));
+    await this.db.insert(groupMembers).values(uniqueIds.map(userId => ({ groupId, userId }))).onConflictDoNothing();
+  }
+
+  // Removes a member; the group and its history go with the last one out.
+  async removeGroupMember(groupId: number, userId: number) {
+    const removed = await this.db.delete(groupMembers).where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId))).returning();
+    if (removed.length === 0) return false;
+    if ((await this.getGroupMemberIds(groupId)).length === 0) {
+      const messageIds = this.db.select({ id: groupMessages.id }).from(groupMessages).where(eq(groupMessages.groupId, groupId));
+      await this.db.delete(groupMessageKeys).where(inArray(groupMessageKeys.messageId, messageIds));
+      await this.db.delete(groupMessages).where(eq(groupMessages.groupId, groupId));
+      await this.db.delete(groups).where(eq(groups.id, groupId));
+    }
+    return true;
+  }
+
+  async getGroupConversations(userId: number): Promise<GroupConversation[]> {
+    const memberships = await this.db.select({ group: groups, lastReadMessageId: groupMembers.lastReadMessageId })
+      .from(groupMembers).innerJoin(groups, eq(groupMembers.groupId, groups.id))
+      .where(eq(groupMembers.userId, userId));
+
+    const result: GroupConversation[] = [];
+    for (const { group, lastReadMessageId } of memberships) {
+      const visible = and(eq(groupMessages.groupId, group.id), eq(groupMessageKeys.userId, userId));
+      const [last] = await this.db.select({ message: groupMessages }).from(groupMessages)
+        .innerJoin(groupMessageKeys, eq(groupMessageKeys.messageId, groupMessages.id))
+        .where(visible).orderBy(desc(groupMessages.id)).limit(1);
+      const [{ unread }] = await this.db.select({ unread: sql<number>`count(*)` }).from(groupMessages)
+        .innerJoin(groupMessageKeys, eq(groupMessageKeys.messageId, groupMessages.id))
+        .where(and(visible, gt(groupMessages.id, lastReadMessageId), sql`${groupMessages.senderId} != ${userId}`, eq(groupMessages.deleted, false)));
+      const [{ memberCount }] = await this.db.select({ memberCount: sql<number>`count(*)` }).from(groupMembers).where(eq(groupMembers.groupId, group.id));
+
+      result.push({
+        groupId: group.id,
+        name: group.name,
+        memberCount,
+        lastMessage: last?.message.deleted ? "[Message deleted]" : null,
+        lastMessageTime: last?.message.timestamp ?? group.createdAt,
+        unreadCount: unread,
+      });
+    }
+    return result.sort((a, b) => new Date(b.lastMessageTime!).getTime() - new Date(a.lastMessageTime!).getTime());
+  }
+
+  // Members only see messages whose content key was wrapped for them, so history
+  // from before they joined stays hidden.
+  async getGroupMessages(groupId: number, userId: number, page: MessagePage = {}): Promise<GroupMessageWithKey[]> {
+    const where = and(
+      eq(groupMessages.groupId, groupId),
+      eq(groupMessageKeys.userId, userId),
+      page.before === undefined ? undefined : lt(groupMessages.id, page.before),
+      page.after === undefined ? undefined : gt(groupMessages.id, page.after)
+    );
+    const limit = page.limit ?? DEFAULT_PAGE_SIZE;
+    const query = () => this.db.select({ message: groupMessages, encryptedKey: groupMessageKeys.encryptedKey }).from(groupMessages)
+      .innerJoin(groupMessageKeys, eq(groupMessageKeys.messageId, groupMessages.id)).where(where);
+
+    const rows = page.after !== undefined
+      ? await query().orderBy(asc(groupMessages.id)).limit(limit)
+      : (await query().orderBy(desc(groupMessages.id)).limit(limit)).reverse();
+    return rows.map(({ message, encryptedKey }) => ({ ...message, encryptedKey }));
+  }
+
+  async getGroupMessage(id: number) {
+    return (await this.db.select().from(groupMessages).where(eq(groupMessages.id, id)).limit(1))[0];
+  }
+
+  async createGroupMessage({ encryptedKeys, ...data }: InsertGroupMessage) {
+    const message = (await this.db.insert(groupMessages).values(data).returning())[0];
+    await this.db.insert(groupMessageKeys).values(encryptedKeys.map(k => ({ messageId: message.id, ...k })));
+    return message;
+  }
+
+  // The guard is part of the UPDATE, as in deleteForEveryone, so a delete racing
+  // the window or another delete can't slip through.
+  async deleteGroupMessage(id: number, userId: number) {
+    const [deleted] = await this.db.update(groupMessages).set({ deleted: true, encryptedContent: "", iv: "", signature: null }).where(and(
+      eq(groupMessages.id, id),
+      eq(groupMessages.senderId, userId),
+      eq(groupMessages.deleted, false),
+      gt(groupMessages.timestamp, new Date(Date.now() - DELETE_FOR_EVERYONE_WINDOW))
+    )).returning();
+    if (!deleted) return null;
+    // The key rows also say which members can see the message, so they stay, emptied.
+    await this.db.update(groupMessageKeys).set({ encryptedKey: "" }).where(eq(groupMessageKeys.messageId, id));
+    return deleted;
+  }
+
+  async markGroupRead(groupId: number, userId: number, upToMessageId: number) {
+    await this.db.update(groupMembers).set({ lastReadMessageId: upToMessageId }).where(and(
+      eq(groupMembers.groupId, groupId),
+      eq(groupMembers.userId, userId),
+      lt(groupMembers.lastReadMessageId, upToMessageId)
+    ));
+  }
+
+  async isBlocked(blockerId: number, blockedId: number) {
+    return (await this.db.select().from(blocks).where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId))).limit(1)).length > 0;
+  }
+
+  async blockUser(blockerId: number, blockedId: number) {
+    return (await this.db.insert(blocks).values({ blockerId, blockedId }).returning())[0];
+  }
+
+  async unblockUser(blockerId: number, blockedId: number) {
+    return (await this.db.delete(blocks).where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId))).returning()).length > 0;
+  }
+}
@@ -0,0 +1,653 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { openPostgres, openSqlite } from "./db";
+import { PostgresStorage } from "./postgres-storage";
+import { SqliteStorage } from "./sqlite-storage";
+import type { IStorage } from "./storage";
+import { DELETED_ACCOUNT_NAME, DELETE_FOR_EVERYONE_WINDOW, MESSAGE_EDIT_WINDOW } from "@shared/schema";
+
+// The same contract runs against both backends, since each IStorage method is
+// written twice. Postgres runs only when TEST_DATABASE_URL points at a scratch
+// database; every test makes its own users, so nothing has to be wiped first.
+const backends: { name: string; skip: string | false; open: () => { storage: IStorage; close: () => Promise<void> } }[] = [
+  {
+    name: "SqliteStorage",
+    skip: false,
+    open: () => {
+      const connection = openSqlite(":memory:");
+      return { storage: new SqliteStorage(connection), close: async () => { connection.sqlite.close(); } };
+    },
+  },
+  {
+    name: "PostgresStorage",
+    skip: process.env.TEST_DATABASE_URL ? false : "TEST_DATABASE_URL is not set",
+    open: () => {
+      const connection = openPostgres(process.env.TEST_DATABASE_URL!);
+      return { storage: new PostgresStorage(connection), close: () => connection.pool.end() };
+    },
+  },
+];
+
+const run = Date.now().toString(36);
+let counter = 0;
+
+function unique(prefix: string) {
+  return `${prefix}_${run}_${++counter}`;
+}
+
+function message(senderId: number, recipientId: number, content = "ciphertext") {
+  return { senderId, recipientId, encryptedContent: content, senderEncryptedKey: "sk", recipientEncryptedKey: "rk", iv: "iv", signature: "sig" };
+}
+
+function bundle(identityKey: string, keyIds: number[]) {
+  return {
+    identityKey,
+    identitySignature: "is",
+    signedPrekeyId: 1,
+    signedPrekey: "spk",
+    signedPrekeySignature: "sps",
+    oneTimePrekeys: keyIds.map(keyId => ({ keyId, publicKey: `otpk${keyId}` })),
+  };
+}
+
+for (const backend of backends) {
+  describe(backend.name, { skip: backend.skip }, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, close } = backend.open());
+      await storage.migrate();
+    });
+
+    after(() => close?.());
+
+    const createUser = () => {
+      const username = unique("user");
+      return storage.createUser({ username, passwordHash: "hash", displayName: username, publicKey: `pk_${username}` });
+    };
+
+    describe("users", () => {
+      it("finds users by username", async () => {
+        const alice = await createUser();
+        assert.equal((await storage.getUserByUsername(alice.username))?.id, alice.id);
+        assert.deepEqual((await storage.searchUsers(alice.username)).map(u => u.id), [alice.id]);
+        assert.equal(await storage.getUserByUsername(unique("missing")), undefined);
+      });
+
+      it("publishes a signing key only once", async () => {
+        const alice = await createUser();
+        assert.equal((await storage.setSigningKey(alice.id, { signingPublicKey: "a", encryptedSigningKey: "ea" }))?.signingPublicKey, "a");
+        assert.equal(await storage.setSigningKey(alice.id, { signingPublicKey: "b", encryptedSigningKey: "eb" }), undefined);
+        assert.equal((await storage.getUser(alice.id))?.signingPublicKey, "a");
+      });
+
+      it("anonymizes a deleted account and leaves it out of search", async () => {
+        const alice = await createUser();
+        assert.deepEqual(await storage.deleteUser(alice.id), []);
+        assert.equal(await storage.deleteUser(alice.id), null);
+
+        const deleted = await storage.getUser(alice.id);
+        assert.equal(deleted?.displayName, DELETED_ACCOUNT_NAME);
+        assert.equal(deleted?.publicKey, "");
+        assert.equal(deleted?.passwordHash, "");
+        assert.ok(deleted?.deletedAt);
+        assert.equal(await storage.getUserByUsername(alice.username), undefined);
+        assert.deepEqual(await storage.searchUsers(alice.username), []);
+      });
+
+      it("purges a deleted account's data but keeps messages a peer replied to", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const device = await storage.createDevice(alice.id, "laptop");
+        await storage.publishPrekeys(alice.id, device.id, bundle("ik", [1]));
+        await storage.createSession(alice.id, device.id, unique("hash"), new Date(Date.now() + 60_000));
+        await storage.saveTotpSecret(alice.id, "secret");
+        await storage.enableTotp(alice.id, 1, ["code"]);
+        await storage.blockUser(bob.id, alice.id);
+        const group = await storage.createGroup(unique("group"), alice.id, [bob.id]);
+        await storage.createGroupMessage({
+          groupId: group.id, senderId: alice.id, encryptedContent: "ciphertext", iv: "iv", type: "text",
+          encryptedKeys: [{ userId: alice.id, encryptedKey: "a" }, { userId: bob.id, encryptedKey: "b" }],
+        });
+
+        const quoted = await storage.createMessage(message(alice.id, bob.id));
+        const dropped = await storage.createMessage(message(alice.id, bob.id));
+        await storage.addReaction(dropped.id, bob.id, "👍");
+        const reply = await storage.createMessage({ ...message(bob.id, alice.id), replyToId: quoted.id });
+        const attachment = unique("attachment");
+        await storage.createAttachment(attachment, alice.id, 10);
+
+        assert.deepEqual(await storage.deleteUser(alice.id), [attachment]);
+        assert.equal(await storage.getMessage(dropped.id), undefined);
+        const tombstone = await storage.getMessage(quoted.id);
+        assert.equal(tombstone?.deleted, true);
+        assert.equal(tombstone?.encryptedContent, "");
+        assert.equal((await storage.getMessage(reply.id))?.replyToId, quoted.id);
+
+        assert.deepEqual(await storage.getDevices(alice.id), []);
+        assert.deepEqual(await storage.getSessions(alice.id), []);
+        assert.equal(await storage.getTotpCredential(alice.id), undefined);
+        assert.equal(await storage.isBlocked(bob.id, alice.id), false);
+        assert.deepEqual(await storage.getGroupMemberIds(group.id), [bob.id]);
+        assert.deepEqual(await storage.getGroupMessages(group.id, bob.id), []);
+        assert.equal(await storage.getAttachment(attachment), undefined);
+      });
+    });
+
+    describe("devices", () => {
+      it("deletes only the owner's device, with its sessions and prekeys", async () => {
+        const alice = await createUser();
+        const device = await storage.createDevice(alice.id, "phone");
+        await storage.publishPrekeys(alice.id, device.id, bundle("ik", [1]));
+        const session = await storage.createSession(alice.id, device.id, unique("hash"), new Date(Date.now() + 60_000));
+
+        assert.equal(await storage.deleteDevice(device.id, alice.id + 1), false);
+        assert.equal(await storage.deleteDevice(device.id, alice.id), true);
+        assert.equal(await storage.getDevice(device.id), undefined);
+        assert.equal(await storage.getSession(session.id), undefined);
+        assert.deepEqual(await storage.getPrekeyDeviceIds(alice.id), []);
+        assert.equal((await storage.getPrekeyStatus(device.id)).oneTimePrekeys, 0);
+      });
+    });
+
+    describe("sessions", () => {
+      it("rotates a refresh token once", async () => {
+        const alice = await createUser();
+        const device = await storage.createDevice(alice.id, "laptop");
+        const expiresAt = new Date(Date.now() + 60_000);
+        const first = unique("hash");
+        const second = unique("hash");
+        const session = await storage.createSession(alice.id, device.id, first, expiresAt);
+
+        assert.equal((await storage.rotateSession(first, second, expiresAt))?.id, session.id);
+        assert.equal(await storage.rotateSession(first, unique("hash"), expiresAt), undefined);
+        assert.equal((await storage.getSession(session.id))?.refreshTokenHash, second);
+        assert.deepEqual((await storage.getSessions(alice.id)).map(s => s.deviceName), ["laptop"]);
+      });
+
+      it("neither lists nor rotates expired sessions", async () => {
+        const alice = await createUser();
+        const device = await storage.createDevice(alice.id, "laptop");
+        const hash = unique("hash");
+        await storage.createSession(alice.id, device.id, hash, new Date(Date.now() - 60_000));
+
+        assert.deepEqual(await storage.getSessions(alice.id), []);
+        assert.equal(await storage.rotateSession(hash, unique("hash"), new Date(Date.now() + 60_000)), undefined);
+      });
+    });
+
+    describe("two-factor", () => {
+      it("accepts each TOTP step and backup code once", async () => {
+        const alice = await createUser();
+        assert.equal(await storage.saveTotpSecret(alice.id, "secret"), true);
+        assert.equal(await storage.saveTotpSecret(alice.id, "replaced"), true);
+        assert.equal(await storage.enableTotp(alice.id, 100, ["code1", "code2"]), true);
+        assert.equal(await storage.enableTotp(alice.id, 101, ["code3"]), false);
+        assert.equal(await storage.saveTotpSecret(alice.id, "other"), false);
+        assert.equal((await storage.getTotpCredential(alice.id))?.encryptedSecret, "replaced");
+
+        assert.equal(await storage.useTotpStep(alice.id, 100), false);
+        assert.equal(await storage.useTotpStep(alice.id, 101), true);
+        assert.equal(await storage.useTotpStep(alice.id, 101), false);
+
+        assert.equal(await storage.getBackupCodeCount(alice.id), 2);
+        assert.equal(await storage.useBackupCode(alice.id, "code1"), true);
+        assert.equal(await storage.useBackupCode(alice.id, "code1"), false);
+        assert.equal(await storage.useBackupCode(alice.id, "code3"), false);
+        assert.equal(await storage.getBackupCodeCount(alice.id), 1);
+
+        await storage.disableTotp(alice.id);
+        assert.equal(await storage.getTotpCredential(alice.id), undefined);
+        assert.equal(await storage.getBackupCodeCount(alice.id), 0);
+      });
+    });
+
+    describe("rate limits", () => {
+      it("counts hits within a window and starts over after it", async () => {
+        const key = unique("key");
+        assert.equal((await storage.hitRateLimit(key, 60_000)).count, 1);
+        const second = await storage.hitRateLimit(key, 60_000);
+        assert.equal(second.count, 2);
+        assert.ok(second.resetAt.getTime() > Date.now());
+
+        const expiring = unique("key");
+        await storage.hitRateLimit(expiring, -1000);
+        assert.equal((await storage.hitRateLimit(expiring, 60_000)).count, 1);
+      });
+
+      it("counts login failures until they go stale", async () => {
+        const username = unique("login");
+        const past = new Date(Date.now() - 60_000);
+        assert.equal(await storage.recordLoginFailure(username, past), 1);
+        assert.equal(await storage.recordLoginFailure(username, past), 2);
+        assert.equal(await storage.recordLoginFailure(username, new Date(Date.now() + 60_000)), 1);
+
+        await storage.lockLogin(username, new Date(Date.now() + 60_000));
+        assert.ok((await storage.getLoginFailure(username))!.lockedUntil!.getTime() > Date.now());
+        await storage.clearLoginFailures(username);
+        assert.equal(await storage.getLoginFailure(username), undefined);
+      });
+
+      it("prunes expired windows and stale login failures", async () => {
+        const expired = unique("key");
+        const live = unique("key");
+        const username = unique("login");
+        await storage.hitRateLimit(expired, -1000);
+        await storage.hitRateLimit(live, 60_000);
+        await storage.recordLoginFailure(username, new Date());
+
+        await storage.pruneRateLimits(new Date(Date.now() + 60_000));
+        assert.equal(await storage.getLoginFailure(username), undefined);
+        assert.equal((await storage.hitRateLimit(expired, 60_000)).count, 1);
+        assert.equal((await storage.hitRateLimit(live, 60_000)).count, 2);
+      });
+    });
+
+    describe("prekeys", () => {
+      it("hands out each one-time prekey once", async () => {
+        const alice = await createUser();
+        const device = await storage.createDevice(alice.id, "laptop");
+        await storage.publishPrekeys(alice.id, device.id, bundle("ik", [1, 2]));
+        assert.equal((await storage.getPrekeyStatus(device.id)).oneTimePrekeys, 2);
+
+        const [first] = await storage.claimPrekeys(alice.id, [device.id]);
+        const [second] = await storage.claimPrekeys(alice.id, [device.id]);
+        assert.deepEqual([first.oneTimePrekey?.keyId, second.oneTimePrekey?.keyId], [1, 2]);
+
+        const [exhausted] = await storage.claimPrekeys(alice.id, [device.id]);
+        assert.equal(exhausted.identityKey, "ik");
+        assert.equal(exhausted.oneTimePrekey, null);
+        assert.equal((await storage.getPrekeyStatus(device.id)).oneTimePrekeys, 0);
+      });
+
+      it("never hands the same one-time prekey to concurrent claims", async () => {
+        const alice = await createUser();
+        const device = await storage.createDevice(alice.id, "laptop");
+        const keyIds = Array.from({ length: 10 }, (_, i) => i + 1);
+        await storage.publishPrekeys(alice.id, device.id, bundle("ik", keyIds));
+
+        const claims = await Promise.all(keyIds.map(() => storage.claimPrekeys(alice.id, [device.id])));
+        const claimed = claims.map(([claim]) => claim.oneTimePrekey?.keyId).sort((a, b) => a! - b!);
+        assert.deepEqual(claimed, keyIds);
+      });
+
+      it("drops a device's one-time prekeys when its identity key changes", async () => {
+        const alice = await createUser();
+        const device = await storage.createDevice(alice.id, "laptop");
+        await storage.publishPrekeys(alice.id, device.id, bundle("old", [1, 2]));
+        await storage.publishPrekeys(alice.id, device.id, bundle("new", [3]));
+
+        const status = await storage.getPrekeyStatus(device.id);
+        assert.equal(status.identityKey, "new");
+        assert.equal(status.oneTimePrekeys, 1);
+      });
+
+      it("lists the devices that published prekeys", async () => {
+        const alice = await createUser();
+        const laptop = await storage.createDevice(alice.id, "laptop");
+        const phone = await storage.createDevice(alice.id, "phone");
+        await storage.createDevice(alice.id, "tablet");
+        await storage.publishPrekeys(alice.id, laptop.id, bundle("zeta", []));
+        await storage.publishPrekeys(alice.id, phone.id, bundle("alpha", []));
+
+        assert.deepEqual((await storage.getPrekeyDeviceIds(alice.id)).sort((a, b) => a - b), [laptop.id, phone.id]);
+      });
+    });
+
+    describe("direct messages", () => {
+      it("pages through a conversation from either end", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const ids: number[] = [];
+        for (let i = 0; i < 5; i++) ids.push((await storage.createMessage(message(alice.id, bob.id, `m${i}`))).id);
+
+        assert.deepEqual((await storage.getMessages(bob.id, alice.id, { limit: 2 })).map(m => m.id), ids.slice(3));
+        assert.deepEqual((await storage.getMessages(bob.id, alice.id, { before: ids[3], limit: 2 })).map(m => m.id), ids.slice(1, 3));
+        assert.deepEqual((await storage.getMessages(bob.id, alice.id, { after: ids[0], limit: 2 })).map(m => m.id), ids.slice(1, 3));
+      });
+
+      it("gives each device only its own envelope", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const laptop = await storage.createDevice(bob.id, "laptop");
+        const phone = await storage.createDevice(bob.id, "phone");
+        await storage.createMessage({ ...message(alice.id, bob.id), encryption: "ratchet" }, [
+          { deviceId: laptop.id, envelope: "for laptop" },
+          { deviceId: phone.id, envelope: "for phone" },
+        ]);
+
+        assert.equal((await storage.getMessages(bob.id, alice.id, {}, phone.id))[0].envelope, "for phone");
+        assert.equal((await storage.getMessages(bob.id, alice.id))[0].envelope, null);
+      });
+
+      it("marks messages delivered and read up to a point", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const first = await storage.createMessage(message(alice.id, bob.id));
+        const second = await storage.createMessage(message(alice.id, bob.id));
+
+        assert.equal((await storage.markRead(bob.id, alice.id, first.id)).length, 1);
+        const read = await storage.getMessage(first.id);
+        assert.ok(read?.readAt);
+        assert.ok(read?.deliveredAt);
+        assert.equal((await storage.getMessage(second.id))?.readAt, null);
+
+        assert.deepEqual((await storage.markDelivered(bob.id, alice.id)).map(m => m.id), [second.id]);
+        assert.deepEqual(await storage.markDelivered(bob.id, alice.id), []);
+      });
+
+      it("keeps revisions of an edit and shows the latest", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const original = await storage.createMessage(message(alice.id, bob.id, "v0"));
+        const revision = { encryptedContent: "v1", senderEncryptedKey: "sk", recipientEncryptedKey: "rk", iv: "iv1" };
+
+        assert.equal(await storage.editMessage(original.id, bob.id, revision), null);
+        assert.ok(await storage.editMessage(original.id, alice.id, revision));
+        assert.ok(await storage.editMessage(original.id, alice.id, { ...revision, encryptedContent: "v2" }));
+
+        const [shown] = await storage.getMessages(bob.id, alice.id);
+        assert.equal(shown.encryptedContent, "v2");
+        assert.ok(shown.editedAt);
+        assert.equal((await storage.getConversations(bob.id))[0].lastMessage?.encryptedContent, "v2");
+        const history = await storage.getMessageHistory(original.id);
+        assert.equal(history?.original.encryptedContent, "v0");
+        assert.equal(history?.original.editedAt, null);
+        assert.deepEqual(history?.revisions.map(r => r.encryptedContent), ["v1", "v2"]);
+      });
+
+      it("keeps a ratchet edit on the ratchet, with each device's own envelope", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const phone = await storage.createDevice(bob.id, "phone");
+        const original = await storage.createMessage(
+          { ...message(alice.id, bob.id, "v0"), senderEncryptedKey: "", recipientEncryptedKey: "", encryption: "ratchet" },
+          [{ deviceId: phone.id, envelope: "v0 for phone" }]
+        );
+        const edit = { encryptedContent: "v1", senderEncryptedKey: "", recipientEncryptedKey: "", iv: "iv1", encryption: "ratchet" as const };
+        assert.ok(await storage.editMessage(original.id, alice.id, edit, [{ deviceId: phone.id, envelope: "v1 for phone" }]));
+
+        const [shown] = await storage.getMessages(bob.id, alice.id, {}, phone.id);
+        assert.equal(shown.encryption, "ratchet");
+        assert.equal(shown.senderEncryptedKey, "");
+        assert.equal(shown.recipientEncryptedKey, "");
+        assert.equal(shown.envelope, "v1 for phone");
+        assert.equal((await storage.getMessages(bob.id, alice.id))[0].envelope, null);
+        assert.equal((await storage.getConversations(bob.id, phone.id))[0].lastMessage?.envelope, "v1 for phone");
+
+        const history = await storage.getMessageHistory(original.id, phone.id);
+        assert.equal(history?.original.envelope, "v0 for phone");
+        assert.deepEqual(history?.revisions.map(r => [r.encryption, r.senderEncryptedKey, r.recipientEncryptedKey, r.envelope]), [
+          ["ratchet", "", "", "v1 for phone"],
+        ]);
+
+        // The device's envelopes, edits included, go with it.
+        assert.equal(await storage.deleteDevice(phone.id, bob.id), true);
+        assert.equal((await storage.getMessageHistory(original.id, phone.id))?.revisions[0].envelope, null);
+      });
+
+      it("refuses edits to images, deleted messages and messages past the edit window", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const revision = { encryptedContent: "v1", senderEncryptedKey: "sk", recipientEncryptedKey: "rk", iv: "iv1" };
+        const image = await storage.createMessage({ ...message(alice.id, bob.id), type: "image" });
+        const old = await storage.createMessage({ ...message(alice.id, bob.id), timestamp: new Date(Date.now() - MESSAGE_EDIT_WINDOW - 60_000) });
+        const deleted = await storage.createMessage(message(alice.id, bob.id));
+        await storage.deleteMessage(deleted.id, alice.id);
+
+        for (const { id } of [image, old, deleted]) {
+          assert.equal(await storage.editMessage(id, alice.id, revision), null);
+          assert.deepEqual((await storage.getMessageHistory(id))?.revisions, []);
+        }
+      });
+
+      it("purges the sender's messages deleted for everyone inside the window", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const device = await storage.createDevice(bob.id, "laptop");
+        const sent = await storage.createMessage(message(alice.id, bob.id), [{ deviceId: device.id, envelope: "env" }]);
+        await storage.editMessage(sent.id, alice.id, { encryptedContent: "v1", senderEncryptedKey: "sk", recipientEncryptedKey: "rk", iv: "iv1" });
+        const old = await storage.createMessage({ ...message(alice.id, bob.id), timestamp: new Date(Date.now() - DELETE_FOR_EVERYONE_WINDOW - 60_000) });
+
+        assert.equal(await storage.deleteMessage(sent.id, bob.id), null);
+        assert.equal(await storage.deleteMessage(old.id, alice.id), null);
+        assert.equal((await storage.deleteMessage(sent.id, alice.id))?.id, sent.id);
+        assert.equal(await storage.deleteMessage(sent.id, alice.id), null);
+
+        const tombstone = (await storage.getMessages(bob.id, alice.id, {}, device.id)).find(m => m.id === sent.id);
+        assert.equal(tombstone?.deleted, true);
+        assert.equal(tombstone?.encryptedContent, "");
+        assert.equal(tombstone?.senderEncryptedKey, "");
+        assert.equal(tombstone?.recipientEncryptedKey, "");
+        assert.equal(tombstone?.iv, "");
+        assert.equal(tombstone?.signature, null);
+        assert.equal(tombstone?.envelope, null);
+        assert.deepEqual((await storage.getMessageHistory(sent.id))?.revisions, []);
+      });
+
+      it("deletes for everyone in bulk and per conversation", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const carol = await createUser();
+        const toBob = await storage.createMessage(message(alice.id, bob.id));
+        const fromBob = await storage.createMessage(message(bob.id, alice.id));
+        const toCarol = await storage.createMessage(message(alice.id, carol.id));
+
+        assert.deepEqual(await storage.deleteMessages([], alice.id), []);
+        assert.deepEqual((await storage.deleteMessages([toBob.id, fromBob.id], alice.id)).map(m => m.id), [toBob.id]);
+        const second = await storage.createMessage(message(alice.id, bob.id));
+        assert.deepEqual((await storage.deleteMessagesTo(alice.id, bob.id)).map(m => m.id), [second.id]);
+        assert.equal((await storage.getMessage(fromBob.id))?.deleted, false);
+        assert.equal((await storage.getMessage(toCarol.id))?.deleted, false);
+      });
+
+      it("hides messages and clears conversations for one side only", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const first = await storage.createMessage(message(alice.id, bob.id));
+        const second = await storage.createMessage(message(bob.id, alice.id));
+
+        const stranger = await createUser();
+        assert.deepEqual(await storage.hideMessages([first.id], stranger.id), []);
+        assert.equal((await storage.hideMessages([first.id], bob.id)).length, 1);
+        assert.deepEqual((await storage.getMessages(bob.id, alice.id)).map(m => m.id), [second.id]);
+        assert.equal((await storage.getMessages(alice.id, bob.id)).length, 2);
+
+        await storage.clearConversation(alice.id, bob.id);
+        assert.deepEqual(await storage.getMessages(alice.id, bob.id), []);
+        assert.deepEqual(await storage.getConversations(alice.id), []);
+        assert.equal((await storage.getConversations(bob.id)).length, 1);
+
+        const third = await storage.createMessage(message(bob.id, alice.id));
+        assert.deepEqual((await storage.getMessages(alice.id, bob.id)).map(m => m.id), [third.id]);
+        assert.equal((await storage.getConversations(alice.id))[0].unreadCount, 1);
+      });
+
+      it("adds and removes reactions", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const sent = await storage.createMessage(message(alice.id, bob.id));
+
+        await storage.addReaction(sent.id, bob.id, "👍");
+        assert.equal((await storage.addReaction(sent.id, bob.id, "👍")).length, 1);
+        assert.equal((await storage.getMessages(alice.id, bob.id))[0].reactions.length, 1);
+        assert.deepEqual(await storage.removeReaction(sent.id, bob.id, "👍"), []);
+      });
+
+      it("keeps the message a reply quotes", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const original = await storage.createMessage(message(alice.id, bob.id));
+        const reply = await storage.createMessage({ ...message(bob.id, alice.id), replyToId: original.id });
+
+        assert.equal(reply.replyToId, original.id);
+        assert.deepEqual((await storage.getMessages(alice.id, bob.id)).map(m => m.replyToId), [null, original.id]);
+      });
+    });
+
+    describe("conversations", () => {
+      it("lists each peer with the newest message and unread count", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const carol = await createUser();
+        await storage.createMessage(message(bob.id, alice.id));
+        const fromBob = await storage.createMessage(message(bob.id, alice.id));
+        const toCarol = await storage.createMessage(message(alice.id, carol.id));
+        const deleted = await storage.createMessage(message(bob.id, alice.id));
+        await storage.deleteMessage(deleted.id, bob.id);
+
+        const conversations = await storage.getConversations(alice.id);
+        assert.deepEqual(conversations.map(c => [c.userId, c.lastMessage?.id, c.unreadCount]), [
+          [bob.id, deleted.id, 2],
+          [carol.id, toCarol.id, 0],
+        ]);
+
+        await storage.markRead(alice.id, bob.id, fromBob.id);
+        assert.equal((await storage.getConversations(alice.id))[0].unreadCount, 0);
+      });
+
+      it("hides a sender's read state when the recipient turned receipts off", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const sent = await storage.createMessage(message(alice.id, bob.id));
+        await storage.markRead(bob.id, alice.id, sent.id);
+        await storage.updatePrivacySettings(bob.id, { readReceipts: false });
+
+        assert.equal((await storage.getConversations(alice.id))[0].lastMessage?.readAt, null);
+        assert.ok((await storage.getConversations(bob.id))[0].lastMessage?.readAt);
+      });
+
+      it("leaves out blocked peers", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const carol = await createUser();
+        await storage.createMessage(message(bob.id, alice.id));
+        await storage.createMessage(message(carol.id, alice.id));
+
+        await storage.blockUser(alice.id, bob.id);
+        assert.equal(await storage.isBlocked(alice.id, bob.id), true);
+        assert.equal(await storage.isBlocked(bob.id, alice.id), false);
+        assert.deepEqual((await storage.getConversations(alice.id)).map(c => c.userId), [carol.id]);
+
+        assert.equal(await storage.unblockUser(alice.id, bob.id), true);
+        assert.deepEqual((await storage.getConversations(alice.id)).map(c => c.userId), [carol.id, bob.id]);
+      });
+    });
+
+    describe("presence", () => {
+      it("lists contacts, minus blocks in either direction", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const carol = await createUser();
+        await storage.createMessage(message(alice.id, bob.id));
+        await storage.createMessage(message(carol.id, alice.id));
+        await storage.createMessage(message(alice.id, carol.id));
+
+        assert.deepEqual((await storage.getContactIds(alice.id)).sort((a, b) => a - b), [bob.id, carol.id]);
+        await storage.blockUser(bob.id, alice.id);
+        assert.deepEqual(await storage.getContactIds(alice.id), [carol.id]);
+        assert.deepEqual(await storage.getContactIds(bob.id), []);
+      });
+
+      it("reports last seen unless the user hides it", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const carol = await createUser();
+        await storage.createDevice(alice.id, "laptop");
+        await storage.createDevice(alice.id, "phone");
+        await storage.createDevice(bob.id, "laptop");
+        await storage.updatePrivacySettings(bob.id, { hideLastSeen: true });
+
+        const lastSeen = await storage.getLastSeen([alice.id, bob.id, carol.id]);
+        assert.ok(lastSeen.get(alice.id) instanceof Date);
+        assert.equal(lastSeen.get(bob.id), null);
+        assert.equal(lastSeen.has(carol.id), false);
+        assert.equal((await storage.getLastSeen([])).size, 0);
+      });
+    });
+
+    describe("groups", () => {
+      const groupMessage = (groupId: number, senderId: number, recipientIds: number[]) => storage.createGroupMessage({
+        groupId, senderId, encryptedContent: "ciphertext", iv: "iv", type: "text", signature: "sig",
+        encryptedKeys: recipientIds.map(userId => ({ userId, encryptedKey: `key${userId}` })),
+      });
+
+      it("shows members only the messages wrapped for them", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const group = await storage.createGroup(unique("group"), alice.id, [bob.id]);
+        const before = await groupMessage(group.id, alice.id, [alice.id, bob.id]);
+
+        const carol = await createUser();
+        await storage.addGroupMembers(group.id, [carol.id, bob.id]);
+        const after = await groupMessage(group.id, alice.id, [alice.id, bob.id, carol.id]);
+
+        assert.deepEqual((await storage.getGroupMemberIds(group.id)).sort((a, b) => a - b), [alice.id, bob.id, carol.id]);
+        assert.deepEqual((await storage.getGroupWithMembers(group.id))?.members.map(m => m.id), [alice.id, bob.id, carol.id]);
+        assert.deepEqual((await storage.getGroupMessages(group.id, bob.id)).map(m => m.id), [before.id, after.id]);
+        assert.deepEqual((await storage.getGroupMessages(group.id, carol.id)).map(m => [m.id, m.encryptedKey]), [[after.id, `key${carol.id}`]]);
+      });
+
+      it("counts unread group messages from others", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const group = await storage.createGroup(unique("group"), alice.id, [bob.id]);
+        const first = await groupMessage(group.id, alice.id, [alice.id, bob.id]);
+        await groupMessage(group.id, alice.id, [alice.id, bob.id]);
+        await groupMessage(group.id, bob.id, [alice.id, bob.id]);
+
+        const [conversation] = await storage.getGroupConversations(bob.id);
+        assert.equal(conversation.groupId, group.id);
+        assert.equal(conversation.memberCount, 2);
+        assert.equal(conversation.unreadCount, 2);
+
+        await storage.markGroupRead(group.id, bob.id, first.id);
+        assert.equal((await storage.getGroupConversations(bob.id))[0].unreadCount, 1);
+      });
+
+      it("purges a group message its sender deletes for everyone inside the window", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const carol = await createUser();
+        const group = await storage.createGroup(unique("group"), alice.id, [bob.id, carol.id]);
+        // The API never sets a group message's timestamp, but storage keeps one it's given.
+        const backdated = { timestamp: new Date(Date.now() - DELETE_FOR_EVERYONE_WINDOW - 60_000) };
+        const old = await storage.createGroupMessage({
+          groupId: group.id, senderId: alice.id, encryptedContent: "ciphertext", iv: "iv", type: "text",
+          encryptedKeys: [{ userId: bob.id, encryptedKey: "key" }], ...backdated,
+        });
+        const sent = await groupMessage(group.id, alice.id, [alice.id, bob.id]);
+
+        assert.equal(await storage.deleteGroupMessage(sent.id, bob.id), null);
+        assert.equal(await storage.deleteGroupMessage(old.id, alice.id), null);
+        assert.equal((await storage.deleteGroupMessage(sent.id, alice.id))?.id, sent.id);
+        assert.equal(await storage.deleteGroupMessage(sent.id, alice.id), null);
+        assert.equal((await storage.getGroupConversations(bob.id))[0].lastMessage, "[Message deleted]");
+
+        // The emptied key rows still decide who sees the tombstone.
+        const tombstone = (await storage.getGroupMessages(group.id, bob.id)).find(m => m.id === sent.id);
+        assert.equal(tombstone?.deleted, true);
+        assert.equal(tombstone?.encryptedContent, "");
+        assert.equal(tombstone?.iv, "");
+        assert.equal(tombstone?.signature, null);
+        assert.equal(tombstone?.encryptedKey, "");
+        assert.deepEqual(await storage.getGroupMessages(group.id, carol.id), []);
+      });
+
+      it("removes the group with its last member", async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+        const group = await storage.createGroup(unique("group"), alice.id, [bob.id]);
+        await groupMessage(group.id, alice.id, [alice.id, bob.id]);
+
+        assert.equal(await storage.removeGroupMember(group.id, bob.id), true);
+        assert.equal(await storage.isGroupMember(group.id, bob.id), false);
+        assert.equal(await storage.removeGroupMember(group.id, bob.id), false);
+        assert.ok(await storage.getGroup(group.id));
+        assert.equal(await storage.removeGroupMember(group.id, alice.id), true);
+        assert.equal(await storage.getGroup(group.id), undefined);
+      });
+    });
+  });
+}
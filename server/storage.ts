@@ -1,108 +1,127 @@
-import { eq, and, or, desc, sql, inArray } from "drizzle-orm";
-import { db } from "./db";
-import { users, messages, blocks, type User, type Message, type Conversation } from "@shared/schema";
-
-class Storage {
-  async getUser(id: number) {
-    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
-    return result[0];
-  }
-
-  async getUserByUsername(username: string) {
-    return (await db.select().from(users).where(eq(users.username, username)).limit(1))[0];
-  }
-
-  async searchUsers(query: string) {
-    return db.select().from(users).where(sql`LOWER(${users.username}) LIKE ${`%${query}%`}`).limit(20);
-  }
-
-  async createUser(data: typeof users.$inferInsert) {
-    return (await db.insert(users).values(data).returning())[0];
-  }
-
-  async updateUserPassword(userId: number, passwordHash: string) {
-    return (await db.update(users).set({ passwordHash }).where(eq(users.id, userId)).returning()).length > 0;
-  }
-
-  async updateProfilePicture(userId: number, profilePicture: string | null) {
-    const result = await db.update(users).set({ profilePicture }).where(eq(users.id, userId)).returning();
-    if (result.length === 0) return null;
-    return result[0];
-  }
-
-  async getMessages(userId1: number, userId2: number) {
-    return db.select().from(messages).where(
-      or(
-        and(eq(messages.senderId, userId1), eq(messages.recipientId, userId2)),
-        and(eq(messages.senderId, userId2), eq(messages.recipientId, userId1))
-      )
-    ).orderBy(messages.timestamp);
-  }
-
-  async createMessage(data: typeof messages.$inferInsert) {
-    return (await db.insert(messages).values(data).returning())[0];
-  }
-
-  async deleteMessage(messageId: number, userId: number) {
-    const msg = (await db.select().from(messages).where(eq(messages.id, messageId)).limit(1))[0];
-    if (!msg || msg.senderId !== userId) return false;
-    await db.update(messages).set({ deleted: true }).where(eq(messages.id, messageId));
-    return true;
-  }
-
-  async deleteMessages(messageIds: number[], userId: number) {
-    const msgs = await db.select().from(messages).where(inArray(messages.id, messageIds));
-    const validIds = msgs.filter(m => m.senderId === userId).map(m => m.id);
-    if (validIds.length === 0) return false;
-    await db.update(messages).set({ deleted: true }).where(inArray(messages.id, validIds));
-    return true;
-  }
-
-  async deleteConversation(userId1: number, userId2: number) {
-    await db.delete(messages).where(
-      or(
-        and(eq(messages.senderId, userId1), eq(messages.recipientId, userId2)),
-        and(eq(messages.senderId, userId2), eq(messages.recipientId, userId1))
-      )
-    );
-  }
-
-  async getConversations(userId: number): Promise<Conversation[]> {
-    const blockedIds = (await db.select({ id: blocks.blockedId }).from(blocks).where(eq(blocks.blockerId, userId))).map(b => b.id);
-    const msgs = await db.select().from(messages).where(or(eq(messages.senderId, userId), eq(messages.recipientId, userId))).orderBy(desc(messages.timestamp));
-    
-    const convMap = new Map<number, Conversation>();
-    for (const msg of msgs) {
-      const otherId = msg.senderId === userId ? msg.recipientId : msg.senderId;
-      if (blockedIds.includes(otherId) || convMap.has(otherId)) continue;
-      
-      const other = await this.getUser(otherId);
-      if (!other) continue;
-      
-      convMap.set(otherId, {
-        userId: otherId,
-        username: other.username,
-        displayName: other.displayName,
-        profilePicture: other.profilePicture,
-        lastMessage: msg.deleted ? "[Message deleted]" : null,
-        lastMessageTime: msg.timestamp,
-        unreadCount: 0,
-      });
-    }
-    return Array.from(convMap.values());
-  }
-
-  async isBlocked(blockerId: number, blockedId: number) {
-    return (await db.select().from(blocks).where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId))).limit(1)).length > 0;
-  }
-
-  async blockUser(blockerId: number, blockedId: number) {
-    return (await db.insert(blocks).values({ blockerId, blockedId }).returning())[0];
-  }
+import { openPostgres, openSqlite } from "./db";
+import { PostgresStorage } from "./postgres-storage";
+import { SqliteStorage } from "./sqlite-storage";
+import {
+  type users, type messages, type messageRevisions,
+  type User, type Message, type MessageWithReactions, type Conversation, type Device, type Reaction,
+  type Attachment, type Block, type Group, type GroupMessage, type GroupWithMembers, type GroupConversation,
+  type GroupMessageWithKey, type InsertGroupMessage, type PublishPrekeys, type ClaimedPrekeyBundle,
+  type PrekeyStatus, type PrivacySettings, type MessageRevision, type MessageHistory,
+  type Session, type SessionInfo, type TotpCredential, type RateLimit, type LoginFailure,
+} from "@shared/schema";
+
+export interface MessagePage {
+  before?: number;
+  after?: number;
+  limit?: number;
+}
 
-  async unblockUser(blockerId: number, blockedId: number) {
-    return (await db.delete(blocks).where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId))).returning()).length > 0;
-  }
+export interface IStorage {
+  // Brings the database up to the latest migration; returns the names applied.
+  migrate(): Promise<string[]>;
+
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  searchUsers(query: string): Promise<User[]>;
+  createUser(data: typeof users.$inferInsert): Promise<User>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<boolean>;
+  updateProfilePicture(userId: number, profilePicture: string | null): Promise<User | null>;
+  updatePrivacySettings(userId: number, settings: Partial<PrivacySettings>): Promise<User | undefined>;
+  setSigningKey(userId: number, key: Pick<User, "signingPublicKey" | "encryptedSigningKey">): Promise<User | undefined>;
+  // Anonymizes the account and purges what it sent or owns. Returns the ids of its
+  // attachments, whose files the caller removes; null if there's no such live account.
+  deleteUser(userId: number): Promise<string[] | null>;
+
+  createDevice(userId: number, name: string): Promise<Device>;
+  getDevice(id: number): Promise<Device | undefined>;
+  getDevices(userId: number): Promise<Device[]>;
+  touchDevice(id: number): Promise<void>;
+  deleteDevice(id: number, userId: number): Promise<boolean>;
+
+  getTotpCredential(userId: number): Promise<TotpCredential | undefined>;
+  // False while 2FA is enabled; a pending secret is replaced.
+  saveTotpSecret(userId: number, encryptedSecret: string): Promise<boolean>;
+  enableTotp(userId: number, step: number, codeHashes: string[]): Promise<boolean>;
+  // Each TOTP time step and each backup code works once; false if already used.
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  useBackupCode(userId: number, codeHash: string): Promise<boolean>;
+  getBackupCodeCount(userId: number): Promise<number>;
+  disableTotp(userId: number): Promise<void>;
+
+  // Counts a hit against a fixed window, starting a new one once `resetAt` has passed.
+  hitRateLimit(key: string, windowMs: number): Promise<Pick<RateLimit, "count" | "resetAt">>;
+  getLoginFailure(username: string): Promise<LoginFailure | undefined>;
+  // Failures from before `staleBefore` are forgotten first; returns the new count.
+  recordLoginFailure(username: string, staleBefore: Date): Promise<number>;
+  lockLogin(username: string, until: Date): Promise<void>;
+  clearLoginFailures(username: string): Promise<void>;
+  // Drops expired windows and failures from before `staleBefore`.
+  pruneRateLimits(staleBefore: Date): Promise<void>;
+
+  createSession(userId: number, deviceId: number, refreshTokenHash: string, expiresAt: Date): Promise<Session>;
+  getSession(id: number): Promise<Session | undefined>;
+  getSessions(userId: number): Promise<Omit<SessionInfo, "current">[]>;
+  // Swaps the refresh token of an unexpired session; undefined if the old one was already used.
+  rotateSession(refreshTokenHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined>;
+
+  getPrekeyStatus(deviceId: number): Promise<PrekeyStatus>;
+  publishPrekeys(userId: number, deviceId: number, prekeys: PublishPrekeys): Promise<void>;
+  getPrekeyDeviceIds(userId: number): Promise<number[]>;
+  claimPrekeys(userId: number, deviceIds: number[]): Promise<ClaimedPrekeyBundle[]>;
+
+  getMessage(id: number): Promise<Message | undefined>;
+  getMessages(userId: number, peerId: number, page?: MessagePage, deviceId?: number): Promise<MessageWithReactions[]>;
+  createMessage(data: typeof messages.$inferInsert, envelopes?: { deviceId: number; envelope: string }[]): Promise<Message>;
+  markDelivered(recipientId: number, senderId?: number): Promise<Message[]>;
+  markRead(recipientId: number, senderId: number, upToMessageId: number): Promise<Message[]>;
+  // Null unless the user sent it as text, it isn't deleted and MESSAGE_EDIT_WINDOW hasn't passed.
+  editMessage(
+    messageId: number,
+    userId: number,
+    revision: Omit<typeof messageRevisions.$inferInsert, "id" | "messageId" | "editedAt">,
+    envelopes?: { deviceId: number; envelope: string }[]
+  ): Promise<{ message: Message; revision: MessageRevision } | null>;
+  getMessageHistory(messageId: number, deviceId?: number): Promise<MessageHistory | undefined>;
+  // Deleting for everyone is limited to the sender and DELETE_FOR_EVERYONE_WINDOW;
+  // hiding and clearing only change what the calling user sees.
+  deleteMessage(messageId: number, userId: number): Promise<Message | null>;
+  deleteMessages(messageIds: number[], userId: number): Promise<Message[]>;
+  deleteMessagesTo(userId: number, peerId: number): Promise<Message[]>;
+  hideMessages(messageIds: number[], userId: number): Promise<Message[]>;
+  clearConversation(userId: number, peerId: number): Promise<void>;
+  getConversations(userId: number, deviceId?: number): Promise<Conversation[]>;
+  getContactIds(userId: number): Promise<number[]>;
+  getLastSeen(userIds: number[]): Promise<Map<number, Date | null>>;
+
+  getReactions(messageId: number): Promise<Reaction[]>;
+  addReaction(messageId: number, userId: number, emoji: string): Promise<Reaction[]>;
+  removeReaction(messageId: number, userId: number, emoji: string): Promise<Reaction[]>;
+
+  createAttachment(id: string, uploaderId: number, size: number): Promise<Attachment>;
+  getAttachment(id: string): Promise<Attachment | undefined>;
+
+  createGroup(name: string, createdBy: number, memberIds: number[]): Promise<Group>;
+  getGroup(id: number): Promise<Group | undefined>;
+  getGroupWithMembers(id: number): Promise<GroupWithMembers | undefined>;
+  getGroupMemberIds(groupId: number): Promise<number[]>;
+  isGroupMember(groupId: number, userId: number): Promise<boolean>;
+  renameGroup(id: number, name: string): Promise<Group | undefined>;
+  addGroupMembers(groupId: number, userIds: number[]): Promise<void>;
+  removeGroupMember(groupId: number, userId: number): Promise<boolean>;
+  getGroupConversations(userId: number): Promise<GroupConversation[]>;
+  getGroupMessages(groupId: number, userId: number, page?: MessagePage): Promise<GroupMessageWithKey[]>;
+  getGroupMessage(id: number): Promise<GroupMessage | undefined>;
+  createGroupMessage(data: InsertGroupMessage): Promise<GroupMessage>;
+  deleteGroupMessage(id: number, userId: number): Promise<GroupMessage | null>;
+  markGroupRead(groupId: number, userId: number, upToMessageId: number): Promise<void>;
+
+  isBlocked(blockerId: number, blockedId: number): Promise<boolean>;
+  blockUser(blockerId: number, blockedId: number): Promise<Block>;
+  unblockUser(blockerId: number, blockedId: number): Promise<boolean>;
 }
 
-export const storage = new Storage();
+// Postgres when DATABASE_URL is set (serverless deployments can't keep a local
+// file), otherwise the SQLite file at DATABASE_FILE.
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new PostgresStorage(openPostgres(process.env.DATABASE_URL))
+  : new SqliteStorage(openSqlite());
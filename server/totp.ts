@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { BACKUP_CODE_COUNT } from "@shared/schema";
+
+// RFC 6238 with the parameters every authenticator app defaults to.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side still count, for clock drift.
+const DRIFT_STEPS = 1;
+const ISSUER = "ArcherChat";
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Separate keys for the secrets and the backup code hashes, both derived from
+// SESSION_SECRET so there's no second secret to configure.
+const deriveKey = (info: string) =>
+  Buffer.from(crypto.hkdfSync("sha256", process.env.SESSION_SECRET!, "", info, 32));
+const SECRET_KEY = deriveKey("archer/totp-secret/v1");
+const BACKUP_CODE_KEY = deriveKey("archer/backup-code/v1");
+
+function base32Encode(data: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(data)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32.indexOf(char);
+    if (index < 0) throw new Error("Invalid base32");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export function otpauthUrl(secret: string, username: string) {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${ISSUER}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+}
+
+function codeAt(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+// The time step the code belongs to, or null. Steps at or before `lastUsedStep`
+// don't count, so an observed code can't be replayed.
+export function matchTotpStep(secret: string, code: string, lastUsedStep: number) {
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (step <= lastUsedStep) continue;
+    const expected = codeAt(secret, step);
+    if (code.length === expected.length && crypto.timingSafeEqual(Buffer.from(code), Buffer.from(expected))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function encryptTotpSecret(secret: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", SECRET_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, ciphertext, cipher.getAuthTag()].map((part) => part.toString("base64")).join(".");
+}
+
+export function decryptTotpSecret(encrypted: string) {
+  const [iv, ciphertext, tag] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", SECRET_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
+
+// Shown to the user once as xxxxx-xxxxx; only the hashes are stored.
+export function generateBackupCodes() {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Bound to the user so equal codes on two accounts hash differently.
+export function hashBackupCode(userId: number, code: string) {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return crypto.createHmac("sha256", BACKUP_CODE_KEY).update(`${userId}:${normalized}`).digest("base64url");
+}
@@ -0,0 +1,28 @@
+const CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CODE_LENGTH = 10;
+
+// Pairing codes are derived from a SHA-256 digest of the new device's ECDH public
+// key, so the approving device can tell if the relayed key was swapped.
+export function linkCodeFromDigest(digest: Uint8Array): string {
+  let code = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of Array.from(digest)) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5 && code.length < CODE_LENGTH) {
+      code += CODE_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= 0xff;
+    if (code.length === CODE_LENGTH) break;
+  }
+
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+export function normalizeLinkCode(input: string): string {
+  const code = input.toUpperCase().replace(/[^0-9A-Z]/g, "").replace(/O/g, "0").replace(/[IL]/g, "1");
+  return code.length === CODE_LENGTH ? `${code.slice(0, 5)}-${code.slice(5)}` : code;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, index, unique, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,6 +11,15 @@ export const users = sqliteTable("users", {
   profilePicture: text("profile_picture"),
   publicKey: text("public_key").notNull(),
   encryptedPrivateKey: text("encrypted_private_key"),
+  // ECDSA P-256 key for message signatures; the private half is escrowed
+  // encrypted to the user's own RSA public key so every device can restore it.
+  signingPublicKey: text("signing_public_key"),
+  encryptedSigningKey: text("encrypted_signing_key"),
+  readReceipts: integer("read_receipts", { mode: "boolean" }).notNull().default(true),
+  hideLastSeen: integer("hide_last_seen", { mode: "boolean" }).notNull().default(false),
+  // Deleted accounts keep an anonymized row so conversations and groups can
+  // still name them; see DELETED_ACCOUNT_NAME.
+  deletedAt: integer("deleted_at", { mode: "timestamp" }),
 });
 
 export const messages = sqliteTable("messages", {
@@ -24,39 +33,335 @@ export const messages = sqliteTable("messages", {
   type: text("type", { enum: ["text", "image"] }).notNull().default("text"),
   deleted: integer("deleted", { mode: "boolean" }).notNull().default(false),
   timestamp: integer("timestamp", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
-});
+  deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+  readAt: integer("read_at", { mode: "timestamp" }),
+  signature: text("signature"),
+  // "ratchet" messages carry their content key in per-device envelopes instead
+  // of the two RSA-wrapped keys, which are left empty.
+  encryption: text("encryption", { enum: ["rsa", "ratchet"] }).notNull().default("rsa"),
+  // Set to the latest revision's time once the sender has edited it.
+  editedAt: integer("edited_at", { mode: "timestamp" }),
+  // The message being replied to, always from the same conversation.
+  replyToId: integer("reply_to_id").references((): AnySQLiteColumn => messages.id),
+}, (table) => [
+  index("idx_messages_sender").on(table.senderId),
+  index("idx_messages_recipient").on(table.recipientId),
+  index("idx_messages_timestamp").on(table.timestamp),
+  index("idx_messages_pair").on(table.senderId, table.recipientId, table.id),
+]);
+
+// Each edit of a message, encrypted the same way as the original: ratchet edits
+// carry per-device envelopes in revisionEnvelopes. The messages row keeps the
+// original, so the full history stays readable.
+export const messageRevisions = sqliteTable("message_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  encryptedContent: text("encrypted_content").notNull(),
+  senderEncryptedKey: text("sender_encrypted_key").notNull(),
+  recipientEncryptedKey: text("recipient_encrypted_key").notNull(),
+  iv: text("iv").notNull(),
+  signature: text("signature"),
+  encryption: text("encryption", { enum: ["rsa", "ratchet"] }).notNull().default("rsa"),
+  editedAt: integer("edited_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+  index("idx_message_revisions_message").on(table.messageId, table.id),
+]);
+
+// "Delete for me": messages a participant removed from their own view only.
+export const hiddenMessages = sqliteTable("hidden_messages", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+}, (table) => [
+  unique().on(table.userId, table.messageId),
+]);
+
+// "Delete chat": everything up to and including clearedUpTo is gone for userId
+// only; the peer keeps their copy and newer messages show up again.
+export const conversationClears = sqliteTable("conversation_clears", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  peerId: integer("peer_id").notNull().references(() => users.id),
+  clearedUpTo: integer("cleared_up_to").notNull(),
+  clearedAt: integer("cleared_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+  unique().on(table.userId, table.peerId),
+]);
 
 export const blocks = sqliteTable("blocks", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   blockerId: integer("blocker_id").notNull().references(() => users.id),
   blockedId: integer("blocked_id").notNull().references(() => users.id),
-});
+}, (table) => [
+  unique().on(table.blockerId, table.blockedId),
+  index("idx_blocks_blocker").on(table.blockerId),
+  index("idx_blocks_blocked").on(table.blockedId),
+]);
 
 export const reactions = sqliteTable("reactions", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
   userId: integer("user_id").notNull().references(() => users.id),
   emoji: text("emoji").notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.userId, table.emoji),
+  index("idx_reactions_message").on(table.messageId),
+]);
+
+export const devices = sqliteTable("devices", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  lastSeenAt: integer("last_seen_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+  index("idx_devices_user").on(table.userId),
+]);
+
+// The TOTP secret is encrypted with a key derived from SESSION_SECRET. It stays
+// disabled until a first code checks out; lastUsedStep keeps a code from working twice.
+export const totpCredentials = sqliteTable("totp_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  encryptedSecret: text("encrypted_secret").notNull(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(false),
+  lastUsedStep: integer("last_used_step").notNull().default(0),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+// Keyed hashes, so a database dump alone can't be brute-forced back into codes.
+export const backupCodes = sqliteTable("backup_codes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull().unique(),
+  usedAt: integer("used_at", { mode: "timestamp" }),
+}, (table) => [
+  index("idx_backup_codes_user").on(table.userId),
+]);
+
+// Fixed-window counters behind the rate limiters, keyed by route bucket and by
+// IP, user or username. Rows whose window has passed are pruned.
+export const rateLimits = sqliteTable("rate_limits", {
+  key: text("key").primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: integer("reset_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("idx_rate_limits_reset").on(table.resetAt),
+]);
+
+// Failed sign-ins per (lowercased) username, whether or not the account exists.
+export const loginFailures = sqliteTable("login_failures", {
+  username: text("username").primaryKey(),
+  failures: integer("failures").notNull(),
+  lockedUntil: integer("locked_until", { mode: "timestamp" }),
+  lastFailureAt: integer("last_failure_at", { mode: "timestamp" }).notNull(),
+});
+
+// One per sign-in. Access tokens name the session, so deleting the row revokes them;
+// the refresh token is stored hashed and replaced every time it is used.
+export const sessions = sqliteTable("sessions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  deviceId: integer("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+}, (table) => [
+  index("idx_sessions_user").on(table.userId),
+  index("idx_sessions_device").on(table.deviceId),
+]);
+
+// A device's X3DH prekey bundle. The identity key belongs to the device and never
+// leaves it; both signatures are made with the account's signing key.
+export const prekeyBundles = sqliteTable("prekey_bundles", {
+  deviceId: integer("device_id").primaryKey().references(() => devices.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  identityKey: text("identity_key").notNull(),
+  identitySignature: text("identity_signature").notNull(),
+  signedPrekeyId: integer("signed_prekey_id").notNull(),
+  signedPrekey: text("signed_prekey").notNull(),
+  signedPrekeySignature: text("signed_prekey_signature").notNull(),
+}, (table) => [
+  index("idx_prekey_bundles_user").on(table.userId),
+]);
+
+// Handed out at most once each, then deleted.
+export const oneTimePrekeys = sqliteTable("one_time_prekeys", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  deviceId: integer("device_id").notNull().references(() => devices.id),
+  keyId: integer("key_id").notNull(),
+  publicKey: text("public_key").notNull(),
+}, (table) => [
+  unique().on(table.deviceId, table.keyId),
+]);
+
+// The content key of a ratchet message, encrypted with the session of one device.
+export const messageEnvelopes = sqliteTable("message_envelopes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  messageId: integer("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+  deviceId: integer("device_id").notNull().references(() => devices.id),
+  envelope: text("envelope").notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.deviceId),
+  index("idx_envelopes_device").on(table.deviceId),
+]);
+
+// The content key of a ratchet edit, encrypted with the session of one device.
+export const revisionEnvelopes = sqliteTable("revision_envelopes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  revisionId: integer("revision_id").notNull().references(() => messageRevisions.id, { onDelete: "cascade" }),
+  deviceId: integer("device_id").notNull().references(() => devices.id),
+  envelope: text("envelope").notNull(),
+}, (table) => [
+  unique().on(table.revisionId, table.deviceId),
+  index("idx_revision_envelopes_device").on(table.deviceId),
+]);
+
+export const attachments = sqliteTable("attachments", {
+  id: text("id").primaryKey(),
+  uploaderId: integer("uploader_id").notNull().references(() => users.id),
+  size: integer("size").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+export const groups = sqliteTable("groups", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
 });
 
+export const groupMembers = sqliteTable("group_members", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  groupId: integer("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  lastReadMessageId: integer("last_read_message_id").notNull().default(0),
+  addedAt: integer("added_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+  unique().on(table.groupId, table.userId),
+  index("idx_group_members_user").on(table.userId),
+]);
+
+export const groupMessages = sqliteTable("group_messages", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  groupId: integer("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  encryptedContent: text("encrypted_content").notNull(),
+  iv: text("iv").notNull(),
+  type: text("type", { enum: ["text", "image"] }).notNull().default("text"),
+  deleted: integer("deleted", { mode: "boolean" }).notNull().default(false),
+  timestamp: integer("timestamp", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  signature: text("signature"),
+}, (table) => [
+  index("idx_group_messages_group").on(table.groupId, table.id),
+]);
+
+// One row per member the message's content key was wrapped for.
+export const groupMessageKeys = sqliteTable("group_message_keys", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  messageId: integer("message_id").notNull().references(() => groupMessages.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  encryptedKey: text("encrypted_key").notNull(),
+}, (table) => [
+  unique().on(table.messageId, table.userId),
+]);
+
 export const insertUserSchema = createInsertSchema(users, {
   username: z.string().min(3).max(20).regex(/^[a-zA-Z0-9_]+$/),
   displayName: z.string().min(1).max(50),
   publicKey: z.string().min(1),
   encryptedPrivateKey: z.string().optional(),
-}).omit({ id: true });
+  signingPublicKey: z.string().min(1).optional(),
+  encryptedSigningKey: z.string().min(1).optional(),
+}).omit({ id: true, readReceipts: true, hideLastSeen: true, deletedAt: true });
+
+// Messages per page of history when the request doesn't set a limit.
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const MAX_MESSAGE_ENVELOPES = 64;
+
+const envelopesSchema = z.array(z.object({
+  deviceId: z.number().int().positive(),
+  envelope: z.string().min(1),
+})).min(1).max(MAX_MESSAGE_ENVELOPES);
+
+// Ratchet messages carry envelopes instead of RSA-wrapped keys, never both.
+function hasOneKeyScheme(m: Pick<Message, "encryption" | "senderEncryptedKey" | "recipientEncryptedKey"> & { envelopes?: unknown[] }) {
+  return m.encryption === "ratchet"
+    ? !!m.envelopes && !m.senderEncryptedKey && !m.recipientEncryptedKey
+    : !m.envelopes && !!m.senderEncryptedKey && !!m.recipientEncryptedKey;
+}
 
 export const insertMessageSchema = createInsertSchema(messages, {
   encryptedContent: z.string().min(1),
-  senderEncryptedKey: z.string().min(1),
-  recipientEncryptedKey: z.string().min(1),
+  senderEncryptedKey: z.string(),
+  recipientEncryptedKey: z.string(),
   iv: z.string().min(1),
   type: z.enum(["text", "image"]).default("text"),
-}).omit({ id: true, timestamp: true, deleted: true });
+  signature: z.string().min(1).optional(),
+  encryption: z.enum(["rsa", "ratchet"]).default("rsa"),
+  replyToId: z.number().int().positive().optional(),
+}).omit({ id: true, timestamp: true, deleted: true, deliveredAt: true, readAt: true, editedAt: true }).extend({
+  envelopes: envelopesSchema.optional(),
+}).refine(hasOneKeyScheme);
+
+// How long after sending a text message its sender may still edit it.
+export const MESSAGE_EDIT_WINDOW = 15 * 60 * 1000;
+
+// How long after sending a message its sender may still delete it for everyone.
+export const DELETE_FOR_EVERYONE_WINDOW = 60 * 60 * 1000;
+
+// Shown in place of a deleted account's display name.
+export const DELETED_ACCOUNT_NAME = "Deleted account";
+
+export const deleteScopeSchema = z.enum(["me", "everyone"]);
+export type DeleteScope = z.infer<typeof deleteScopeSchema>;
+
+export const editMessageSchema = createInsertSchema(messageRevisions, {
+  encryptedContent: z.string().min(1),
+  senderEncryptedKey: z.string(),
+  recipientEncryptedKey: z.string(),
+  iv: z.string().min(1),
+  signature: z.string().min(1).optional(),
+  encryption: z.enum(["rsa", "ratchet"]).default("rsa"),
+}).omit({ id: true, messageId: true, editedAt: true }).extend({
+  envelopes: envelopesSchema.optional(),
+}).refine(hasOneKeyScheme);
 
 export const insertBlockSchema = createInsertSchema(blocks).omit({ id: true });
 
-export const insertReactionSchema = createInsertSchema(reactions).omit({ id: true });
+export const insertReactionSchema = createInsertSchema(reactions, {
+  emoji: z.string().min(1).max(16),
+}).omit({ id: true });
+
+export const MAX_GROUP_MEMBERS = 32;
+
+const groupNameSchema = z.string().trim().min(1).max(50);
+
+export const createGroupSchema = z.object({
+  name: groupNameSchema,
+  memberIds: z.array(z.number().int().positive()).min(1).max(MAX_GROUP_MEMBERS - 1),
+});
+
+export const renameGroupSchema = z.object({
+  name: groupNameSchema,
+});
+
+export const addGroupMembersSchema = z.object({
+  userIds: z.array(z.number().int().positive()).min(1).max(MAX_GROUP_MEMBERS - 1),
+});
+
+export const insertGroupMessageSchema = createInsertSchema(groupMessages, {
+  encryptedContent: z.string().min(1),
+  iv: z.string().min(1),
+  type: z.enum(["text", "image"]).default("text"),
+  signature: z.string().min(1).optional(),
+}).omit({ id: true, timestamp: true, deleted: true }).extend({
+  encryptedKeys: z.array(z.object({
+    userId: z.number().int().positive(),
+    encryptedKey: z.string().min(1),
+  })).min(1).max(MAX_GROUP_MEMBERS),
+});
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -64,8 +369,107 @@ export type SafeUser = Omit<User, "passwordHash">;
 
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type EditMessage = z.infer<typeof editMessageSchema>;
 
 export type InsertBlock = z.infer<typeof insertBlockSchema>;
+export type Block = typeof blocks.$inferSelect;
+
+export const MAX_ONE_TIME_PREKEYS = 100;
+
+export const prekeyBundleSchema = z.object({
+  identityKey: z.string().min(1),
+  identitySignature: z.string().min(1),
+  signedPrekeyId: z.number().int().nonnegative(),
+  signedPrekey: z.string().min(1),
+  signedPrekeySignature: z.string().min(1),
+  oneTimePrekeys: z.array(z.object({
+    keyId: z.number().int().nonnegative(),
+    publicKey: z.string().min(1),
+  })).max(MAX_ONE_TIME_PREKEYS),
+});
+
+export const claimPrekeysSchema = z.object({
+  deviceIds: z.array(z.number().int().positive()).min(1).max(MAX_MESSAGE_ENVELOPES),
+});
+
+export type PublishPrekeys = z.infer<typeof prekeyBundleSchema>;
+export type PrekeyBundle = typeof prekeyBundles.$inferSelect;
+
+export interface ClaimedPrekeyBundle extends PrekeyBundle {
+  oneTimePrekey: { keyId: number; publicKey: string } | null;
+}
+
+export interface PrekeyStatus {
+  deviceId: number;
+  identityKey: string | null;
+  signedPrekeyId: number | null;
+  oneTimePrekeys: number;
+}
+
+export type Device = typeof devices.$inferSelect;
+
+export interface DeviceInfo extends Omit<Device, "userId"> {
+  current: boolean;
+}
+
+export type Session = typeof sessions.$inferSelect;
+
+export interface SessionInfo extends Omit<Session, "userId" | "refreshTokenHash"> {
+  deviceName: string;
+  current: boolean;
+}
+
+// What sign-up, sign-in, recovery and refresh hand back to API clients in bearer
+// mode; the access token is short-lived.
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// What browsers get instead: the tokens only travel as httpOnly cookies.
+export interface CookieSession {
+  csrfToken: string;
+}
+
+export const deviceLinkApprovalSchema = z.object({
+  senderPublicKey: z.string().min(1),
+  encryptedKeys: z.string().min(1),
+  iv: z.string().min(1),
+});
+
+export type DeviceLinkApproval = z.infer<typeof deviceLinkApprovalSchema>;
+
+export type Attachment = typeof attachments.$inferSelect;
+
+export type Group = typeof groups.$inferSelect;
+export type GroupMessage = typeof groupMessages.$inferSelect;
+export type InsertGroupMessage = z.infer<typeof insertGroupMessageSchema>;
+
+export type GroupMemberInfo = Pick<User, "id" | "username" | "displayName" | "profilePicture" | "publicKey" | "signingPublicKey">;
+
+export interface GroupWithMembers extends Group {
+  members: GroupMemberInfo[];
+}
+
+export interface GroupConversation {
+  groupId: number;
+  name: string;
+  memberCount: number;
+  lastMessage: string | null;
+  lastMessageTime: Date | null;
+  unreadCount: number;
+}
+
+// A group message as seen by one member: only that member's wrapped key is sent.
+export interface GroupMessageWithKey extends GroupMessage {
+  encryptedKey: string;
+}
+
+export interface DecryptedGroupMessage extends Omit<GroupMessageWithKey, "encryptedContent" | "encryptedKey"> {
+  content: string;
+  signatureStatus: SignatureStatus;
+}
 
 export type Reaction = typeof reactions.$inferSelect;
 export type InsertReaction = z.infer<typeof insertReactionSchema>;
@@ -81,16 +485,124 @@ export const changePasswordSchema = z.object({
 
 export type ChangePassword = z.infer<typeof changePasswordSchema>;
 
+export const privacySettingsSchema = z.object({
+  readReceipts: z.boolean(),
+  hideLastSeen: z.boolean(),
+});
+
+export type PrivacySettings = z.infer<typeof privacySettingsSchema>;
+
+export const signingKeySchema = z.object({
+  signingPublicKey: z.string().min(1),
+  encryptedSigningKey: z.string().min(1),
+});
+
+export type SigningKey = z.infer<typeof signingKeySchema>;
+
+export const BACKUP_CODE_COUNT = 10;
+
+export const totpCodeSchema = z.string().regex(/^\d{6}$/, "Enter the 6-digit code");
+
+// A login that passed the password check but still needs a second factor.
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeId: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TotpSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export type TotpCredential = typeof totpCredentials.$inferSelect;
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type LoginFailure = typeof loginFailures.$inferSelect;
+
+// `envelope` is the requesting device's envelope for ratchet messages.
+export interface MessageWithEnvelope extends Message {
+  envelope: string | null;
+}
+
+// `envelope` is the requesting device's envelope for ratchet edits.
+export interface RevisionWithEnvelope extends MessageRevision {
+  envelope: string | null;
+}
+
+// Edited messages are served as their latest revision.
+export function withRevision<T extends MessageWithEnvelope>(message: T, revision: RevisionWithEnvelope): T {
+  return {
+    ...message,
+    encryptedContent: revision.encryptedContent,
+    senderEncryptedKey: revision.senderEncryptedKey,
+    recipientEncryptedKey: revision.recipientEncryptedKey,
+    iv: revision.iv,
+    signature: revision.signature,
+    encryption: revision.encryption,
+    envelope: revision.envelope,
+    editedAt: revision.editedAt,
+  };
+}
+
+// `original` is the message as first sent; revisions are oldest first.
+export interface MessageHistory {
+  original: MessageWithEnvelope;
+  revisions: RevisionWithEnvelope[];
+}
+
+export interface MessageWithReactions extends MessageWithEnvelope {
+  reactions: Reaction[];
+}
+
 export interface Conversation {
   userId: number;
   username: string;
   displayName: string;
   profilePicture: string | null;
-  lastMessage: string | null;
+  signingPublicKey: string | null;
+  deletedAt: Date | null;
+  // Still encrypted; the client decrypts it for the preview.
+  lastMessage: MessageWithEnvelope | null;
   lastMessageTime: Date | null;
   unreadCount: number;
 }
 
-export interface DecryptedMessage extends Omit<Message, "encryptedContent"> {
+// "unsigned" covers senders without a signing key; once a sender has one, a
+// message without a signature counts as "invalid".
+export type SignatureStatus = "verified" | "unsigned" | "invalid";
+
+export interface DecryptedMessage extends Omit<MessageWithReactions, "encryptedContent"> {
   content: string;
+  signatureStatus: SignatureStatus;
 }
+
+// Online while any of the user's devices holds a realtime connection.
+export interface Presence {
+  userId: number;
+  online: boolean;
+  // Null when the user hides it or has never been seen.
+  lastSeenAt: Date | null;
+}
+
+export type RealtimeEvent =
+  | { type: "message:new"; message: MessageWithReactions }
+  | { type: "message:edited"; senderId: number; recipientId: number; revision: RevisionWithEnvelope }
+  | { type: "message:deleted"; messageIds: number[]; senderId: number; recipientId: number }
+  | { type: "message:hidden"; peerId: number; messageIds: number[] }
+  | { type: "receipt:updated"; senderId: number; recipientId: number; messageIds: number[]; status: "delivered" | "read"; at: Date }
+  | { type: "reaction:changed"; messageId: number; senderId: number; recipientId: number; reactions: Reaction[] }
+  | { type: "conversation:deleted"; userIds: [number, number] }
+  | { type: "device:revoked"; deviceId: number }
+  | { type: "account:deleted"; userId: number }
+  | { type: "block:changed"; blockerId: number; blockedId: number; blocked: boolean }
+  | { type: "group:message:new"; message: GroupMessageWithKey }
+  | { type: "group:message:deleted"; groupId: number; messageIds: number[] }
+  | { type: "group:updated"; group: GroupWithMembers }
+  | { type: "group:removed"; groupId: number }
+  | { type: "presence:changed"; presence: Presence }
+  | { type: "typing"; userId: number; typing: boolean };